@@ -0,0 +1,302 @@
+import { createServer, type IncomingMessage, type ServerResponse } from 'node:http';
+import OpenAI from 'openai';
+import { initializeApp } from 'firebase-admin/app';
+import { getAuth } from 'firebase-admin/auth';
+import { estimateCost } from '../src/lib/aiPricing';
+import {
+  checkDailyQuota,
+  checkMonthlyCap,
+  checkRateLimit,
+  recordQuotaUsage,
+  QuotaExceededError,
+  type QuotaConfig
+} from './quota';
+
+/**
+ * Authenticated proxy between the browser and the model provider, so the
+ * API key stays on the server. Run locally with `npm run server`; Vite
+ * forwards `/api` here in development.
+ *
+ * Environment:
+ *   OPENAI_API_KEY          provider key (required)
+ *   OPENAI_BASE_URL         optional OpenAI-compatible endpoint
+ *   AI_DEFAULT_MODEL        model used when the client does not pick one
+ *   AI_ALLOWED_MODELS       comma-separated models clients may request
+ *   AI_MAX_TOKENS           upper bound for `maxTokens` per request
+ *   AI_RATE_LIMIT_PER_MINUTE, AI_DAILY_TOKEN_QUOTA   per-user limits
+ *
+ * Each user's own `aiSettings.hardMonthlyCap` is enforced here as well.
+ *   AI_PROXY_PORT, AI_ALLOWED_ORIGIN
+ */
+
+interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+interface CompleteRequest {
+  messages: ChatMessage[];
+  options?: {
+    model?: string;
+    temperature?: number;
+    maxTokens?: number;
+    n?: number;
+    json?: boolean;
+  };
+}
+
+class HttpError extends Error {
+  constructor(public status: number, public code: string, message: string) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+const env = process.env;
+const port = Number(env.AI_PROXY_PORT) || 8787;
+const allowedOrigin = env.AI_ALLOWED_ORIGIN || 'http://localhost:5173';
+const defaultModel = env.AI_DEFAULT_MODEL || 'gpt-3.5-turbo';
+const allowedModels = (env.AI_ALLOWED_MODELS || defaultModel).split(',').map(m => m.trim());
+const maxTokensCap = Number(env.AI_MAX_TOKENS) || 1000;
+const quotaConfig: QuotaConfig = {
+  requestsPerMinute: Number(env.AI_RATE_LIMIT_PER_MINUTE) || 20,
+  dailyTokens: Number(env.AI_DAILY_TOKEN_QUOTA) || 50000
+};
+
+// Bounds on what one request may send to the provider
+const MAX_BODY_BYTES = 256 * 1024;
+const MAX_MESSAGES = 50;
+const MAX_MESSAGE_CHARS = 20000;
+
+initializeApp();
+const openai = new OpenAI({ apiKey: env.OPENAI_API_KEY, baseURL: env.OPENAI_BASE_URL });
+
+const readJson = async (req: IncomingMessage): Promise<unknown> => {
+  const tooLarge = new HttpError(413, 'payload_too_large', `Request body must be under ${MAX_BODY_BYTES} bytes`);
+  if (Number(req.headers['content-length']) > MAX_BODY_BYTES) throw tooLarge;
+
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length;
+    if (size > MAX_BODY_BYTES) throw tooLarge;
+    chunks.push(chunk as Buffer);
+  }
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf8') || '{}');
+  } catch {
+    throw new HttpError(400, 'bad_request', 'Request body must be JSON');
+  }
+};
+
+const sendJson = (res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) => {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify(body));
+};
+
+const authenticate = async (req: IncomingMessage): Promise<string> => {
+  const token = req.headers.authorization?.match(/^Bearer (.+)$/)?.[1];
+  if (!token) throw new HttpError(401, 'unauthenticated', 'Missing Firebase ID token');
+
+  try {
+    const decoded = await getAuth().verifyIdToken(token);
+    return decoded.uid;
+  } catch {
+    throw new HttpError(401, 'unauthenticated', 'Invalid or expired Firebase ID token');
+  }
+};
+
+const parseCompleteRequest = (body: unknown): CompleteRequest => {
+  const request = body as CompleteRequest;
+  const validRoles = ['system', 'user', 'assistant'];
+  if (
+    !Array.isArray(request?.messages) ||
+    request.messages.length === 0 ||
+    !request.messages.every(m => validRoles.includes(m?.role) && typeof m.content === 'string')
+  ) {
+    throw new HttpError(400, 'bad_request', '`messages` must be a non-empty list of chat messages');
+  }
+  if (request.messages.length > MAX_MESSAGES) {
+    throw new HttpError(400, 'bad_request', `\`messages\` may hold at most ${MAX_MESSAGES} messages`);
+  }
+  if (request.messages.some(m => m.content.length > MAX_MESSAGE_CHARS)) {
+    throw new HttpError(400, 'bad_request', `Each message may be at most ${MAX_MESSAGE_CHARS} characters`);
+  }
+
+  const model = request.options?.model || defaultModel;
+  if (!allowedModels.includes(model)) {
+    throw new HttpError(400, 'bad_request', `Model "${model}" is not allowed`);
+  }
+
+  return request;
+};
+
+// Shared by both endpoints: authenticate, validate and charge the rate limit
+// before any tokens are spent.
+const admitRequest = async (req: IncomingMessage) => {
+  const userId = await authenticate(req);
+  const request = parseCompleteRequest(await readJson(req));
+
+  checkRateLimit(userId, quotaConfig);
+  await checkDailyQuota(userId, quotaConfig);
+  await checkMonthlyCap(userId);
+
+  return { userId, ...request };
+};
+
+const handleComplete = async (req: IncomingMessage, res: ServerResponse) => {
+  const { userId, messages, options = {} } = await admitRequest(req);
+
+  const model = options.model || defaultModel;
+  const response = await openai.chat.completions.create({
+    model,
+    messages,
+    temperature: options.temperature,
+    max_tokens: Math.min(options.maxTokens || maxTokensCap, maxTokensCap),
+    n: Math.min(options.n || 1, 3),
+    ...(options.json && { response_format: { type: 'json_object' as const } })
+  });
+
+  const usage = {
+    promptTokens: response.usage?.prompt_tokens || 0,
+    completionTokens: response.usage?.completion_tokens || 0
+  };
+  await recordQuotaUsage(userId, response.usage?.total_tokens || 0, estimateCost(response.model || model, usage));
+
+  if (response.choices.some(choice => choice.finish_reason === 'content_filter')) {
+    throw new HttpError(422, 'content_filter', 'The AI service declined to answer');
+  }
+
+  sendJson(res, 200, {
+    model: response.model || model,
+    choices: response.choices.map(choice => choice.message.content?.trim() || ''),
+    usage: response.usage && {
+      promptTokens: response.usage.prompt_tokens,
+      completionTokens: response.usage.completion_tokens
+    }
+  });
+};
+
+// Rough token count (about four characters per token) for when the provider
+// sends no usage, e.g. because the client disconnected mid-stream
+const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+const handleStream = async (req: IncomingMessage, res: ServerResponse) => {
+  const { userId, messages, options = {} } = await admitRequest(req);
+
+  const model = options.model || defaultModel;
+  const abort = new AbortController();
+  res.on('close', () => abort.abort());
+
+  const stream = await openai.chat.completions.create({
+    model,
+    messages,
+    temperature: options.temperature,
+    max_tokens: Math.min(options.maxTokens || maxTokensCap, maxTokensCap),
+    stream: true,
+    stream_options: { include_usage: true }
+  }, { signal: abort.signal });
+
+  res.writeHead(200, { 'Content-Type': 'application/x-ndjson', 'Cache-Control': 'no-cache' });
+
+  let streamed = '';
+  let usage: { promptTokens: number; completionTokens: number } | undefined;
+  try {
+    for await (const chunk of stream) {
+      const token = chunk.choices[0]?.delta?.content;
+      if (token) {
+        streamed += token;
+        res.write(`${JSON.stringify({ token })}\n`);
+      }
+      if (chunk.choices[0]?.finish_reason === 'content_filter') {
+        res.end(`${JSON.stringify({ error: { code: 'content_filter', message: 'The AI service declined to answer' } })}\n`);
+        return;
+      }
+      if (chunk.usage) {
+        usage = { promptTokens: chunk.usage.prompt_tokens, completionTokens: chunk.usage.completion_tokens };
+      }
+    }
+    res.end(`${JSON.stringify({ done: true, model, usage })}\n`);
+  } catch (error) {
+    if (!abort.signal.aborted) {
+      console.error('Error streaming from AI provider:', error);
+      res.end(`${JSON.stringify({ error: { code: 'upstream_error', message: 'The AI service stopped responding' } })}\n`);
+    }
+  } finally {
+    // The response is already under way, so a failure here can only be logged
+    const used = usage ?? {
+      promptTokens: estimateTokens(messages.map(m => m.content).join('')),
+      completionTokens: estimateTokens(streamed)
+    };
+    await recordQuotaUsage(userId, used.promptTokens + used.completionTokens, estimateCost(model, used)).catch(error => console.error('Error recording quota usage:', error));
+  }
+};
+
+// Tells the client what went wrong upstream so it can decide whether to retry.
+const upstreamErrorCode = (error: InstanceType<typeof OpenAI.APIError>): [number, string] => {
+  if (error instanceof OpenAI.APIConnectionTimeoutError) return [504, 'upstream_timeout'];
+  if (error.code === 'content_filter') return [422, 'content_filter'];
+  if (error.status === 429) return [429, 'upstream_rate_limited'];
+  if (error.status === 401 || error.status === 403) return [502, 'upstream_auth'];
+  return [502, 'upstream_error'];
+};
+
+const handleError = (res: ServerResponse, error: unknown) => {
+  if (res.headersSent) {
+    console.error('Error after response started:', error);
+    if (!res.writableEnded) res.end();
+    return;
+  }
+
+  if (error instanceof HttpError) {
+    sendJson(res, error.status, { error: { code: error.code, message: error.message } });
+  } else if (error instanceof QuotaExceededError) {
+    sendJson(
+      res,
+      429,
+      { error: { code: error.code, message: error.message } },
+      { 'Retry-After': String(error.retryAfter) }
+    );
+  } else if (error instanceof OpenAI.APIError) {
+    console.error('Error from AI provider:', error.status, error.message);
+    const [status, code] = upstreamErrorCode(error);
+    const retryAfter = error.headers?.['retry-after'];
+    sendJson(
+      res,
+      status,
+      { error: { code, message: 'The AI service returned an error', status: error.status } },
+      retryAfter ? { 'Retry-After': retryAfter } : {}
+    );
+  } else {
+    console.error('Error handling AI request:', error);
+    sendJson(res, 500, { error: { code: 'internal', message: 'Unexpected server error' } });
+  }
+};
+
+const server = createServer(async (req, res) => {
+  res.setHeader('Access-Control-Allow-Origin', allowedOrigin);
+  res.setHeader('Access-Control-Allow-Headers', 'Authorization, Content-Type');
+  res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
+
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204);
+    res.end();
+    return;
+  }
+
+  try {
+    if (req.method === 'POST' && req.url === '/api/ai/complete') {
+      await handleComplete(req, res);
+    } else if (req.method === 'POST' && req.url === '/api/ai/stream') {
+      await handleStream(req, res);
+    } else {
+      throw new HttpError(404, 'not_found', 'Not found');
+    }
+  } catch (error) {
+    handleError(res, error);
+  }
+});
+
+server.listen(port, () => {
+  console.log(`AI proxy listening on http://localhost:${port}`);
+});
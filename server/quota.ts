@@ -0,0 +1,105 @@
+import { getFirestore } from 'firebase-admin/firestore';
+
+export interface QuotaConfig {
+  requestsPerMinute: number;
+  dailyTokens: number;
+}
+
+/**
+ * Raised when a caller is over their per-minute rate limit, daily token
+ * quota or their own monthly spending cap. `retryAfter` is in seconds and is sent back as `Retry-After`.
+ */
+export class QuotaExceededError extends Error {
+  constructor(public code: 'rate_limited' | 'quota_exceeded', message: string, public retryAfter: number) {
+    super(message);
+    this.name = 'QuotaExceededError';
+  }
+}
+
+const MINUTE = 60 * 1000;
+const recentRequests = new Map<string, number[]>();
+
+const today = () => new Date().toISOString().split('T')[0];
+
+const thisMonth = () => today().slice(0, 7);
+
+const secondsUntilTomorrow = () => {
+  const tomorrow = new Date();
+  tomorrow.setUTCHours(24, 0, 0, 0);
+  return Math.ceil((tomorrow.getTime() - Date.now()) / 1000);
+};
+
+const secondsUntilNextMonth = () => {
+  const now = new Date();
+  const nextMonth = Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1);
+  return Math.ceil((nextMonth - now.getTime()) / 1000);
+};
+
+// Sliding one-minute window kept in memory; good enough for a single
+// instance, and the daily quota below is the hard limit anyway.
+export const checkRateLimit = (userId: string, config: QuotaConfig) => {
+  const now = Date.now();
+  const timestamps = (recentRequests.get(userId) || []).filter(t => now - t < MINUTE);
+
+  if (timestamps.length >= config.requestsPerMinute) {
+    const retryAfter = Math.ceil((MINUTE - (now - timestamps[0])) / 1000);
+    throw new QuotaExceededError('rate_limited', 'Too many AI requests. Please wait a moment.', retryAfter);
+  }
+
+  timestamps.push(now);
+  recentRequests.set(userId, timestamps);
+};
+
+const quotaDoc = (userId: string) => getFirestore().collection('aiQuotas').doc(userId);
+
+export const checkDailyQuota = async (userId: string, config: QuotaConfig) => {
+  const snapshot = await quotaDoc(userId).get();
+  const data = snapshot.data();
+  const tokensUsed = data?.day === today() ? data.tokens : 0;
+
+  if (tokensUsed >= config.dailyTokens) {
+    throw new QuotaExceededError('quota_exceeded', 'Daily AI limit reached. It resets tomorrow.', secondsUntilTomorrow());
+  }
+};
+
+/**
+ * Enforces the user's `aiSettings.hardMonthlyCap` (USD) against the spend
+ * recorded here, which clients cannot write, rather than the client-written
+ * usage totals.
+ */
+export const checkMonthlyCap = async (userId: string) => {
+  const [quota, user] = await Promise.all([
+    quotaDoc(userId).get(),
+    getFirestore().collection('users').doc(userId).get()
+  ]);
+  const cap = user.data()?.aiSettings?.hardMonthlyCap;
+  if (typeof cap !== 'number') return;
+
+  const data = quota.data();
+  const spent = data?.month === thisMonth() ? data.monthCost ?? 0 : 0;
+  if (spent >= cap) {
+    throw new QuotaExceededError('quota_exceeded', 'Monthly AI budget reached. It resets next month.', secondsUntilNextMonth());
+  }
+};
+
+export const recordQuotaUsage = async (userId: string, tokens: number, cost = 0) => {
+  const ref = quotaDoc(userId);
+  const day = today();
+  const month = thisMonth();
+
+  await getFirestore().runTransaction(async (transaction) => {
+    const snapshot = await transaction.get(ref);
+    const data = snapshot.data();
+    const sameDay = data?.day === day;
+    const sameMonth = data?.month === month;
+
+    transaction.set(ref, {
+      day,
+      tokens: (sameDay ? data.tokens : 0) + tokens,
+      requests: (sameDay ? data.requests : 0) + 1,
+      month,
+      monthCost: (sameMonth ? data.monthCost ?? 0 : 0) + cost,
+      updatedAt: new Date()
+    });
+  });
+};
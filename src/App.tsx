@@ -1,10 +1,15 @@
 import React from 'react';
 import { BrowserRouter as Router, Routes, Route, Navigate } from 'react-router-dom';
 import { AuthProvider } from './contexts/AuthContext';
+import { FocusTimerProvider } from './contexts/FocusTimerContext';
 import { SignIn } from './components/auth/SignIn';
 import { SignUp } from './components/auth/SignUp';
 import { Dashboard } from './components/dashboard/Dashboard';
+import { Settings } from './components/settings/Settings';
+import { Reflections } from './components/reflections/Reflections';
+import { NotificationCenter } from './components/notifications/NotificationCenter';
 import { useAuth } from './contexts/AuthContext';
+import { useNotificationSync } from './hooks/useNotificationSync';
 
 const PrivateRoute: React.FC<{ children: React.ReactNode }> = ({ children }) => {
   const { user, loading } = useAuth();
@@ -16,22 +21,55 @@ const PrivateRoute: React.FC<{ children: React.ReactNode }> = ({ children }) =>
   return user ? <>{children}</> : <Navigate to="/signin" />;
 };
 
+// Outside the routes so navigating doesn't restart the sync
+const NotificationSync = () => {
+  useNotificationSync();
+  return null;
+};
+
 function App() {
   return (
     <Router>
       <AuthProvider>
-        <Routes>
-          <Route path="/signin" element={<SignIn />} />
-          <Route path="/signup" element={<SignUp />} />
-          <Route
-            path="/"
-            element={
-              <PrivateRoute>
-                <Dashboard />
-              </PrivateRoute>
-            }
-          />
-        </Routes>
+        <FocusTimerProvider>
+          <NotificationSync />
+          <Routes>
+            <Route path="/signin" element={<SignIn />} />
+            <Route path="/signup" element={<SignUp />} />
+            <Route
+              path="/"
+              element={
+                <PrivateRoute>
+                  <Dashboard />
+                </PrivateRoute>
+              }
+            />
+            <Route
+              path="/reflections"
+              element={
+                <PrivateRoute>
+                  <Reflections />
+                </PrivateRoute>
+              }
+            />
+            <Route
+              path="/notifications"
+              element={
+                <PrivateRoute>
+                  <NotificationCenter />
+                </PrivateRoute>
+              }
+            />
+            <Route
+              path="/settings"
+              element={
+                <PrivateRoute>
+                  <Settings />
+                </PrivateRoute>
+              }
+            />
+          </Routes>
+        </FocusTimerProvider>
       </AuthProvider>
     </Router>
   );
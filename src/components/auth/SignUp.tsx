@@ -1,9 +1,9 @@
 import React, { useState } from 'react';
 import { createUserWithEmailAndPassword, updateProfile } from 'firebase/auth';
-import { auth, db } from '../../lib/firebase';
+import { auth } from '../../lib/firebase';
 import { useNavigate } from 'react-router-dom';
 import { Mail, Lock, User } from 'lucide-react';
-import { doc, setDoc } from 'firebase/firestore';
+import { createUserProfile } from '../../lib/goalsRepository';
 
 export const SignUp = () => {
   const [email, setEmail] = useState('');
@@ -19,10 +19,9 @@ export const SignUp = () => {
       await updateProfile(user, { displayName });
       
       // Initialize user document with domains structure
-      await setDoc(doc(db, 'users', user.uid), {
+      await createUserProfile(user.uid, {
         email,
         displayName,
-        createdAt: new Date(),
         domains: {
           financial: { lastReview: null, nextReview: null },
           health: { lastReview: null, nextReview: null },
@@ -1,32 +1,51 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { MessageSquare, Sparkles, Send, X, Lightbulb } from 'lucide-react';
-import type { Goal } from '../../types';
-import { generateSuggestion, getAIResponse } from '../../lib/openai';
+import { MessageSquare, Sparkles, Send, X, Lightbulb, Square, AlertCircle, RotateCcw } from 'lucide-react';
+import type { Goal, GoalConversation } from '../../types';
+import { generateSuggestion, streamAIResponse } from '../../lib/openai';
 import { cn } from '../../lib/utils';
+import { createHabit } from '../../lib/habits';
+import { createRoutine } from '../../lib/routines';
+import { classifyAIError, type AIError } from '../../lib/aiErrors';
+import { useConversationAutosave } from '../../hooks/useConversationAutosave';
+import { useUsageBudget } from '../../hooks/useUsageBudget';
+import { AIUsageNotice } from './AIUsageNotice';
 
 interface Message {
   role: 'system' | 'user' | 'assistant';
   content: string;
 }
 
+// The answer a reply was requested for, kept so a failed reply can be retried.
+interface ReplyRequest {
+  step: number;
+  userInput: string;
+  history: Message[];
+}
+
 interface AIGoalCreationProps {
   onClose: () => void;
   onCreateGoal: (goal: Omit<Goal, 'id' | 'userId' | 'createdAt' | 'updatedAt'>) => void;
+  /** A saved draft to pick up where it left off. */
+  conversation?: GoalConversation;
 }
 
-export const AIGoalCreation: React.FC<AIGoalCreationProps> = ({ onClose, onCreateGoal }) => {
-  const [messages, setMessages] = useState<Message[]>([
+export const AIGoalCreation: React.FC<AIGoalCreationProps> = ({ onClose, onCreateGoal, conversation }) => {
+  const [messages, setMessages] = useState<Message[]>(conversation?.messages ?? [
     {
       role: 'assistant',
       content: "Hi! I'm here to help you create a meaningful goal. Let's start with the basics. What area of your life would you like to focus on? (e.g., work, health, financial, family, personal growth, community, or home)",
     },
   ]);
   const [input, setInput] = useState('');
-  const [currentStep, setCurrentStep] = useState(1);
+  const [currentStep, setCurrentStep] = useState(conversation?.step ?? 1);
   const [suggestions, setSuggestions] = useState<string[]>([]);
   const [loading, setLoading] = useState(false);
   const [transitioning, setTransitioning] = useState(false);
+  const [isStreaming, setIsStreaming] = useState(false);
   const containerRef = useRef<HTMLDivElement>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const [replyError, setReplyError] = useState<{ error: AIError; request: ReplyRequest } | null>(null);
+  const [suggestionError, setSuggestionError] = useState<AIError | null>(null);
   const [goalData, setGoalData] = useState<Partial<Goal>>({
     status: 'active',
     milestones: [],
@@ -38,6 +57,7 @@ export const AIGoalCreation: React.FC<AIGoalCreationProps> = ({ onClose, onCreat
     obstacles: [],
     successCriteria: [],
     reflections: [],
+    ...conversation?.draft
   });
 
   const questions = [
@@ -55,8 +75,19 @@ export const AIGoalCreation: React.FC<AIGoalCreationProps> = ({ onClose, onCreat
     "Finally, how will you know you've succeeded? List 2-3 specific success criteria."
   ];
 
+  const { save, flush, getConversationId } = useConversationAutosave('guided', conversation);
+  const budget = useUsageBudget();
+  const usageContext = () => ({ conversationId: getConversationId() ?? undefined });
+
+  useEffect(() => {
+    if (!isStreaming) save({ messages, draft: goalData, step: currentStep });
+  }, [messages, goalData, currentStep, isStreaming, save]);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
   const handleGetSuggestions = async () => {
     setLoading(true);
+    setSuggestionError(null);
     try {
       const previousResponses = messages
         .filter(m => m.role === 'assistant')
@@ -68,11 +99,13 @@ export const AIGoalCreation: React.FC<AIGoalCreationProps> = ({ onClose, onCreat
       const newSuggestions = await generateSuggestion(
         currentStep,
         questions[currentStep - 1],
-        previousResponses
+        previousResponses,
+        { usage: usageContext() }
       );
       setSuggestions(newSuggestions);
     } catch (error) {
       console.error('Error getting suggestions:', error);
+      setSuggestionError(classifyAIError(error));
     } finally {
       setLoading(false);
     }
@@ -88,20 +121,71 @@ export const AIGoalCreation: React.FC<AIGoalCreationProps> = ({ onClose, onCreat
     }, 500);
   };
 
+  const updateLastMessage = (update: (content: string) => string) => {
+    setMessages(prev => [
+      ...prev.slice(0, -1),
+      { ...prev[prev.length - 1], content: update(prev[prev.length - 1].content) }
+    ]);
+  };
+
+  const streamReply = async ({ step, userInput, history }: ReplyRequest) => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setIsStreaming(true);
+    setReplyError(null);
+    setMessages(prev => [...prev, { role: 'assistant', content: '' }]);
+
+    try {
+      const reply = await streamAIResponse(
+        userInput,
+        questions[step - 2],
+        history,
+        (token) => updateLastMessage(content => content + token),
+        { signal: controller.signal, usage: usageContext() }
+      );
+
+      if (reply) {
+        updateLastMessage(() => reply);
+      } else {
+        setMessages(prev => prev.slice(0, -1));
+      }
+    } catch (error) {
+      setMessages(prev => prev.slice(0, -1));
+      setReplyError({ error: classifyAIError(error), request: { step, userInput, history } });
+    } finally {
+      abortRef.current = null;
+      setIsStreaming(false);
+    }
+  };
+
+  // Moves on to the next question while the reply to the last answer streams in.
+  // The answer is already recorded, so a failed reply doesn't hold the user back.
+  const advanceTo = async (step: number, userInput: string, history: Message[]) => {
+    transitionToNextStep();
+    setCurrentStep(step);
+    await streamReply({ step, userInput, history });
+  };
+
+  const handleRetryReply = () => {
+    if (replyError && !isStreaming) streamReply(replyError.request);
+  };
+
+  const handleStop = () => {
+    abortRef.current?.abort();
+  };
+
   const handleSendMessage = async () => {
-    if (!input.trim()) return;
+    if (!input.trim() || isStreaming) return;
 
+    const history = messages;
     const userMessage = { role: 'user' as const, content: input };
     setMessages(prev => [...prev, userMessage]);
     setInput('');
     setSuggestions([]);
+    setSuggestionError(null);
+    setReplyError(null);
 
-    // Get AI response
-    const aiResponse = await getAIResponse(
-      input,
-      questions[currentStep - 1],
-      messages
-    );
+    let nextStep: number | null = null;
 
     // Process user input based on current step
     switch (currentStep) {
@@ -109,12 +193,7 @@ export const AIGoalCreation: React.FC<AIGoalCreationProps> = ({ onClose, onCreat
         const domain = input.toLowerCase();
         if (['work', 'health', 'financial', 'family', 'personal', 'community', 'home'].includes(domain)) {
           setGoalData(prev => ({ ...prev, domain: domain as Goal['domain'] }));
-          transitionToNextStep();
-          setMessages(prev => [...prev, {
-            role: 'assistant',
-            content: aiResponse,
-          }]);
-          setCurrentStep(2);
+          nextStep = 2;
         } else {
           setMessages(prev => [...prev, {
             role: 'assistant',
@@ -125,22 +204,12 @@ export const AIGoalCreation: React.FC<AIGoalCreationProps> = ({ onClose, onCreat
 
       case 2: // Goal title
         setGoalData(prev => ({ ...prev, title: input }));
-        transitionToNextStep();
-        setMessages(prev => [...prev, {
-          role: 'assistant',
-          content: aiResponse,
-        }]);
-        setCurrentStep(3);
+        nextStep = 3;
         break;
 
       case 3: // Description
         setGoalData(prev => ({ ...prev, description: input }));
-        transitionToNextStep();
-        setMessages(prev => [...prev, {
-          role: 'assistant',
-          content: aiResponse,
-        }]);
-        setCurrentStep(4);
+        nextStep = 4;
         break;
 
       case 4: // Target date
@@ -157,12 +226,7 @@ export const AIGoalCreation: React.FC<AIGoalCreationProps> = ({ onClose, onCreat
             targetDate.setMonth(targetDate.getMonth() + 3); // Default to 3 months
           }
           setGoalData(prev => ({ ...prev, targetDate }));
-          transitionToNextStep();
-          setMessages(prev => [...prev, {
-            role: 'assistant',
-            content: aiResponse,
-          }]);
-          setCurrentStep(5);
+          nextStep = 5;
         } catch (error) {
           setMessages(prev => [...prev, {
             role: 'assistant',
@@ -181,12 +245,7 @@ export const AIGoalCreation: React.FC<AIGoalCreationProps> = ({ onClose, onCreat
           frequency: 'once' as const
         }));
         setGoalData(prev => ({ ...prev, milestones }));
-        transitionToNextStep();
-        setMessages(prev => [...prev, {
-          role: 'assistant',
-          content: aiResponse,
-        }]);
-        setCurrentStep(6);
+        nextStep = 6;
         break;
 
       case 6: // Metrics
@@ -205,88 +264,63 @@ export const AIGoalCreation: React.FC<AIGoalCreationProps> = ({ onClose, onCreat
           };
         });
         setGoalData(prev => ({ ...prev, metrics }));
-        transitionToNextStep();
-        setMessages(prev => [...prev, {
-          role: 'assistant',
-          content: aiResponse,
-        }]);
-        setCurrentStep(7);
+        nextStep = 7;
         break;
 
       case 7: // Weekly actions
         const weeklyActions = input.split(',').map(action => action.trim());
         setGoalData(prev => ({ ...prev, weeklyActions }));
-        transitionToNextStep();
-        setMessages(prev => [...prev, {
-          role: 'assistant',
-          content: aiResponse,
-        }]);
-        setCurrentStep(8);
+        nextStep = 8;
         break;
 
       case 8: // Daily habits
-        const dailyHabits = input.split(',').map(habit => habit.trim());
+        const dailyHabits = input.split(',').map(habit => createHabit(habit.trim()));
         setGoalData(prev => ({ ...prev, dailyHabits }));
-        transitionToNextStep();
-        setMessages(prev => [...prev, {
-          role: 'assistant',
-          content: aiResponse,
-        }]);
-        setCurrentStep(9);
+        nextStep = 9;
         break;
 
       case 9: // Routines
         const routineSteps = input.split(',').map(step => step.trim());
-        const routine = {
-          id: crypto.randomUUID(),
-          name: `${goalData.title} Routine`,
-          description: 'Daily routine to support goal progress',
-          frequency: 'daily' as const,
-          steps: routineSteps,
-          lastCompleted: null,
-          nextDue: null
-        };
+        const routine = createRoutine(
+          `${goalData.title} Routine`,
+          routineSteps,
+          'daily',
+          'Daily routine to support goal progress'
+        );
         setGoalData(prev => ({ ...prev, routines: [routine] }));
-        transitionToNextStep();
-        setMessages(prev => [...prev, {
-          role: 'assistant',
-          content: aiResponse,
-        }]);
-        setCurrentStep(10);
+        nextStep = 10;
         break;
 
       case 10: // Resources
         const resources = input.split(',').map(resource => resource.trim());
         setGoalData(prev => ({ ...prev, resources }));
-        transitionToNextStep();
-        setMessages(prev => [...prev, {
-          role: 'assistant',
-          content: aiResponse,
-        }]);
-        setCurrentStep(11);
+        nextStep = 11;
         break;
 
       case 11: // Obstacles
         const obstacles = input.split(',').map(obstacle => obstacle.trim());
         setGoalData(prev => ({ ...prev, obstacles }));
-        transitionToNextStep();
-        setMessages(prev => [...prev, {
-          role: 'assistant',
-          content: aiResponse,
-        }]);
-        setCurrentStep(12);
+        nextStep = 12;
         break;
 
       case 12: // Success criteria
         const successCriteria = input.split(',').map(criteria => criteria.trim());
-        setGoalData(prev => ({ ...prev, successCriteria }));
-        
+
         // Final step - create the goal
-        const finalGoal = goalData as Omit<Goal, 'id' | 'userId' | 'createdAt' | 'updatedAt'>;
+        const conversationId = await flush();
+        const finalGoal = {
+          ...goalData,
+          successCriteria,
+          ...(conversationId && { conversationId })
+        } as Omit<Goal, 'id' | 'userId' | 'createdAt' | 'updatedAt'>;
         onCreateGoal(finalGoal);
         onClose();
         break;
     }
+
+    if (nextStep) {
+      await advanceTo(nextStep, userMessage.content, history);
+    }
   };
 
   return (
@@ -302,6 +336,8 @@ export const AIGoalCreation: React.FC<AIGoalCreationProps> = ({ onClose, onCreat
           </button>
         </div>
 
+        <AIUsageNotice budget={budget} />
+
         <div 
           ref={containerRef}
           className={cn(
@@ -329,6 +365,42 @@ export const AIGoalCreation: React.FC<AIGoalCreationProps> = ({ onClose, onCreat
               ))}
             </div>
 
+            {replyError && (
+              <div className="w-full max-w-2xl flex items-center gap-3 p-4 rounded-lg bg-red-50 text-red-700">
+                <AlertCircle className="h-5 w-5 flex-shrink-0" />
+                <span className="flex-1">
+                  No reply to your last answer. {replyError.error.message} You can keep going without it.
+                </span>
+                {replyError.error.kind !== 'content_filter' && (
+                  <button
+                    onClick={handleRetryReply}
+                    disabled={isStreaming}
+                    className="flex items-center gap-1 px-3 py-1 bg-white border border-red-200 rounded-md hover:bg-red-100 disabled:opacity-50"
+                  >
+                    <RotateCcw className="h-4 w-4" />
+                    Retry
+                  </button>
+                )}
+              </div>
+            )}
+
+            {suggestionError && (
+              <div className="w-full max-w-2xl flex items-center gap-3 p-4 rounded-lg bg-red-50 text-red-700">
+                <AlertCircle className="h-5 w-5 flex-shrink-0" />
+                <span className="flex-1">Couldn't get ideas. {suggestionError.message}</span>
+                {suggestionError.retryable && (
+                  <button
+                    onClick={handleGetSuggestions}
+                    disabled={loading}
+                    className="flex items-center gap-1 px-3 py-1 bg-white border border-red-200 rounded-md hover:bg-red-100 disabled:opacity-50"
+                  >
+                    <RotateCcw className="h-4 w-4" />
+                    Retry
+                  </button>
+                )}
+              </div>
+            )}
+
             {suggestions.length > 0 && (
               <div className="w-full max-w-2xl space-y-3">
                 <p className="text-lg text-gray-500 text-center">Suggestions:</p>
@@ -348,7 +420,7 @@ export const AIGoalCreation: React.FC<AIGoalCreationProps> = ({ onClose, onCreat
               <div className="flex gap-3">
                 <button
                   onClick={handleGetSuggestions}
-                  disabled={loading}
+                  disabled={loading || budget?.status === 'hard'}
                   className="px-6 py-3 bg-purple-600 text-white rounded-lg hover:bg-purple-700 disabled:opacity-50 flex items-center gap-2 text-lg"
                 >
                   <Lightbulb className="h-5 w-5" />
@@ -364,13 +436,23 @@ export const AIGoalCreation: React.FC<AIGoalCreationProps> = ({ onClose, onCreat
                   className="flex-1 px-6 py-3 text-lg border-2 border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
                 />
                 
-                <button
-                  onClick={handleSendMessage}
-                  className="px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 flex items-center gap-2 text-lg"
-                >
-                  <Send className="h-5 w-5" />
-                  Next
-                </button>
+                {isStreaming ? (
+                  <button
+                    onClick={handleStop}
+                    className="px-6 py-3 bg-gray-700 text-white rounded-lg hover:bg-gray-800 flex items-center gap-2 text-lg"
+                  >
+                    <Square className="h-5 w-5" />
+                    Stop
+                  </button>
+                ) : (
+                  <button
+                    onClick={handleSendMessage}
+                    className="px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 flex items-center gap-2 text-lg"
+                  >
+                    <Send className="h-5 w-5" />
+                    Next
+                  </button>
+                )}
               </div>
 
               <div className="flex justify-between text-sm text-gray-500">
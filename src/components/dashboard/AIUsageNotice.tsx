@@ -0,0 +1,32 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { AlertTriangle } from 'lucide-react';
+import type { UsageBudget } from '../../lib/aiUsage';
+import { cn } from '../../lib/utils';
+
+interface AIUsageNoticeProps {
+  budget: UsageBudget | null;
+}
+
+export const AIUsageNotice: React.FC<AIUsageNoticeProps> = ({ budget }) => {
+  if (!budget || budget.status === 'ok') return null;
+
+  const hard = budget.status === 'hard';
+
+  return (
+    <div className={cn(
+      "px-4 py-2 text-sm flex items-center gap-2",
+      hard ? "bg-red-50 text-red-700" : "bg-amber-50 text-amber-800"
+    )}>
+      <AlertTriangle size={16} className="flex-shrink-0" />
+      <span className="flex-1">
+        {hard
+          ? `You've reached your monthly AI limit of $${budget.hardCap?.toFixed(2)}. AI replies are paused until next month.`
+          : `You've passed your $${budget.softCap?.toFixed(2)} monthly AI budget, so replies are kept shorter.`}
+      </span>
+      <Link to="/settings" className="underline whitespace-nowrap">
+        Usage settings
+      </Link>
+    </div>
+  );
+};
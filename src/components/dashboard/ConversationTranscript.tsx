@@ -0,0 +1,76 @@
+import React, { useEffect, useState } from 'react';
+import { MessageSquare, X } from 'lucide-react';
+import type { GoalConversation } from '../../types';
+import { cn } from '../../lib/utils';
+import { getConversation } from '../../lib/goalsRepository';
+
+interface ConversationTranscriptProps {
+  conversationId: string;
+  onClose: () => void;
+}
+
+export const ConversationTranscript: React.FC<ConversationTranscriptProps> = ({ conversationId, onClose }) => {
+  const [conversation, setConversation] = useState<GoalConversation | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchConversation = async () => {
+      try {
+        setConversation(await getConversation(conversationId));
+      } catch (error) {
+        console.error('Error fetching conversation:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchConversation();
+  }, [conversationId]);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg max-w-3xl w-full h-[80vh] flex flex-col">
+        <div className="p-4 border-b flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <MessageSquare size={20} className="text-indigo-600" />
+            <div>
+              <h2 className="text-lg font-semibold">Planning conversation</h2>
+              {conversation && (
+                <p className="text-sm text-gray-500">
+                  {conversation.mode === 'guided' ? 'Guided creation' : 'AI chat'} · {conversation.createdAt.toLocaleDateString()}
+                </p>
+              )}
+            </div>
+          </div>
+          <button onClick={onClose} className="p-2 text-gray-500 hover:text-gray-700 rounded-full hover:bg-gray-100">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-4">
+          {loading ? (
+            <p className="text-center text-gray-500">Loading...</p>
+          ) : !conversation ? (
+            <p className="text-center text-gray-500">This conversation is no longer available.</p>
+          ) : (
+            conversation.messages.map((message, index) => (
+              <div
+                key={index}
+                className={`flex ${message.role === 'user' ? 'justify-end' : 'justify-start'}`}
+              >
+                <div
+                  className={cn(
+                    "max-w-[80%] p-4 rounded-lg shadow-sm",
+                    message.role === 'user' ? "bg-blue-500 text-white" : "bg-gray-100 text-gray-800"
+                  )}
+                >
+                  {message.content}
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -2,16 +2,20 @@ import React, { useState } from 'react';
 import { Layout } from '../layout/Layout';
 import { DomainOverview } from './DomainOverview';
 import { GoalsList } from './GoalsList';
-import { WeeklyReview } from './WeeklyReview';
-import { Brain, Target, Calendar } from 'lucide-react';
+import { Reviews } from './Reviews';
+import { Today } from './Today';
+import { ThisWeek } from './ThisWeek';
+import { Brain, Target, Calendar, ListChecks, Sun } from 'lucide-react';
 
 export const Dashboard = () => {
-  const [activeTab, setActiveTab] = useState<'overview' | 'goals' | 'review'>('overview');
+  const [activeTab, setActiveTab] = useState<'today' | 'overview' | 'goals' | 'week' | 'review'>('overview');
 
   const tabs = [
+    { id: 'today', label: 'Today', icon: Sun },
     { id: 'overview', label: 'Domain Overview', icon: Brain },
     { id: 'goals', label: 'Goals', icon: Target },
-    { id: 'review', label: 'Weekly Review', icon: Calendar },
+    { id: 'week', label: 'This Week', icon: ListChecks },
+    { id: 'review', label: 'Reviews', icon: Calendar },
   ];
 
   return (
@@ -37,9 +41,11 @@ export const Dashboard = () => {
         </div>
 
         <div className="bg-white rounded-lg shadow-sm p-6">
+          {activeTab === 'today' && <Today />}
           {activeTab === 'overview' && <DomainOverview />}
           {activeTab === 'goals' && <GoalsList />}
-          {activeTab === 'review' && <WeeklyReview />}
+          {activeTab === 'week' && <ThisWeek />}
+          {activeTab === 'review' && <Reviews />}
         </div>
       </div>
     </Layout>
@@ -0,0 +1,216 @@
+import React, { useEffect, useState } from 'react';
+import { AlertTriangle, Minus, Plus, Wand2, X } from 'lucide-react';
+import { useAuth } from '../../contexts/AuthContext';
+import type { TimeBlock } from '../../types';
+import { cn } from '../../lib/utils';
+import { toDateKey } from '../../lib/dates';
+import { saveDaySchedule, subscribeToDaySchedule } from '../../lib/goalsRepository';
+import type { DailyPlan } from '../../lib/dailyPlan';
+import {
+  autoSchedule,
+  findConflicts,
+  formatTimeOfDay,
+  getSchedulableItems,
+  parseTimeOfDay,
+  roundToSlot,
+  SLOT_MINUTES,
+  type SchedulableItem
+} from '../../lib/timeBlocking';
+import { usePlanningSettings } from '../../hooks/usePlanningSettings';
+
+interface DayScheduleProps {
+  plan: DailyPlan;
+}
+
+const HOUR_HEIGHT = 48;
+const PX_PER_MINUTE = HOUR_HEIGHT / 60;
+
+const KIND_STYLES: Record<SchedulableItem['kind'], string> = {
+  habit: 'bg-blue-100 border-blue-300 text-blue-900',
+  routine: 'bg-purple-100 border-purple-300 text-purple-900',
+  task: 'bg-green-100 border-green-300 text-green-900'
+};
+
+/** Hour-by-hour grid for today that items are dragged onto or auto-scheduled into. */
+export const DaySchedule: React.FC<DayScheduleProps> = ({ plan }) => {
+  const { user } = useAuth();
+  const settings = usePlanningSettings();
+  const [blocks, setBlocks] = useState<TimeBlock[]>([]);
+  const [now, setNow] = useState(() => new Date());
+  const date = toDateKey(now);
+
+  useEffect(() => {
+    if (!user) return;
+    return subscribeToDaySchedule(user.uid, date, setBlocks);
+  }, [user, date]);
+
+  // Keeps the "now" line moving
+  useEffect(() => {
+    const interval = setInterval(() => setNow(new Date()), 60 * 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const items = getSchedulableItems(plan, now);
+  const itemsByKey = new Map(items.map(item => [item.key, item]));
+  const unscheduled = items.filter(item => !item.done && !blocks.some(block => block.itemKey === item.key));
+  const conflicts = findConflicts(blocks);
+  const workingHours = { start: parseTimeOfDay(settings.workDayStart), end: parseTimeOfDay(settings.workDayEnd) };
+  const minutesNow = now.getHours() * 60 + now.getMinutes();
+
+  const gridStart = Math.floor(Math.min(6 * 60, workingHours.start, ...blocks.map(b => b.start)) / 60) * 60;
+  const gridEnd = Math.min(24 * 60, Math.ceil(Math.max(22 * 60, workingHours.end, ...blocks.map(b => b.start + b.duration)) / 60) * 60);
+  const hours = Array.from({ length: (gridEnd - gridStart) / 60 }, (_, i) => gridStart + i * 60);
+
+  const saveBlocks = async (next: TimeBlock[]) => {
+    if (!user) return;
+
+    setBlocks(next);
+    try {
+      await saveDaySchedule(user.uid, date, next);
+    } catch (error) {
+      console.error('Error saving day schedule:', error);
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    const offset = e.clientY - e.currentTarget.getBoundingClientRect().top;
+    const [type, key] = e.dataTransfer.getData('text/plain').split('|');
+
+    if (type === 'block') {
+      const block = blocks.find(b => b.id === key);
+      if (!block) return;
+      const start = Math.max(0, Math.min(24 * 60 - block.duration, roundToSlot(gridStart + offset / PX_PER_MINUTE - block.duration / 2)));
+      saveBlocks(blocks.map(b => (b.id === block.id ? { ...b, start } : b)));
+      return;
+    }
+
+    const item = itemsByKey.get(key);
+    if (!item) return;
+    const start = Math.max(0, Math.min(24 * 60 - item.duration, roundToSlot(gridStart + offset / PX_PER_MINUTE)));
+    saveBlocks([...blocks, { id: crypto.randomUUID(), itemKey: item.key, title: item.title, start, duration: item.duration }]);
+  };
+
+  const resizeBlock = (block: TimeBlock, delta: number) => {
+    const duration = Math.max(SLOT_MINUTES, Math.min(24 * 60 - block.start, block.duration + delta));
+    saveBlocks(blocks.map(b => (b.id === block.id ? { ...b, duration } : b)));
+  };
+
+  const handleAutoSchedule = () => {
+    saveBlocks(autoSchedule(items, blocks, workingHours, minutesNow));
+  };
+
+  return (
+    <div className="grid gap-6 md:grid-cols-[16rem_1fr]">
+      <div className="space-y-3">
+        <button
+          onClick={handleAutoSchedule}
+          disabled={unscheduled.length === 0}
+          className="w-full flex items-center justify-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+        >
+          <Wand2 size={16} />
+          Auto-schedule
+        </button>
+        <p className="text-xs text-gray-500">
+          Fills free slots between {settings.workDayStart} and {settings.workDayEnd}. Drag items onto the grid to place them yourself.
+        </p>
+
+        {conflicts.size > 0 && (
+          <p className="flex items-center gap-2 text-sm text-red-600">
+            <AlertTriangle size={16} />
+            {conflicts.size} blocks overlap
+          </p>
+        )}
+
+        <h4 className="text-sm font-medium text-gray-700">Unscheduled</h4>
+        {unscheduled.length === 0 ? (
+          <p className="text-sm text-gray-500">Everything open is on the grid</p>
+        ) : (
+          unscheduled.map(item => (
+            <div
+              key={item.key}
+              draggable
+              onDragStart={(e) => e.dataTransfer.setData('text/plain', `item|${item.key}`)}
+              className={cn('p-2 border rounded-md text-sm cursor-grab', KIND_STYLES[item.kind])}
+            >
+              <p className="font-medium">{item.title}</p>
+              <p className="text-xs opacity-75">
+                {item.duration} min{item.subtitle && ` · ${item.subtitle}`}
+              </p>
+            </div>
+          ))
+        )}
+      </div>
+
+      <div className="overflow-y-auto max-h-[36rem] border border-gray-200 rounded-lg">
+        <div
+          className="relative ml-14"
+          style={{ height: hours.length * HOUR_HEIGHT }}
+          onDragOver={(e) => e.preventDefault()}
+          onDrop={handleDrop}
+        >
+          <div
+            className="absolute inset-x-0 bg-blue-50"
+            style={{
+              top: (workingHours.start - gridStart) * PX_PER_MINUTE,
+              height: (workingHours.end - workingHours.start) * PX_PER_MINUTE
+            }}
+          />
+          {hours.map(hour => (
+            <div
+              key={hour}
+              className="absolute inset-x-0 border-t border-gray-200"
+              style={{ top: (hour - gridStart) * PX_PER_MINUTE }}
+            >
+              <span className="absolute -left-14 -top-2 w-12 text-right text-xs text-gray-400">
+                {formatTimeOfDay(hour)}
+              </span>
+            </div>
+          ))}
+
+          {minutesNow >= gridStart && minutesNow < gridEnd && (
+            <div
+              className="absolute inset-x-0 border-t-2 border-red-400 z-10 pointer-events-none"
+              style={{ top: (minutesNow - gridStart) * PX_PER_MINUTE }}
+            />
+          )}
+
+          {blocks.map(block => {
+            const item = itemsByKey.get(block.itemKey);
+            return (
+              <div
+                key={block.id}
+                draggable
+                onDragStart={(e) => e.dataTransfer.setData('text/plain', `block|${block.id}`)}
+                className={cn(
+                  'absolute left-1 right-1 border rounded-md px-2 py-1 text-xs overflow-hidden cursor-grab group',
+                  item ? KIND_STYLES[item.kind] : 'bg-gray-100 border-gray-300 text-gray-700',
+                  conflicts.has(block.id) && 'border-red-500 ring-1 ring-red-500',
+                  item?.done && 'opacity-60 line-through'
+                )}
+                style={{ top: (block.start - gridStart) * PX_PER_MINUTE, height: block.duration * PX_PER_MINUTE }}
+              >
+                <div className="flex items-start justify-between gap-2">
+                  <p className="font-medium truncate">
+                    {formatTimeOfDay(block.start)}–{formatTimeOfDay(block.start + block.duration)} {block.title}
+                  </p>
+                  <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100">
+                    <button onClick={() => resizeBlock(block, -SLOT_MINUTES)} title="Shorten">
+                      <Minus size={12} />
+                    </button>
+                    <button onClick={() => resizeBlock(block, SLOT_MINUTES)} title="Lengthen">
+                      <Plus size={12} />
+                    </button>
+                    <button onClick={() => saveBlocks(blocks.filter(b => b.id !== block.id))} title="Remove from schedule">
+                      <X size={12} />
+                    </button>
+                  </div>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
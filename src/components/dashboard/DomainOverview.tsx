@@ -1,14 +1,17 @@
 import React, { useEffect, useState } from 'react';
-import { db } from '../../lib/firebase';
-import { doc, getDoc, updateDoc, collection, query, where, getDocs } from 'firebase/firestore';
 import { useAuth } from '../../contexts/AuthContext';
-import { Heart, DollarSign, Users, BookOpen, Globe, Home, Target, Calendar, Edit, Check, X } from 'lucide-react';
-import type { User, Goal } from '../../types';
+import { Heart, DollarSign, Users, BookOpen, Globe, Home, Target, Calendar, Edit, Check, X, Timer, AlertCircle } from 'lucide-react';
+import type { Goal, User } from '../../types';
 import { cn } from '../../lib/utils';
 import { DomainDetails } from './DomainDetails';
+import { getUserProfile, listGoals, listTimeEntries, updateDomainReview, type DomainReview } from '../../lib/goalsRepository';
+import { formatMinutes, sumMinutesBy } from '../../lib/focusTimer';
+import { domainCadence, isDomainReviewDue, isDomainReviewOverdue } from '../../lib/domainReviews';
+import { REVIEW_TYPE_LABELS, REVIEW_TYPES, type ReviewType } from '../../lib/reviews';
+import { computeNextDue } from '../../lib/routines';
 
 interface DomainCard {
-  id: keyof NonNullable<User['domains']>;
+  id: Goal['domain'];
   label: string;
   icon: React.FC<{ size?: number; className?: string }>;
   color: string;
@@ -28,6 +31,7 @@ interface DomainStats {
   activeGoals: number;
   completedGoals: number;
   upcomingMilestones: number;
+  focusMinutes: number;
 }
 
 interface EditableDomain {
@@ -35,6 +39,7 @@ interface EditableDomain {
   label: string;
   lastReview: Date | null;
   nextReview: Date | null;
+  cadence: ReviewType;
 }
 
 export const DomainOverview = () => {
@@ -45,6 +50,7 @@ export const DomainOverview = () => {
   const [editingDomain, setEditingDomain] = useState<string | null>(null);
   const [editableDomain, setEditableDomain] = useState<EditableDomain | null>(null);
   const [selectedDomain, setSelectedDomain] = useState<string | null>(null);
+  const [goalFocus, setGoalFocus] = useState<{ goal: Goal; minutes: number }[]>([]);
 
   useEffect(() => {
     const fetchData = async () => {
@@ -52,23 +58,19 @@ export const DomainOverview = () => {
       
       try {
         // Fetch user data
-        const userDoc = await getDoc(doc(db, 'users', user.uid));
-        if (userDoc.exists()) {
-          setUserData(userDoc.data() as User);
-        }
+        setUserData(await getUserProfile(user.uid));
+
+        const minutesByGoal = sumMinutesBy(await listTimeEntries(user.uid), entry => entry.goalId);
+        const focusedGoals: { goal: Goal; minutes: number }[] = [];
 
         // Fetch goals for each domain
         const stats: Record<string, DomainStats> = {};
         
         for (const domain of domains) {
-          const goalsQuery = query(
-            collection(db, 'goals'),
-            where('userId', '==', user.uid),
-            where('domain', '==', domain.id)
-          );
-          
-          const goalsSnapshot = await getDocs(goalsQuery);
-          const goals = goalsSnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() }) as Goal);
+          const goals = await listGoals(user.uid, { domain: domain.id });
+          goals
+            .filter(goal => minutesByGoal[goal.id])
+            .forEach(goal => focusedGoals.push({ goal, minutes: minutesByGoal[goal.id] }));
           
           const now = new Date();
           const upcomingMilestones = goals.reduce((count, goal) => {
@@ -84,10 +86,12 @@ export const DomainOverview = () => {
             activeGoals: goals.filter(g => g.status === 'active').length,
             completedGoals: goals.filter(g => g.status === 'completed').length,
             upcomingMilestones,
+            focusMinutes: goals.reduce((total, goal) => total + (minutesByGoal[goal.id] ?? 0), 0),
           };
         }
 
         setDomainStats(stats);
+        setGoalFocus(focusedGoals.sort((a, b) => b.minutes - a.minutes));
       } catch (error) {
         console.error('Error fetching data:', error);
       } finally {
@@ -106,6 +110,20 @@ export const DomainOverview = () => {
       label: domains.find(d => d.id === domainId)?.label || '',
       lastReview: domain?.lastReview ? new Date(domain.lastReview) : null,
       nextReview: domain?.nextReview ? new Date(domain.nextReview) : null,
+      cadence: domainCadence(domain),
+    });
+  };
+
+  const setDomainReview = (domainId: string, review: DomainReview) => {
+    setUserData(prev => {
+      if (!prev) return prev;
+      return {
+        ...prev,
+        domains: {
+          ...prev.domains,
+          [domainId]: review,
+        },
+      };
     });
   };
 
@@ -113,27 +131,13 @@ export const DomainOverview = () => {
     if (!user || !editableDomain) return;
 
     try {
-      const userRef = doc(db, 'users', user.uid);
-      await updateDoc(userRef, {
-        [`domains.${editableDomain.id}`]: {
-          lastReview: editableDomain.lastReview,
-          nextReview: editableDomain.nextReview,
-        },
-      });
-
-      setUserData(prev => {
-        if (!prev) return prev;
-        return {
-          ...prev,
-          domains: {
-            ...prev.domains,
-            [editableDomain.id]: {
-              lastReview: editableDomain.lastReview,
-              nextReview: editableDomain.nextReview,
-            },
-          },
-        };
-      });
+      const review = {
+        lastReview: editableDomain.lastReview,
+        nextReview: editableDomain.nextReview,
+        cadence: editableDomain.cadence,
+      };
+      await updateDomainReview(user.uid, editableDomain.id, review);
+      setDomainReview(editableDomain.id, review);
 
       setEditingDomain(null);
       setEditableDomain(null);
@@ -156,9 +160,11 @@ export const DomainOverview = () => {
             activeGoals: 0,
             completedGoals: 0,
             upcomingMilestones: 0,
+            focusMinutes: 0,
           };
 
           const isEditing = editingDomain === id;
+          const review = userData?.domains?.[id];
 
           return (
             <div
@@ -175,7 +181,26 @@ export const DomainOverview = () => {
                 </div>
                 <div className="text-right">
                   {isEditing ? (
-                    <div className="space-y-2">
+                    <div className="space-y-2" onClick={(e) => e.stopPropagation()}>
+                      <div>
+                        <label className="block text-sm text-gray-500">Cadence</label>
+                        <select
+                          value={editableDomain?.cadence}
+                          onChange={(e) => {
+                            const cadence = e.target.value as ReviewType;
+                            setEditableDomain(prev => prev && {
+                              ...prev,
+                              cadence,
+                              nextReview: prev.lastReview ? computeNextDue(cadence, prev.lastReview) : prev.nextReview,
+                            });
+                          }}
+                          className="w-full px-2 py-1 text-sm border border-gray-300 rounded"
+                        >
+                          {REVIEW_TYPES.map(type => (
+                            <option key={type} value={type}>{REVIEW_TYPE_LABELS[type]}</option>
+                          ))}
+                        </select>
+                      </div>
                       <div>
                         <label className="block text-sm text-gray-500">Last Review</label>
                         <input
@@ -219,21 +244,32 @@ export const DomainOverview = () => {
                       </div>
                     </div>
                   ) : (
-                    <div className="flex items-center gap-2">
-                      <span className="text-sm text-gray-500">
-                        {userData?.domains?.[id]?.lastReview
-                          ? `Last reviewed ${new Date(userData.domains[id].lastReview).toLocaleDateString()}`
-                          : 'No reviews yet'}
-                      </span>
-                      <button
-                        onClick={(e) => {
-                          e.stopPropagation();
-                          handleEditDomain(id);
-                        }}
-                        className="p-1 text-gray-400 hover:text-gray-600"
-                      >
-                        <Edit size={16} />
-                      </button>
+                    <div className="flex flex-col items-end gap-1">
+                      <div className="flex items-center gap-2">
+                        <span className="text-sm text-gray-500">
+                          {userData?.domains?.[id]?.lastReview
+                            ? `Last reviewed ${new Date(userData.domains[id].lastReview).toLocaleDateString()}`
+                            : 'No reviews yet'}
+                        </span>
+                        <button
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            handleEditDomain(id);
+                          }}
+                          className="p-1 text-gray-400 hover:text-gray-600"
+                        >
+                          <Edit size={16} />
+                        </button>
+                      </div>
+                      {isDomainReviewDue(review) && (
+                        <span className={cn(
+                          'inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-medium',
+                          isDomainReviewOverdue(review) ? 'bg-red-100 text-red-800' : 'bg-amber-100 text-amber-800'
+                        )}>
+                          <AlertCircle size={12} />
+                          {isDomainReviewOverdue(review) ? 'Review overdue' : 'Review due today'}
+                        </span>
+                      )}
                     </div>
                   )}
                 </div>
@@ -252,6 +288,12 @@ export const DomainOverview = () => {
                     {stats.upcomingMilestones} upcoming
                   </span>
                 </div>
+                <div className="flex items-center gap-2">
+                  <Timer size={16} className="text-gray-400" />
+                  <span className="text-sm text-gray-600">
+                    {formatMinutes(stats.focusMinutes)} focused
+                  </span>
+                </div>
               </div>
 
               <div className="mt-4">
@@ -274,10 +316,39 @@ export const DomainOverview = () => {
         })}
       </div>
 
+      {goalFocus.length > 0 && (
+        <div className="bg-white border border-gray-200 rounded-lg p-6">
+          <h3 className="text-lg font-medium text-gray-900 flex items-center gap-2 mb-4">
+            <Timer size={20} className="text-red-600" />
+            Focus time by goal
+          </h3>
+          <div className="space-y-3">
+            {goalFocus.map(({ goal, minutes }) => (
+              <div key={goal.id}>
+                <div className="flex items-center justify-between text-sm">
+                  <span className="text-gray-900">{goal.title}</span>
+                  <span className="text-gray-500">
+                    <span className="capitalize">{goal.domain}</span> · {formatMinutes(minutes)}
+                  </span>
+                </div>
+                <div className="mt-1 w-full bg-gray-100 rounded-full h-1.5">
+                  <div
+                    className="h-1.5 rounded-full bg-red-400"
+                    style={{ width: `${(minutes / goalFocus[0].minutes) * 100}%` }}
+                  />
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       {selectedDomain && (
         <DomainDetails
           domainId={selectedDomain}
+          review={userData?.domains?.[selectedDomain]}
           onClose={() => setSelectedDomain(null)}
+          onReviewed={(review) => setDomainReview(selectedDomain, review)}
         />
       )}
     </div>
@@ -1,12 +1,20 @@
-import React, { useState, useRef, useEffect } from 'react';
-import { MessageSquare, Send, X, Save, AlertCircle, Upload } from 'lucide-react';
-import { processConversation } from '../../lib/openai';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import { MessageSquare, Send, X, Save, AlertCircle, Upload, Square, Loader2, Target, RotateCcw } from 'lucide-react';
+import { extractGoal, streamConversationReply, type ExtractionResult } from '../../lib/openai';
 import { cn } from '../../lib/utils';
-import type { Goal, Routine } from '../../types';
+import { classifyAIError, type AIError } from '../../lib/aiErrors';
+import { validateGoalDraft, type ValidationIssue } from '../../lib/goalValidation';
+import { useConversationAutosave } from '../../hooks/useConversationAutosave';
+import { useUsageBudget } from '../../hooks/useUsageBudget';
+import { AIUsageNotice } from './AIUsageNotice';
+import { TranscriptImporter } from './TranscriptImporter';
+import type { Goal, GoalConversation } from '../../types';
 
 interface FreeformAIChatProps {
   onClose: () => void;
   onCreateGoal: (goal: Omit<Goal, 'id' | 'userId' | 'createdAt' | 'updatedAt'>) => void;
+  /** A saved draft to pick up where it left off. */
+  conversation?: GoalConversation;
 }
 
 interface Message {
@@ -14,8 +22,8 @@ interface Message {
   content: string;
 }
 
-export const FreeformAIChat: React.FC<FreeformAIChatProps> = ({ onClose, onCreateGoal }) => {
-  const [messages, setMessages] = useState<Message[]>([
+export const FreeformAIChat: React.FC<FreeformAIChatProps> = ({ onClose, onCreateGoal, conversation }) => {
+  const [messages, setMessages] = useState<Message[]>(conversation?.messages ?? [
     {
       role: 'assistant',
       content: "Hi! I'm here to help you create a meaningful goal. What's on your mind? What would you like to achieve?"
@@ -23,6 +31,7 @@ export const FreeformAIChat: React.FC<FreeformAIChatProps> = ({ onClose, onCreat
   ]);
   const [input, setInput] = useState('');
   const [isProcessing, setIsProcessing] = useState(false);
+  const [isExtracting, setIsExtracting] = useState(false);
   const [goalData, setGoalData] = useState<Partial<Goal>>({
     status: 'active',
     milestones: [],
@@ -33,152 +42,183 @@ export const FreeformAIChat: React.FC<FreeformAIChatProps> = ({ onClose, onCreat
     resources: [],
     obstacles: [],
     successCriteria: [],
-    reflections: []
+    reflections: [],
+    ...conversation?.draft
   });
+  const [extractionIssues, setExtractionIssues] = useState<ValidationIssue[]>([]);
   const [showSummary, setShowSummary] = useState(false);
   const [editMode, setEditMode] = useState(false);
   const [showTranscriptInput, setShowTranscriptInput] = useState(false);
-  const [transcript, setTranscript] = useState('');
+  const [replyError, setReplyError] = useState<AIError | null>(null);
+  const [extractionError, setExtractionError] = useState<AIError | null>(null);
   const chatEndRef = useRef<HTMLDivElement>(null);
+  const replyAbortRef = useRef<AbortController | null>(null);
+  const extractionAbortRef = useRef<AbortController | null>(null);
+
+  // Re-validated on every edit so fixed problems disappear from the summary
+  const validation = useMemo(() => validateGoalDraft(goalData), [goalData]);
+  const issues = useMemo(() => [
+    ...extractionIssues.filter(issue => issue.severity === 'warning'),
+    ...validation.issues
+  ], [extractionIssues, validation]);
 
   useEffect(() => {
     chatEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   }, [messages]);
 
-  const handleSendMessage = async () => {
-    if (!input.trim() || isProcessing) return;
-    setIsProcessing(true);
+  const { save, flush, getConversationId } = useConversationAutosave('freeform', conversation);
+  const budget = useUsageBudget();
+  const usageContext = () => ({ conversationId: getConversationId() ?? undefined });
 
-    const userMessage: Message = {
-      role: 'user',
-      content: input
-    };
+  useEffect(() => {
+    if (!isProcessing) save({ messages, draft: goalData });
+  }, [messages, goalData, isProcessing, save]);
 
-    setMessages(prev => [...prev, userMessage]);
-    setInput('');
+  useEffect(() => () => {
+    replyAbortRef.current?.abort();
+    extractionAbortRef.current?.abort();
+  }, []);
 
-    try {
-      const result = await processConversation([...messages, userMessage]);
-      
-      if (result.extractedData) {
-        setGoalData(prev => ({
-          ...prev,
-          ...result.extractedData,
-          // Ensure all arrays exist
-          milestones: result.extractedData.milestones || prev.milestones,
-          metrics: result.extractedData.metrics || prev.metrics,
-          weeklyActions: result.extractedData.weeklyActions || prev.weeklyActions,
-          dailyHabits: result.extractedData.dailyHabits || prev.dailyHabits,
-          routines: result.extractedData.routines || prev.routines,
-          resources: result.extractedData.resources || prev.resources,
-          obstacles: result.extractedData.obstacles || prev.obstacles,
-          successCriteria: result.extractedData.successCriteria || prev.successCriteria
-        }));
-      }
+  const applyExtraction = (result: ExtractionResult) => {
+    setExtractionIssues(result.issues);
+    setGoalData(prev => ({
+      ...prev,
+      ...result.extractedData,
+      // Ensure all arrays exist
+      milestones: result.extractedData.milestones || prev.milestones,
+      metrics: result.extractedData.metrics || prev.metrics,
+      weeklyActions: result.extractedData.weeklyActions || prev.weeklyActions,
+      dailyHabits: result.extractedData.dailyHabits || prev.dailyHabits,
+      routines: result.extractedData.routines || prev.routines,
+      resources: result.extractedData.resources || prev.resources,
+      obstacles: result.extractedData.obstacles || prev.obstacles,
+      successCriteria: result.extractedData.successCriteria || prev.successCriteria
+    }));
+  };
 
-      if (result.nextPrompt) {
-        setMessages(prev => [...prev, {
-          role: 'assistant',
-          content: result.nextPrompt
-        }]);
-      }
+  // Only the latest extraction matters; starting a new one cancels the last.
+  const runExtraction = async (conversation: Message[]): Promise<ExtractionResult | null> => {
+    extractionAbortRef.current?.abort();
+    const controller = new AbortController();
+    extractionAbortRef.current = controller;
+    setIsExtracting(true);
+    setExtractionError(null);
 
-      if (result.conversationComplete) {
-        setShowSummary(true);
-      }
+    try {
+      const result = await extractGoal(conversation, { signal: controller.signal, usage: usageContext() });
+      if (controller.signal.aborted) return null;
+
+      applyExtraction(result);
+      return result;
     } catch (error) {
-      console.error('Error in chat:', error);
-      setMessages(prev => [...prev, {
-        role: 'assistant',
-        content: "I'm having trouble processing that. Could you try rephrasing?"
-      }]);
+      if (!controller.signal.aborted) setExtractionError(classifyAIError(error));
+      return null;
     } finally {
-      setIsProcessing(false);
+      if (extractionAbortRef.current === controller) {
+        extractionAbortRef.current = null;
+        setIsExtracting(false);
+      }
     }
   };
 
-  const handleImportTranscript = async () => {
-    if (!transcript.trim()) return;
-    
+  const handleRetryExtraction = () => {
+    runExtraction(messages.filter(m => m.content));
+  };
+
+  const cancelExtraction = () => {
+    extractionAbortRef.current?.abort();
+    extractionAbortRef.current = null;
+    setIsExtracting(false);
+  };
+
+  const updateLastMessage = (update: (content: string) => string) => {
+    setMessages(prev => [
+      ...prev.slice(0, -1),
+      { ...prev[prev.length - 1], content: update(prev[prev.length - 1].content) }
+    ]);
+  };
+
+  // Streams the reply to `conversation`, which ends with the user's latest
+  // message, then updates the draft goal in the background.
+  const requestReply = async (conversation: Message[]) => {
     setIsProcessing(true);
-    const lines = transcript.split('\n').map(line => line.trim()).filter(line => line);
-    const newMessages: Message[] = [];
-    
-    for (let i = 0; i < lines.length; i++) {
-      const line = lines[i];
-      if (line) {
-        newMessages.push({
-          role: i % 2 === 0 ? 'assistant' : 'user',
-          content: line
-        });
-      }
-    }
+    setReplyError(null);
+    setMessages([...conversation, { role: 'assistant', content: '' }]);
+
+    const controller = new AbortController();
+    replyAbortRef.current = controller;
 
-    setMessages(newMessages);
-    setShowTranscriptInput(false);
-    
     try {
-      const result = await processConversation(newMessages);
-      if (result.extractedData) {
-        setGoalData(prev => ({
-          ...prev,
-          ...result.extractedData
-        }));
+      const reply = await streamConversationReply(
+        conversation,
+        (token) => updateLastMessage(content => content + token),
+        { signal: controller.signal, usage: usageContext() }
+      );
+
+      if (reply) {
+        updateLastMessage(() => reply);
+      } else {
+        setMessages(conversation);
       }
-      setShowSummary(true);
     } catch (error) {
-      console.error('Error processing transcript:', error);
+      setMessages(conversation);
+      setReplyError(classifyAIError(error));
     } finally {
+      replyAbortRef.current = null;
       setIsProcessing(false);
     }
+
+    const result = await runExtraction(conversation);
+    if (result?.conversationComplete) {
+      setShowSummary(true);
+    }
   };
 
-  const handleSaveGoal = () => {
-    const goal: Omit<Goal, 'id' | 'userId' | 'createdAt' | 'updatedAt'> = {
-      title: goalData.title || '',
-      description: goalData.description || '',
-      domain: goalData.domain || 'personal',
-      status: 'active',
-      targetDate: goalData.targetDate ? new Date(goalData.targetDate) : undefined,
-      milestones: (goalData.milestones || []).map(m => ({
-        id: crypto.randomUUID(),
-        title: m.title,
-        description: m.description || '',
-        targetDate: new Date(m.targetDate),
-        completed: false,
-        frequency: m.frequency || 'once'
-      })),
-      metrics: (goalData.metrics || []).map(m => ({
-        id: crypto.randomUUID(),
-        name: m.name,
-        type: m.type,
-        target: m.target,
-        current: m.type === 'boolean' ? false : 0,
-        unit: m.unit || '',
-        frequency: m.frequency || 'daily',
-        history: []
-      })),
-      weeklyActions: goalData.weeklyActions || [],
-      dailyHabits: goalData.dailyHabits || [],
-      routines: (goalData.routines || []).map(r => ({
-        id: crypto.randomUUID(),
-        name: r.name,
-        description: r.description || '',
-        frequency: r.frequency || 'daily',
-        steps: r.steps,
-        lastCompleted: null,
-        nextDue: null
-      })),
-      resources: goalData.resources || [],
-      obstacles: goalData.obstacles || [],
-      successCriteria: goalData.successCriteria || [],
-      reflections: []
+  const handleSendMessage = async () => {
+    if (!input.trim() || isProcessing) return;
+
+    const userMessage: Message = {
+      role: 'user',
+      content: input
     };
+    setInput('');
+    await requestReply([...messages, userMessage]);
+  };
 
-    onCreateGoal(goal);
+  const handleRetryReply = () => {
+    if (isProcessing) return;
+    requestReply(messages);
+  };
+
+  const handleImportTranscript = async (imported: Message[]) => {
+    setIsProcessing(true);
+    setMessages(imported);
+    setShowTranscriptInput(false);
+
+    const result = await runExtraction(imported);
+    if (result) {
+      setShowSummary(true);
+    }
+    setIsProcessing(false);
+  };
+
+  const handleSaveGoal = async () => {
+    if (!validation.valid) return;
+
+    const conversationId = await flush();
+    onCreateGoal({
+      ...validation.value,
+      status: 'active',
+      reflections: [],
+      ...(conversationId && { conversationId })
+    });
     onClose();
   };
 
+  const handleStop = () => {
+    replyAbortRef.current?.abort();
+  };
+
   const handleClose = () => {
     if (messages.length > 1 && !showSummary) {
       setShowSummary(true);
@@ -187,10 +227,6 @@ export const FreeformAIChat: React.FC<FreeformAIChatProps> = ({ onClose, onCreat
     }
   };
 
-  const isGoalComplete = () => {
-    return goalData.title && goalData.description && goalData.domain;
-  };
-
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
       <div className="bg-white rounded-lg max-w-3xl w-full h-[80vh] flex flex-col">
@@ -215,35 +251,14 @@ export const FreeformAIChat: React.FC<FreeformAIChatProps> = ({ onClose, onCreat
           </div>
         </div>
 
+        <AIUsageNotice budget={budget} />
+
         {showTranscriptInput ? (
-          <div className="flex-1 p-6 space-y-4">
-            <div className="bg-blue-50 p-4 rounded-lg">
-              <p className="text-sm text-blue-700">
-                Paste your conversation transcript below. Each line should alternate between AI and user messages, starting with the AI message.
-              </p>
-            </div>
-            <textarea
-              value={transcript}
-              onChange={(e) => setTranscript(e.target.value)}
-              className="w-full h-[calc(100%-160px)] px-4 py-3 border border-gray-300 rounded-lg resize-none"
-              placeholder="Paste your conversation transcript here..."
-            />
-            <div className="flex gap-3">
-              <button
-                onClick={handleImportTranscript}
-                disabled={!transcript.trim() || isProcessing}
-                className="flex-1 bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700 disabled:opacity-50"
-              >
-                {isProcessing ? 'Processing...' : 'Import Transcript'}
-              </button>
-              <button
-                onClick={() => setShowTranscriptInput(false)}
-                className="flex-1 border border-gray-300 px-4 py-2 rounded-md hover:bg-gray-50"
-              >
-                Cancel
-              </button>
-            </div>
-          </div>
+          <TranscriptImporter
+            isProcessing={isProcessing}
+            onImport={handleImportTranscript}
+            onCancel={() => setShowTranscriptInput(false)}
+          />
         ) : showSummary ? (
           <div className="flex-1 overflow-y-auto p-6 space-y-6">
             <div className="bg-blue-50 p-6 rounded-lg">
@@ -257,11 +272,25 @@ export const FreeformAIChat: React.FC<FreeformAIChatProps> = ({ onClose, onCreat
                 </button>
               </div>
 
-              {!isGoalComplete() && !editMode && (
+              {issues.length > 0 && (
                 <div className="mb-4 p-4 bg-yellow-50 border border-yellow-200 rounded-lg flex items-start gap-3">
                   <AlertCircle className="text-yellow-500 flex-shrink-0 mt-0.5" size={20} />
                   <div>
-                    <p className="text-yellow-700">Some required information is missing. Switch to edit mode to complete your goal details.</p>
+                    <p className="text-yellow-700">
+                      {validation.valid
+                        ? 'Please review what was adjusted before saving.'
+                        : 'Some required information is missing. Switch to edit mode to complete your goal details.'}
+                    </p>
+                    <ul className="mt-2 space-y-1 text-sm">
+                      {issues.map((issue, index) => (
+                        <li
+                          key={`${issue.path}-${index}`}
+                          className={issue.severity === 'error' ? 'text-red-600' : 'text-yellow-700'}
+                        >
+                          {issue.message}
+                        </li>
+                      ))}
+                    </ul>
                   </div>
                 </div>
               )}
@@ -365,10 +394,10 @@ export const FreeformAIChat: React.FC<FreeformAIChatProps> = ({ onClose, onCreat
                       <div>
                         <h4 className="font-medium text-gray-700">Daily Habits</h4>
                         <ul className="mt-2 space-y-2">
-                          {goalData.dailyHabits.map((habit, index) => (
-                            <li key={index} className="flex items-center gap-2">
+                          {goalData.dailyHabits.map(habit => (
+                            <li key={habit.id} className="flex items-center gap-2">
                               <span className="w-2 h-2 bg-purple-600 rounded-full" />
-                              <span>{habit}</span>
+                              <span>{habit.title}</span>
                             </li>
                           ))}
                         </ul>
@@ -437,7 +466,7 @@ export const FreeformAIChat: React.FC<FreeformAIChatProps> = ({ onClose, onCreat
               <div className="mt-6 flex gap-4">
                 <button
                   onClick={handleSaveGoal}
-                  disabled={!isGoalComplete()}
+                  disabled={!validation.valid}
                   className="flex-1 bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
                 >
                   <Save size={20} />
@@ -466,13 +495,70 @@ export const FreeformAIChat: React.FC<FreeformAIChatProps> = ({ onClose, onCreat
                       message.role === 'user' ? "bg-blue-500 text-white" : "bg-gray-100 text-gray-800"
                     )}
                   >
-                    {message.content}
+                    {message.content || <Loader2 size={16} className="animate-spin text-gray-400" />}
                   </div>
                 </div>
               ))}
+              {replyError && (
+                <div className="flex items-center gap-3 p-3 rounded-lg bg-red-50 text-red-700 text-sm">
+                  <AlertCircle size={16} className="flex-shrink-0" />
+                  <span className="flex-1">{replyError.message}</span>
+                  {replyError.kind !== 'content_filter' && (
+                    <button
+                      onClick={handleRetryReply}
+                      className="flex items-center gap-1 px-3 py-1 bg-white border border-red-200 rounded-md hover:bg-red-100"
+                    >
+                      <RotateCcw size={14} />
+                      Retry
+                    </button>
+                  )}
+                </div>
+              )}
               <div ref={chatEndRef} />
             </div>
 
+            {extractionError && !isExtracting && (
+              <div className="px-4 py-2 border-t bg-red-50 text-sm text-red-700 flex items-center gap-2">
+                <AlertCircle size={14} className="flex-shrink-0" />
+                <span className="flex-1">Couldn't update your goal summary. {extractionError.message}</span>
+                <button onClick={handleRetryExtraction} className="flex items-center gap-1 hover:underline">
+                  <RotateCcw size={14} />
+                  Retry
+                </button>
+              </div>
+            )}
+
+            {(goalData.title || isExtracting) && (
+              <div className="px-4 py-2 border-t bg-indigo-50 text-sm flex items-center justify-between gap-4">
+                <div className="flex items-center gap-2 min-w-0 text-indigo-900">
+                  <Target size={14} className="flex-shrink-0" />
+                  <span className="font-medium truncate">{goalData.title || 'Drafting your goal...'}</span>
+                  {goalData.domain && (
+                    <span className="capitalize text-indigo-600">· {goalData.domain}</span>
+                  )}
+                  <span className="text-indigo-600 whitespace-nowrap">
+                    · {goalData.milestones?.length || 0} milestones · {goalData.dailyHabits?.length || 0} habits
+                  </span>
+                </div>
+                {isExtracting ? (
+                  <div className="flex items-center gap-2 text-indigo-600 whitespace-nowrap">
+                    <Loader2 size={14} className="animate-spin" />
+                    Updating summary
+                    <button onClick={cancelExtraction} className="text-indigo-700 hover:underline">
+                      Cancel
+                    </button>
+                  </div>
+                ) : (
+                  <button
+                    onClick={() => setShowSummary(true)}
+                    className="text-indigo-700 hover:underline whitespace-nowrap"
+                  >
+                    Review
+                  </button>
+                )}
+              </div>
+            )}
+
             <div className="p-4 border-t space-y-4 bg-gray-50">
               <div className="flex gap-2">
                 <input
@@ -485,14 +571,23 @@ export const FreeformAIChat: React.FC<FreeformAIChatProps> = ({ onClose, onCreat
                   className="flex-1 px-4 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
                 />
 
-                <button
-                  onClick={handleSendMessage}
-                  disabled={isProcessing}
-                  className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 flex items-center gap-2"
-                >
-                  <Send size={16} />
-                  {isProcessing ? 'Thinking...' : 'Send'}
-                </button>
+                {isProcessing ? (
+                  <button
+                    onClick={handleStop}
+                    className="px-4 py-2 bg-gray-700 text-white rounded-md hover:bg-gray-800 flex items-center gap-2"
+                  >
+                    <Square size={16} />
+                    Stop
+                  </button>
+                ) : (
+                  <button
+                    onClick={handleSendMessage}
+                    className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 flex items-center gap-2"
+                  >
+                    <Send size={16} />
+                    Send
+                  </button>
+                )}
               </div>
             </div>
           </>
@@ -1,9 +1,11 @@
 import React, { useState } from 'react';
-import { db } from '../../lib/firebase';
-import { collection, addDoc } from 'firebase/firestore';
 import { useAuth } from '../../contexts/AuthContext';
 import { X, Plus, Calendar, ListChecks, Repeat, Workflow, BookOpen, AlertTriangle, Trophy, BarChart3 } from 'lucide-react';
-import type { Goal, Milestone, Metric, Routine } from '../../types';
+import type { Goal, Habit, Milestone, Metric, Routine } from '../../types';
+import { createGoal } from '../../lib/goalsRepository';
+import { createHabit, HABIT_FREQUENCY_LABELS } from '../../lib/habits';
+import { computeNextDue, createRoutine } from '../../lib/routines';
+import { validateGoalDraft } from '../../lib/goalValidation';
 
 interface GoalCreationFormProps {
   onClose: () => void;
@@ -45,18 +47,14 @@ const GoalCreationForm: React.FC<GoalCreationFormProps> = ({
     })) || []
   );
   const [weeklyActions, setWeeklyActions] = useState<string[]>(initialData?.weeklyActions || ['']);
-  const [dailyHabits, setDailyHabits] = useState<string[]>(initialData?.dailyHabits || ['']);
-  const [routines, setRoutines] = useState<Omit<Routine, 'id' | 'lastCompleted' | 'nextDue'>[]>(
-    initialData?.routines.map(r => ({
-      name: r.name,
-      description: r.description,
-      frequency: r.frequency,
-      steps: r.steps
-    })) || []
-  );
+  // Habits keep their id and check-ins when a goal is edited
+  const [dailyHabits, setDailyHabits] = useState<Habit[]>(initialData?.dailyHabits || [createHabit('')]);
+  // Routines likewise keep their schedule and past runs
+  const [routines, setRoutines] = useState<Routine[]>(initialData?.routines || []);
   const [resources, setResources] = useState<string[]>(initialData?.resources || ['']);
   const [obstacles, setObstacles] = useState<string[]>(initialData?.obstacles || ['']);
   const [successCriteria, setSuccessCriteria] = useState<string[]>(initialData?.successCriteria || ['']);
+  const [errors, setErrors] = useState<string[]>([]);
 
   const domains: { value: Goal['domain']; label: string }[] = [
     { value: 'work', label: 'Work' },
@@ -89,27 +87,29 @@ const GoalCreationForm: React.FC<GoalCreationFormProps> = ({
         history: [],
       })),
       weeklyActions: weeklyActions.filter(action => action.trim() !== ''),
-      dailyHabits: dailyHabits.filter(habit => habit.trim() !== ''),
-      routines: routines.map(r => ({
-        ...r,
-        id: crypto.randomUUID(),
-        lastCompleted: undefined,
-        nextDue: undefined,
-      })),
+      dailyHabits: dailyHabits
+        .filter(habit => habit.title.trim() !== '')
+        .map(habit => ({ ...habit, title: habit.title.trim() })),
+      routines: routines
+        .map(r => ({ ...r, name: r.name.trim(), steps: r.steps.map(step => step.trim()).filter(Boolean) }))
+        .map(r => r.lastCompleted ? { ...r, nextDue: computeNextDue(r.frequency, r.lastCompleted) } : r),
       resources: resources.filter(r => r.trim() !== ''),
       obstacles: obstacles.filter(o => o.trim() !== ''),
       successCriteria: successCriteria.filter(c => c.trim() !== ''),
     };
 
+    // Stored goals keep incomplete routines and metrics, so catch them here
+    const validation = validateGoalDraft(goalData, 'form');
+    const formErrors = validation.issues.filter(issue => issue.severity === 'error').map(issue => issue.message);
+    setErrors(formErrors);
+    if (formErrors.length > 0) return;
+
     try {
       if (initialData && onSubmit) {
         await onSubmit(initialData.id, goalData);
       } else {
-        await addDoc(collection(db, 'goals'), {
+        await createGoal(user.uid, {
           ...goalData,
-          userId: user.uid,
-          createdAt: new Date(),
-          updatedAt: new Date(),
           reflections: [],
         });
       }
@@ -163,15 +163,10 @@ const GoalCreationForm: React.FC<GoalCreationFormProps> = ({
   };
 
   const addRoutine = () => {
-    setRoutines(prev => [...prev, {
-      name: '',
-      description: '',
-      frequency: 'daily',
-      steps: ['']
-    }]);
+    setRoutines(prev => [...prev, createRoutine('', [''])]);
   };
 
-  const updateRoutine = (index: number, field: keyof Omit<Routine, 'id' | 'lastCompleted' | 'nextDue'>, value: any) => {
+  const updateRoutine = (index: number, field: keyof Pick<Routine, 'name' | 'description' | 'frequency' | 'steps' | 'estimatedMinutes'>, value: any) => {
     setRoutines(prev => prev.map((r, i) => 
       i === index ? { ...r, [field]: value } : r
     ));
@@ -205,6 +200,16 @@ const GoalCreationForm: React.FC<GoalCreationFormProps> = ({
     ));
   };
 
+  const updateHabit = (index: number, updates: Partial<Pick<Habit, 'title' | 'frequency' | 'timesPerWeek'>>) => {
+    setDailyHabits(prev => prev.map((h, i) => {
+      if (i !== index) return h;
+      const habit = { ...h, ...updates };
+      if (habit.frequency === 'weekly') habit.timesPerWeek = habit.timesPerWeek ?? 3;
+      else delete habit.timesPerWeek;
+      return habit;
+    }));
+  };
+
   const addArrayItem = (setter: React.Dispatch<React.SetStateAction<string[]>>) => {
     setter(prev => [...prev, '']);
   };
@@ -488,11 +493,11 @@ const GoalCreationForm: React.FC<GoalCreationFormProps> = ({
               <div className="flex items-center justify-between mb-2">
                 <div className="flex items-center gap-2">
                   <Repeat size={20} className="text-gray-500" />
-                  <label className="block text-sm font-medium text-gray-700">Daily Habits</label>
+                  <label className="block text-sm font-medium text-gray-700">Habits</label>
                 </div>
                 <button
                   type="button"
-                  onClick={() => addArrayItem(setDailyHabits)}
+                  onClick={() => setDailyHabits(prev => [...prev, createHabit('')])}
                   className="flex items-center gap-1 text-sm text-blue-600 hover:text-blue-700"
                 >
                   <Plus size={16} />
@@ -501,17 +506,36 @@ const GoalCreationForm: React.FC<GoalCreationFormProps> = ({
               </div>
               <div className="space-y-2">
                 {dailyHabits.map((habit, index) => (
-                  <div key={index} className="flex items-center gap-2">
+                  <div key={habit.id} className="flex items-center gap-2">
                     <input
                       type="text"
-                      value={habit}
-                      onChange={(e) => updateArrayItem(setDailyHabits, index, e.target.value)}
-                      placeholder="Daily habit"
+                      value={habit.title}
+                      onChange={(e) => updateHabit(index, { title: e.target.value })}
+                      placeholder="Habit"
                       className="flex-1 px-3 py-2 border border-gray-300 rounded-md"
                     />
+                    <select
+                      value={habit.frequency}
+                      onChange={(e) => updateHabit(index, { frequency: e.target.value as Habit['frequency'] })}
+                      className="px-3 py-2 border border-gray-300 rounded-md"
+                    >
+                      {Object.entries(HABIT_FREQUENCY_LABELS).map(([value, label]) => (
+                        <option key={value} value={value}>{label}</option>
+                      ))}
+                    </select>
+                    {habit.frequency === 'weekly' && (
+                      <input
+                        type="number"
+                        min="1"
+                        max="7"
+                        value={habit.timesPerWeek}
+                        onChange={(e) => updateHabit(index, { timesPerWeek: Math.min(7, Math.max(1, parseInt(e.target.value) || 1)) })}
+                        className="w-16 px-3 py-2 border border-gray-300 rounded-md"
+                      />
+                    )}
                     <button
                       type="button"
-                      onClick={() => removeArrayItem(setDailyHabits, index)}
+                      onClick={() => setDailyHabits(prev => prev.filter((_, i) => i !== index))}
                       className="text-red-500 hover:text-red-700"
                     >
                       <X size={20} />
@@ -558,7 +582,7 @@ const GoalCreationForm: React.FC<GoalCreationFormProps> = ({
                         <X size={20} />
                       </button>
                     </div>
-                    <div className="grid grid-cols-2 gap-4">
+                    <div className="grid grid-cols-3 gap-4">
                       <input
                         type="text"
                         value={routine.description}
@@ -577,6 +601,15 @@ const GoalCreationForm: React.FC<GoalCreationFormProps> = ({
                         <option value="quarterly">Quarterly</option>
                         <option value="annual">Annual</option>
                       </select>
+                      <input
+                        type="number"
+                        min={5}
+                        step={5}
+                        value={routine.estimatedMinutes ?? ''}
+                        onChange={(e) => updateRoutine(routineIndex, 'estimatedMinutes', e.target.value ? Number(e.target.value) : undefined)}
+                        placeholder="Minutes per run"
+                        className="w-full px-3 py-2 border border-gray-300 rounded-md"
+                      />
                     </div>
                     <div className="space-y-2">
                       <div className="flex items-center justify-between">
@@ -730,6 +763,14 @@ const GoalCreationForm: React.FC<GoalCreationFormProps> = ({
               </div>
             </div>
 
+            {errors.length > 0 && (
+              <ul className="p-4 rounded-lg bg-red-50 text-sm text-red-700 list-disc list-inside">
+                {errors.map(message => (
+                  <li key={message}>{message}</li>
+                ))}
+              </ul>
+            )}
+
             <div className="flex justify-end gap-4">
               <button
                 type="button"
@@ -1,6 +1,4 @@
 import React, { useState, useEffect } from 'react';
-import { doc, updateDoc, getDoc } from 'firebase/firestore';
-import { db } from '../../lib/firebase';
 import { useAuth } from '../../contexts/AuthContext';
 import { 
   CheckCircle2, 
@@ -17,11 +15,23 @@ import {
   Workflow,
   BookOpen,
   AlertTriangle,
-  Trophy
+  Trophy,
+  Play
 } from 'lucide-react';
-import type { Goal, Milestone, Metric, Reflection, Routine } from '../../types';
+import type { Goal, Habit, Milestone, Metric, Reflection, Routine, RoutineRun, Task } from '../../types';
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
 import { cn } from '../../lib/utils';
+import { getGoal, subscribeToTasks, updateGoal } from '../../lib/goalsRepository';
+import { ConversationTranscript } from './ConversationTranscript';
+import { HabitCheckIn } from './HabitCheckIn';
+import { HabitAnalytics } from './HabitAnalytics';
+import { getGoalProgress } from '../../lib/goalProgress';
+import { RoutineRunner } from './RoutineRunner';
+import { TaskList } from './TaskList';
+import { FocusButton } from '../focus/FocusButton';
+import { completeRoutineRun, isRoutineDue, isRoutineOverdue, ROUTINE_FREQUENCY_LABELS } from '../../lib/routines';
+import { replaceHabit, toggleHabitCompletion } from '../../lib/habits';
+import { usePlanningSettings } from '../../hooks/usePlanningSettings';
 
 interface GoalDetailsProps {
   goalId: string;
@@ -31,8 +41,13 @@ interface GoalDetailsProps {
 
 export const GoalDetails: React.FC<GoalDetailsProps> = ({ goalId, onClose, onEdit }) => {
   const { user } = useAuth();
+  const settings = usePlanningSettings();
   const [goal, setGoal] = useState<Goal | null>(null);
   const [loading, setLoading] = useState(true);
+  const [showConversation, setShowConversation] = useState(false);
+  const [expandedHabitId, setExpandedHabitId] = useState<string | null>(null);
+  const [runningRoutineId, setRunningRoutineId] = useState<string | null>(null);
+  const [tasks, setTasks] = useState<Task[]>([]);
   const [activeTab, setActiveTab] = useState<'overview' | 'progress' | 'tasks' | 'habits' | 'routines' | 'metrics' | 'reflections'>('overview');
 
   useEffect(() => {
@@ -40,10 +55,7 @@ export const GoalDetails: React.FC<GoalDetailsProps> = ({ goalId, onClose, onEdi
       if (!user) return;
       
       try {
-        const goalDoc = await getDoc(doc(db, 'goals', goalId));
-        if (goalDoc.exists()) {
-          setGoal({ id: goalDoc.id, ...goalDoc.data() } as Goal);
-        }
+        setGoal(await getGoal(goalId));
       } catch (error) {
         console.error('Error fetching goal:', error);
       } finally {
@@ -54,14 +66,16 @@ export const GoalDetails: React.FC<GoalDetailsProps> = ({ goalId, onClose, onEdi
     fetchGoal();
   }, [goalId, user]);
 
+  useEffect(() => {
+    if (!user) return;
+    return subscribeToTasks(user.uid, setTasks, goalId);
+  }, [goalId, user]);
+
   const updateGoalStatus = async (status: Goal['status']) => {
     if (!user || !goal) return;
 
     try {
-      await updateDoc(doc(db, 'goals', goalId), {
-        status,
-        updatedAt: new Date()
-      });
+      await updateGoal(goalId, { status });
       setGoal({ ...goal, status });
     } catch (error) {
       console.error('Error updating goal status:', error);
@@ -76,10 +90,7 @@ export const GoalDetails: React.FC<GoalDetailsProps> = ({ goalId, onClose, onEdi
     );
 
     try {
-      await updateDoc(doc(db, 'goals', goalId), {
-        milestones: updatedMilestones,
-        updatedAt: new Date()
-      });
+      await updateGoal(goalId, { milestones: updatedMilestones });
       setGoal({ ...goal, milestones: updatedMilestones });
     } catch (error) {
       console.error('Error updating milestone:', error);
@@ -101,16 +112,40 @@ export const GoalDetails: React.FC<GoalDetailsProps> = ({ goalId, onClose, onEdi
     });
 
     try {
-      await updateDoc(doc(db, 'goals', goalId), {
-        metrics: updatedMetrics,
-        updatedAt: new Date()
-      });
+      await updateGoal(goalId, { metrics: updatedMetrics });
       setGoal({ ...goal, metrics: updatedMetrics });
     } catch (error) {
       console.error('Error updating metric:', error);
     }
   };
 
+  const toggleHabitToday = async (habit: Habit) => {
+    if (!user || !goal) return;
+
+    const updatedHabits = replaceHabit(goal, toggleHabitCompletion(habit));
+
+    try {
+      await updateGoal(goalId, { dailyHabits: updatedHabits });
+      setGoal({ ...goal, dailyHabits: updatedHabits });
+    } catch (error) {
+      console.error('Error updating habit:', error);
+    }
+  };
+
+  const finishRoutineRun = async (routine: Routine, run: RoutineRun) => {
+    if (!user || !goal) return;
+
+    const updatedRoutines = goal.routines.map(r => (r.id === routine.id ? completeRoutineRun(r, run) : r));
+
+    try {
+      await updateGoal(goalId, { routines: updatedRoutines });
+      setGoal({ ...goal, routines: updatedRoutines });
+      setRunningRoutineId(null);
+    } catch (error) {
+      console.error('Error saving routine run:', error);
+    }
+  };
+
   const addReflection = async (reflection: Omit<Reflection, 'id' | 'userId'>) => {
     if (!user || !goal) return;
 
@@ -123,10 +158,7 @@ export const GoalDetails: React.FC<GoalDetailsProps> = ({ goalId, onClose, onEdi
     const updatedReflections = [...goal.reflections, newReflection];
 
     try {
-      await updateDoc(doc(db, 'goals', goalId), {
-        reflections: updatedReflections,
-        updatedAt: new Date()
-      });
+      await updateGoal(goalId, { reflections: updatedReflections });
       setGoal({ ...goal, reflections: updatedReflections });
     } catch (error) {
       console.error('Error adding reflection:', error);
@@ -141,11 +173,7 @@ export const GoalDetails: React.FC<GoalDetailsProps> = ({ goalId, onClose, onEdi
     return <div>Goal not found</div>;
   }
 
-  const getProgressPercentage = () => {
-    const totalMilestones = goal.milestones.length;
-    const completedMilestones = goal.milestones.filter(m => m.completed).length;
-    return totalMilestones > 0 ? Math.round((completedMilestones / totalMilestones) * 100) : 0;
-  };
+  const progress = getGoalProgress(goal);
 
   const getDaysRemaining = () => {
     if (!goal.targetDate) return null;
@@ -177,6 +205,20 @@ export const GoalDetails: React.FC<GoalDetailsProps> = ({ goalId, onClose, onEdi
               <p className="text-gray-500 mt-1">{goal.description}</p>
             </div>
             <div className="flex items-center gap-4">
+              <FocusButton
+                target={{ targetKind: 'goal', targetId: goal.id, goalId: goal.id, title: goal.title }}
+                label
+                className="px-3 py-1.5 rounded-md border border-gray-300 hover:bg-gray-50"
+              />
+              {goal.conversationId && (
+                <button
+                  onClick={() => setShowConversation(true)}
+                  className="p-2 text-gray-500 hover:text-gray-700 rounded-full hover:bg-gray-100"
+                  title="View planning conversation"
+                >
+                  <MessageSquare size={20} />
+                </button>
+              )}
               {onEdit && (
                 <button
                   onClick={onEdit}
@@ -315,18 +357,21 @@ export const GoalDetails: React.FC<GoalDetailsProps> = ({ goalId, onClose, onEdi
                 <div className="bg-white p-6 rounded-lg border">
                   <div className="flex items-center justify-between">
                     <h3 className="text-lg font-medium">Progress</h3>
-                    <span className="text-2xl font-bold text-blue-600">{getProgressPercentage()}%</span>
+                    <span className="text-2xl font-bold text-blue-600">{progress.percentage}%</span>
                   </div>
                   <div className="mt-4">
                     <div className="w-full bg-gray-200 rounded-full h-2">
                       <div
                         className="bg-blue-600 h-2 rounded-full transition-all duration-500"
-                        style={{ width: `${getProgressPercentage()}%` }}
+                        style={{ width: `${progress.percentage}%` }}
                       />
                     </div>
                     <p className="mt-2 text-sm text-gray-500">
                       {goal.milestones.filter(m => m.completed).length} of {goal.milestones.length} milestones completed
                     </p>
+                    {progress.consistency !== null && (
+                      <p className="text-sm text-gray-500">Habit consistency {progress.consistency}/100</p>
+                    )}
                   </div>
                 </div>
 
@@ -490,6 +535,15 @@ export const GoalDetails: React.FC<GoalDetailsProps> = ({ goalId, onClose, onEdi
 
           {activeTab === 'tasks' && (
             <div className="space-y-4">
+              <div>
+                <h3 className="text-lg font-medium">Tasks</h3>
+                {goal.weeklyActions.length > 0 && (
+                  <p className="text-sm text-gray-500">Weekly actions become tasks at the start of each week.</p>
+                )}
+              </div>
+              <TaskList tasks={tasks} goalId={goal.id} />
+
+              <h3 className="text-lg font-medium pt-4">Milestones</h3>
               {goal.milestones.map((milestone) => (
                 <div key={milestone.id} className="flex items-center justify-between p-4 bg-gray-50 rounded-lg">
                   <div className="flex items-center gap-4">
@@ -523,15 +577,31 @@ export const GoalDetails: React.FC<GoalDetailsProps> = ({ goalId, onClose, onEdi
 
           {activeTab === 'habits' && (
             <div className="space-y-4">
-              {goal.dailyHabits?.map((habit, index) => (
-                <div key={index} className="flex items-center gap-4 p-4 bg-gray-50 rounded-lg">
-                  <div className="flex-shrink-0">
-                    <Repeat className="text-blue-600" size={24} />
-                  </div>
-                  <div>
-                    <h4 className="font-medium">{habit}</h4>
-                    <p className="text-sm text-gray-500">Daily habit</p>
-                  </div>
+              {goal.dailyHabits.length > 0 && (
+                <div className="bg-white p-6 rounded-lg border">
+                  <h3 className="text-lg font-medium mb-4">Consistency</h3>
+                  <HabitAnalytics habits={goal.dailyHabits} />
+                </div>
+              )}
+              {goal.dailyHabits.map(habit => (
+                <div key={habit.id} className="space-y-2">
+                  <HabitCheckIn
+                    habit={habit}
+                    onToggle={() => toggleHabitToday(habit)}
+                    weekStartsOn={settings.weekStartsOn}
+                    detailed
+                  />
+                  <button
+                    onClick={() => setExpandedHabitId(expandedHabitId === habit.id ? null : habit.id)}
+                    className="text-sm text-blue-600 hover:text-blue-700"
+                  >
+                    {expandedHabitId === habit.id ? 'Hide history' : 'Show history'}
+                  </button>
+                  {expandedHabitId === habit.id && (
+                    <div className="p-4 border rounded-lg">
+                      <HabitAnalytics habits={[habit]} weeks={13} />
+                    </div>
+                  )}
                 </div>
               ))}
             </div>
@@ -539,24 +609,78 @@ export const GoalDetails: React.FC<GoalDetailsProps> = ({ goalId, onClose, onEdi
 
           {activeTab === 'routines' && (
             <div className="space-y-6">
-              {goal.routines?.map((routine, index) => (
-                <div key={index} className="bg-white p-6 rounded-lg border">
+              {goal.routines?.map((routine) => (
+                <div key={routine.id} className="bg-white p-6 rounded-lg border">
                   <div className="flex items-center justify-between mb-4">
                     <div>
                       <h4 className="text-lg font-medium">{routine.name}</h4>
-                      <p className="text-sm text-gray-500 capitalize">{routine.frequency} routine</p>
+                      <p className="text-sm text-gray-500">
+                        {ROUTINE_FREQUENCY_LABELS[routine.frequency]} routine
+                        {routine.lastCompleted && ` · Last done ${routine.lastCompleted.toLocaleDateString()}`}
+                      </p>
                     </div>
-                  </div>
-                  <div className="space-y-3">
-                    {routine.steps.map((step, stepIndex) => (
-                      <div key={stepIndex} className="flex items-center gap-3 p-3 bg-gray-50 rounded-lg">
-                        <span className="flex-shrink-0 w-6 h-6 flex items-center justify-center rounded-full bg-blue-100 text-blue-600 text-sm">
-                          {stepIndex + 1}
+                    <div className="flex items-center gap-3">
+                      {routine.nextDue && (
+                        <span
+                          className={cn(
+                            "px-2 py-1 rounded-full text-xs font-medium",
+                            isRoutineOverdue(routine)
+                              ? 'bg-red-100 text-red-700'
+                              : isRoutineDue(routine)
+                                ? 'bg-yellow-100 text-yellow-800'
+                                : 'bg-gray-100 text-gray-600'
+                          )}
+                        >
+                          {isRoutineOverdue(routine) ? 'Overdue since' : 'Due'} {routine.nextDue.toLocaleDateString()}
                         </span>
-                        <span className="text-gray-700">{step}</span>
-                      </div>
-                    ))}
+                      )}
+                      <FocusButton
+                        target={{ targetKind: 'routine', targetId: routine.id, goalId: goal.id, title: routine.name }}
+                      />
+                      {runningRoutineId !== routine.id && (
+                        <button
+                          onClick={() => setRunningRoutineId(routine.id)}
+                          disabled={routine.steps.length === 0}
+                          className="flex items-center gap-2 px-3 py-1.5 bg-blue-600 text-white text-sm rounded-md hover:bg-blue-700 disabled:opacity-50"
+                        >
+                          <Play size={14} />
+                          Start routine
+                        </button>
+                      )}
+                    </div>
                   </div>
+                  {runningRoutineId === routine.id ? (
+                    <RoutineRunner
+                      routine={routine}
+                      onFinish={(run) => finishRoutineRun(routine, run)}
+                      onCancel={() => setRunningRoutineId(null)}
+                    />
+                  ) : (
+                    <div className="space-y-3">
+                      {routine.steps.map((step, stepIndex) => (
+                        <div key={stepIndex} className="flex items-center gap-3 p-3 bg-gray-50 rounded-lg">
+                          <span className="flex-shrink-0 w-6 h-6 flex items-center justify-center rounded-full bg-blue-100 text-blue-600 text-sm">
+                            {stepIndex + 1}
+                          </span>
+                          <span className="text-gray-700">{step}</span>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                  {routine.runs && routine.runs.length > 0 && runningRoutineId !== routine.id && (
+                    <div className="mt-4 pt-4 border-t">
+                      <h5 className="text-sm font-medium text-gray-700 mb-2">Recent runs</h5>
+                      <ul className="space-y-1 text-sm text-gray-600">
+                        {routine.runs.slice(-3).reverse().map(run => (
+                          <li key={run.id}>
+                            {run.completedAt.toLocaleDateString()} · {Math.max(1, Math.round((run.completedAt.getTime() - run.startedAt.getTime()) / 60000))} min
+                            {run.skippedSteps.length > 0 && ` · skipped ${run.skippedSteps.length}`}
+                            {run.notes && <span className="block text-gray-500 italic">{run.notes}</span>}
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
                 </div>
               ))}
             </div>
@@ -728,6 +852,13 @@ export const GoalDetails: React.FC<GoalDetailsProps> = ({ goalId, onClose, onEdi
           )}
         </div>
       </div>
+
+      {showConversation && goal.conversationId && (
+        <ConversationTranscript
+          conversationId={goal.conversationId}
+          onClose={() => setShowConversation(false)}
+        />
+      )}
     </div>
   );
 };
\ No newline at end of file
@@ -0,0 +1,58 @@
+import React from 'react';
+import { BarChart3, Flag, Repeat } from 'lucide-react';
+import type { GoalReviewSummary as Summary } from '../../lib/reviews';
+
+interface GoalReviewSummaryProps {
+  summary: Summary;
+}
+
+/** Milestones, metric updates and habit consistency for one goal over a review period. */
+export const GoalReviewSummary: React.FC<GoalReviewSummaryProps> = ({ summary }) => (
+  <div className="grid gap-4 md:grid-cols-3">
+    <div className="bg-gray-50 rounded-lg p-4">
+      <h4 className="flex items-center gap-2 text-sm font-medium text-gray-700 mb-2">
+        <Flag size={16} className="text-purple-600" />
+        Milestones
+      </h4>
+      {summary.milestonesHit.length === 0 && summary.milestonesMissed.length === 0 ? (
+        <p className="text-sm text-gray-500">None due</p>
+      ) : (
+        <ul className="space-y-1 text-sm">
+          {summary.milestonesHit.map(m => (
+            <li key={m.id} className="text-green-700">✓ {m.title}</li>
+          ))}
+          {summary.milestonesMissed.map(m => (
+            <li key={m.id} className="text-red-600">✗ {m.title}</li>
+          ))}
+        </ul>
+      )}
+    </div>
+    <div className="bg-gray-50 rounded-lg p-4">
+      <h4 className="flex items-center gap-2 text-sm font-medium text-gray-700 mb-2">
+        <BarChart3 size={16} className="text-blue-600" />
+        Metrics updated
+      </h4>
+      {summary.metricsUpdated.length === 0 ? (
+        <p className="text-sm text-gray-500">No updates</p>
+      ) : (
+        <ul className="space-y-1 text-sm text-gray-700">
+          {summary.metricsUpdated.map(({ metric, updates }) => (
+            <li key={metric.id}>
+              {metric.name}: {String(metric.current)}{metric.unit && ` ${metric.unit}`}
+              <span className="text-gray-500"> · {updates}×</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+    <div className="bg-gray-50 rounded-lg p-4">
+      <h4 className="flex items-center gap-2 text-sm font-medium text-gray-700 mb-2">
+        <Repeat size={16} className="text-green-600" />
+        Habit consistency
+      </h4>
+      <p className="text-2xl font-semibold text-gray-900">
+        {summary.habitRate === null ? '–' : `${Math.round(summary.habitRate * 100)}%`}
+      </p>
+    </div>
+  </div>
+);
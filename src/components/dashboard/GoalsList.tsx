@@ -1,17 +1,28 @@
 import React, { useEffect, useState } from 'react';
-import { db } from '../../lib/firebase';
-import { collection, query, where, onSnapshot, orderBy, addDoc, deleteDoc, doc, updateDoc } from 'firebase/firestore';
 import { useAuth } from '../../contexts/AuthContext';
 import { 
   Target, Calendar, CheckCircle2, Sparkles, MessageSquare, Edit, Trash2, 
-  MoreVertical, X, Plus, ListChecks, Repeat, Workflow, BookOpen, AlertTriangle, Trophy 
+  MoreVertical, X, Plus, ListChecks, Repeat, Workflow, BookOpen, AlertTriangle, Trophy, History,
+  LayoutGrid, SquareKanban
 } from 'lucide-react';
-import type { Goal } from '../../types';
+import type { Goal, GoalConversation } from '../../types';
 import GoalCreationForm from './GoalCreationForm';
 import { AIGoalCreation } from './AIGoalCreation';
 import { FreeformAIChat } from './FreeformAIChat';
 import { GoalDetails } from './GoalDetails';
+import { KanbanBoard } from './KanbanBoard';
 import { cn } from '../../lib/utils';
+import {
+  createGoal,
+  deleteConversation,
+  deleteGoal,
+  subscribeToDraftConversations,
+  subscribeToGoals,
+  updateConversation,
+  updateGoal,
+  type NewGoal
+} from '../../lib/goalsRepository';
+import { getGoalProgress } from '../../lib/goalProgress';
 
 const formatDate = (date: Date | undefined | null): string => {
   if (!date) return '';
@@ -34,50 +45,59 @@ export const GoalsList = () => {
   const [selectedGoal, setSelectedGoal] = useState<string | null>(null);
   const [showDeleteConfirm, setShowDeleteConfirm] = useState<string | null>(null);
   const [menuOpen, setMenuOpen] = useState<string | null>(null);
+  const [drafts, setDrafts] = useState<GoalConversation[]>([]);
+  const [view, setView] = useState<'cards' | 'board'>('cards');
+  const [resumedDraft, setResumedDraft] = useState<GoalConversation | null>(null);
   const { user } = useAuth();
 
   useEffect(() => {
     if (!user) return;
 
-    const q = query(
-      collection(db, 'goals'),
-      where('userId', '==', user.uid),
-      orderBy('createdAt', 'desc')
-    );
+    const unsubscribe = subscribeToGoals(user.uid, setGoals);
 
-    const unsubscribe = onSnapshot(q, (snapshot) => {
-      const newGoals = snapshot.docs.map((doc) => ({
-        id: doc.id,
-        ...doc.data(),
-      })) as Goal[];
-      setGoals(newGoals);
-    });
+    return () => unsubscribe();
+  }, [user]);
+
+  useEffect(() => {
+    if (!user) return;
+
+    const unsubscribe = subscribeToDraftConversations(user.uid, setDrafts);
 
     return () => unsubscribe();
   }, [user]);
 
-  const handleCreateGoal = async (goalData: Omit<Goal, 'id' | 'userId' | 'createdAt' | 'updatedAt'>) => {
+  const handleCreateGoal = async (goalData: NewGoal) => {
     if (!user) return;
 
     try {
-      const newGoal = {
-        ...goalData,
-        userId: user.uid,
-        createdAt: new Date(),
-        updatedAt: new Date(),
-      };
-
-      await addDoc(collection(db, 'goals'), newGoal);
+      const goalId = await createGoal(user.uid, goalData);
+      if (goalData.conversationId) {
+        await updateConversation(goalData.conversationId, { status: 'completed', goalId });
+      }
     } catch (error) {
       console.error('Error creating goal:', error);
     }
   };
 
+  const handleDiscardDraft = async (conversationId: string) => {
+    try {
+      await deleteConversation(conversationId);
+    } catch (error) {
+      console.error('Error discarding draft:', error);
+    }
+  };
+
+  const closeAIModals = () => {
+    setShowAICreation(false);
+    setShowFreeformChat(false);
+    setResumedDraft(null);
+  };
+
   const handleDeleteGoal = async (goalId: string) => {
     if (!user) return;
 
     try {
-      await deleteDoc(doc(db, 'goals', goalId));
+      await deleteGoal(goalId);
       setShowDeleteConfirm(null);
     } catch (error) {
       console.error('Error deleting goal:', error);
@@ -88,11 +108,7 @@ export const GoalsList = () => {
     if (!user) return;
 
     try {
-      const goalRef = doc(db, 'goals', goalId);
-      await updateDoc(goalRef, {
-        ...updates,
-        updatedAt: new Date()
-      });
+      await updateGoal(goalId, updates);
       setEditingGoal(null);
     } catch (error) {
       console.error('Error updating goal:', error);
@@ -103,7 +119,6 @@ export const GoalsList = () => {
     if (!user) return;
 
     try {
-      const goalRef = doc(db, 'goals', goalId);
       const goal = goals.find(g => g.id === goalId);
       if (!goal) return;
 
@@ -115,10 +130,7 @@ export const GoalsList = () => {
         } : m
       );
 
-      await updateDoc(goalRef, {
-        milestones: updatedMilestones,
-        updatedAt: new Date()
-      });
+      await updateGoal(goalId, { milestones: updatedMilestones });
     } catch (error) {
       console.error('Error updating milestone:', error);
     }
@@ -135,16 +147,29 @@ export const GoalsList = () => {
     }
   };
 
-  const getProgressPercentage = (goal: Goal) => {
-    const totalMilestones = goal.milestones.length;
-    const completedMilestones = goal.milestones.filter(m => m.completed).length;
-    return totalMilestones > 0 ? Math.round((completedMilestones / totalMilestones) * 100) : 0;
-  };
+  const getProgressPercentage = (goal: Goal) => getGoalProgress(goal).percentage;
 
   return (
     <div className="space-y-6">
       <div className="flex items-center justify-between">
-        <h2 className="text-2xl font-semibold text-gray-900">Goals</h2>
+        <div className="flex items-center gap-4">
+          <h2 className="text-2xl font-semibold text-gray-900">Goals</h2>
+          <div className="flex rounded-md border border-gray-300 overflow-hidden">
+            {([['cards', LayoutGrid, 'Cards'], ['board', SquareKanban, 'Board']] as const).map(([id, Icon, label]) => (
+              <button
+                key={id}
+                onClick={() => setView(id)}
+                className={cn(
+                  'flex items-center gap-1 px-3 py-1.5 text-sm',
+                  view === id ? 'bg-gray-900 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'
+                )}
+              >
+                <Icon size={14} />
+                {label}
+              </button>
+            ))}
+          </div>
+        </div>
         <div className="flex gap-2">
           <button
             onClick={() => setShowFreeformChat(true)}
@@ -170,134 +195,182 @@ export const GoalsList = () => {
         </div>
       </div>
 
-      <div className="space-y-6">
-        {goals.map((goal) => (
-          <div
-            key={goal.id}
-            className="bg-white border border-gray-200 rounded-lg p-6 hover:shadow-md transition-shadow cursor-pointer"
-            onClick={() => setSelectedGoal(goal.id)}
-          >
-            {/* Header */}
-            <div className="flex items-start justify-between mb-4">
-              <div>
-                <h3 className="text-xl font-semibold text-gray-900">{goal.title}</h3>
-                <p className="mt-1 text-gray-600 line-clamp-2">{goal.description}</p>
-                <div className="mt-2 flex items-center gap-4">
-                  <span className={cn(
-                    "inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium",
-                    getStatusColor(goal.status)
-                  )}>
-                    {goal.status}
-                  </span>
-                  <span className="text-sm text-gray-500 flex items-center gap-1">
-                    <Calendar size={14} />
-                    Target: {formatDate(goal.targetDate)}
-                  </span>
+      {drafts.length > 0 && (
+        <div className="bg-amber-50 border border-amber-200 rounded-lg p-4">
+          <h3 className="text-sm font-medium text-amber-900 flex items-center gap-2 mb-3">
+            <History size={16} />
+            Drafts
+          </h3>
+          <div className="space-y-2">
+            {drafts.map((draft) => (
+              <div
+                key={draft.id}
+                className="flex items-center justify-between bg-white rounded-md border border-amber-100 px-4 py-2"
+              >
+                <div className="min-w-0">
+                  <p className="font-medium text-gray-900 truncate">{draft.title}</p>
+                  <p className="text-xs text-gray-500">
+                    {draft.mode === 'guided'
+                      ? `Guided creation · step ${draft.step ?? 1}`
+                      : `AI chat · ${draft.messages.length} messages`}
+                    {' · '}Last edited {formatDate(draft.updatedAt)}
+                  </p>
                 </div>
-              </div>
-              <div className="flex items-center gap-2">
-                <div className="relative">
+                <div className="flex items-center gap-2 flex-shrink-0">
+                  <button
+                    onClick={() => setResumedDraft(draft)}
+                    className="px-3 py-1 text-sm bg-amber-600 text-white rounded-md hover:bg-amber-700"
+                  >
+                    Resume
+                  </button>
                   <button
-                    onClick={(e) => {
-                      e.stopPropagation();
-                      setMenuOpen(menuOpen === goal.id ? null : goal.id);
-                    }}
-                    className="p-2 text-gray-500 hover:text-gray-700 rounded-full hover:bg-gray-100"
+                    onClick={() => handleDiscardDraft(draft.id)}
+                    className="p-1 text-gray-400 hover:text-red-600"
+                    title="Discard draft"
                   >
-                    <MoreVertical size={20} />
+                    <Trash2 size={16} />
                   </button>
-                  
-                  {menuOpen === goal.id && (
-                    <div 
-                      className="absolute right-0 mt-2 w-48 bg-white rounded-md shadow-lg z-10 border border-gray-200"
-                      onClick={(e) => e.stopPropagation()}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {view === 'board' ? (
+        <KanbanBoard goals={goals} />
+      ) : (
+        <div className="space-y-6">
+          {goals.map((goal) => (
+            <div
+              key={goal.id}
+              className="bg-white border border-gray-200 rounded-lg p-6 hover:shadow-md transition-shadow cursor-pointer"
+              onClick={() => setSelectedGoal(goal.id)}
+            >
+              {/* Header */}
+              <div className="flex items-start justify-between mb-4">
+                <div>
+                  <h3 className="text-xl font-semibold text-gray-900">{goal.title}</h3>
+                  <p className="mt-1 text-gray-600 line-clamp-2">{goal.description}</p>
+                  <div className="mt-2 flex items-center gap-4">
+                    <span className={cn(
+                      "inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium",
+                      getStatusColor(goal.status)
+                    )}>
+                      {goal.status}
+                    </span>
+                    <span className="text-sm text-gray-500 flex items-center gap-1">
+                      <Calendar size={14} />
+                      Target: {formatDate(goal.targetDate)}
+                    </span>
+                  </div>
+                </div>
+                <div className="flex items-center gap-2">
+                  <div className="relative">
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        setMenuOpen(menuOpen === goal.id ? null : goal.id);
+                      }}
+                      className="p-2 text-gray-500 hover:text-gray-700 rounded-full hover:bg-gray-100"
                     >
-                      <button
-                        onClick={() => {
-                          setEditingGoal(goal);
-                          setMenuOpen(null);
-                        }}
-                        className="flex items-center gap-2 w-full px-4 py-2 text-left text-sm text-gray-700 hover:bg-gray-50"
-                      >
-                        <Edit size={16} />
-                        Edit Goal
-                      </button>
-                      <button
-                        onClick={() => {
-                          setShowDeleteConfirm(goal.id);
-                          setMenuOpen(null);
-                        }}
-                        className="flex items-center gap-2 w-full px-4 py-2 text-left text-sm text-red-600 hover:bg-red-50"
+                      <MoreVertical size={20} />
+                    </button>
+                    
+                    {menuOpen === goal.id && (
+                      <div 
+                        className="absolute right-0 mt-2 w-48 bg-white rounded-md shadow-lg z-10 border border-gray-200"
+                        onClick={(e) => e.stopPropagation()}
                       >
-                        <Trash2 size={16} />
-                        Delete Goal
-                      </button>
-                    </div>
-                  )}
+                        <button
+                          onClick={() => {
+                            setEditingGoal(goal);
+                            setMenuOpen(null);
+                          }}
+                          className="flex items-center gap-2 w-full px-4 py-2 text-left text-sm text-gray-700 hover:bg-gray-50"
+                        >
+                          <Edit size={16} />
+                          Edit Goal
+                        </button>
+                        <button
+                          onClick={() => {
+                            setShowDeleteConfirm(goal.id);
+                            setMenuOpen(null);
+                          }}
+                          className="flex items-center gap-2 w-full px-4 py-2 text-left text-sm text-red-600 hover:bg-red-50"
+                        >
+                          <Trash2 size={16} />
+                          Delete Goal
+                        </button>
+                      </div>
+                    )}
+                  </div>
                 </div>
               </div>
-            </div>
 
-            {/* Progress Bar */}
-            <div className="mb-4">
-              <div className="flex justify-between text-sm text-gray-500 mb-1">
-                <span>Progress</span>
-                <span>{getProgressPercentage(goal)}%</span>
-              </div>
-              <div className="w-full bg-gray-200 rounded-full h-2">
-                <div
-                  className="bg-blue-600 h-2 rounded-full transition-all duration-500"
-                  style={{ width: `${getProgressPercentage(goal)}%` }}
-                />
+              {/* Progress Bar */}
+              <div className="mb-4">
+                <div className="flex justify-between text-sm text-gray-500 mb-1">
+                  <span>Progress</span>
+                  <span>{getProgressPercentage(goal)}%</span>
+                </div>
+                <div className="w-full bg-gray-200 rounded-full h-2">
+                  <div
+                    className="bg-blue-600 h-2 rounded-full transition-all duration-500"
+                    style={{ width: `${getProgressPercentage(goal)}%` }}
+                  />
+                </div>
               </div>
-            </div>
 
-            {/* Quick Stats */}
-            <div className="grid grid-cols-3 gap-4 text-sm text-gray-600">
-              <div className="flex items-center gap-2">
-                <ListChecks size={16} className="text-blue-600" />
-                <span>{goal.milestones.filter(m => m.completed).length}/{goal.milestones.length} Milestones</span>
-              </div>
-              {goal.dailyHabits?.length > 0 && (
+              {/* Quick Stats */}
+              <div className="grid grid-cols-3 gap-4 text-sm text-gray-600">
                 <div className="flex items-center gap-2">
-                  <Repeat size={16} className="text-purple-600" />
-                  <span>{goal.dailyHabits.length} Habits</span>
+                  <ListChecks size={16} className="text-blue-600" />
+                  <span>{goal.milestones.filter(m => m.completed).length}/{goal.milestones.length} Milestones</span>
                 </div>
-              )}
-              {goal.routines?.length > 0 && (
-                <div className="flex items-center gap-2">
-                  <Workflow size={16} className="text-indigo-600" />
-                  <span>{goal.routines.length} Routines</span>
-                </div>
-              )}
+                {goal.dailyHabits?.length > 0 && (
+                  <div className="flex items-center gap-2">
+                    <Repeat size={16} className="text-purple-600" />
+                    <span>{goal.dailyHabits.length} Habits</span>
+                  </div>
+                )}
+                {goal.routines?.length > 0 && (
+                  <div className="flex items-center gap-2">
+                    <Workflow size={16} className="text-indigo-600" />
+                    <span>{goal.routines.length} Routines</span>
+                  </div>
+                )}
+              </div>
             </div>
-          </div>
-        ))}
+          ))}
 
-        {goals.length === 0 && (
-          <div className="text-center py-12">
-            <Target className="mx-auto h-12 w-12 text-gray-400" />
-            <h3 className="mt-2 text-sm font-medium text-gray-900">No goals yet</h3>
-            <p className="mt-1 text-sm text-gray-500">Get started by creating a new goal.</p>
-          </div>
-        )}
-      </div>
+          {goals.length === 0 && (
+            <div className="text-center py-12">
+              <Target className="mx-auto h-12 w-12 text-gray-400" />
+              <h3 className="mt-2 text-sm font-medium text-gray-900">No goals yet</h3>
+              <p className="mt-1 text-sm text-gray-500">Get started by creating a new goal.</p>
+            </div>
+          )}
+        </div>
+      )}
 
       {showCreateForm && (
         <GoalCreationForm onClose={() => setShowCreateForm(false)} />
       )}
 
-      {showAICreation && (
+      {(showAICreation || resumedDraft?.mode === 'guided') && (
         <AIGoalCreation
-          onClose={() => setShowAICreation(false)}
+          onClose={closeAIModals}
           onCreateGoal={handleCreateGoal}
+          conversation={resumedDraft ?? undefined}
         />
       )}
 
-      {showFreeformChat && (
+      {(showFreeformChat || resumedDraft?.mode === 'freeform') && (
         <FreeformAIChat
-          onClose={() => setShowFreeformChat(false)}
+          onClose={closeAIModals}
           onCreateGoal={handleCreateGoal}
+          conversation={resumedDraft ?? undefined}
         />
       )}
 
@@ -0,0 +1,164 @@
+import React, { useState } from 'react';
+import { ArrowLeft, ArrowRight, CheckCircle2, SkipForward } from 'lucide-react';
+import { useAuth } from '../../contexts/AuthContext';
+import type { Goal } from '../../types';
+import { saveDomainReview, type DomainReview } from '../../lib/goalsRepository';
+import {
+  EMPTY_REFLECTION,
+  hasReflectionAnswers,
+  REVIEW_TYPE_LABELS,
+  REVIEW_TYPES,
+  summarizeGoalForReview,
+  type ReflectionAnswers,
+  type ReviewType
+} from '../../lib/reviews';
+import { completeDomainReview, domainCadence, domainReviewRange, DOMAIN_REVIEW_PROMPTS } from '../../lib/domainReviews';
+import { computeNextDue } from '../../lib/routines';
+import { GoalReviewSummary } from './GoalReviewSummary';
+import { ReflectionFields } from './ReflectionFields';
+
+interface GuidedDomainReviewProps {
+  domainId: string;
+  goals: Goal[];
+  review?: DomainReview;
+  onCancel: () => void;
+  onComplete: (review: DomainReview) => void;
+}
+
+/**
+ * Walks through a domain's open goals since its last review, then asks how
+ * the domain as a whole is going and schedules the next review.
+ */
+export const GuidedDomainReview: React.FC<GuidedDomainReviewProps> = ({ domainId, goals, review, onCancel, onComplete }) => {
+  const { user } = useAuth();
+  const openGoals = goals.filter(goal => goal.status !== 'completed');
+  const [step, setStep] = useState(1);
+  const [goalAnswers, setGoalAnswers] = useState<Record<string, ReflectionAnswers>>({});
+  const [overall, setOverall] = useState<ReflectionAnswers>(EMPTY_REFLECTION);
+  const [cadence, setCadence] = useState<ReviewType>(domainCadence(review));
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  const range = domainReviewRange(review);
+  const overallStep = openGoals.length + 1;
+  const goal = step < overallStep ? openGoals[step - 1] : null;
+
+  const handleSubmit = async () => {
+    if (!user) return;
+
+    setSaving(true);
+    setError('');
+    const date = new Date();
+    const base = { userId: user.uid, date, type: cadence, domain: domainId };
+    const next = completeDomainReview(cadence, date);
+
+    try {
+      await saveDomainReview(user.uid, {
+        domainId,
+        overall: { ...base, ...overall },
+        goalReflections: openGoals
+          .filter(g => goalAnswers[g.id] && hasReflectionAnswers(goalAnswers[g.id]))
+          .map(g => ({ goal: g, reflection: { ...base, id: crypto.randomUUID(), ...goalAnswers[g.id] } })),
+        review: next
+      });
+      onComplete(next);
+    } catch (error) {
+      console.error('Error saving domain review:', error);
+      setError('Could not save your review. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="text-xl font-semibold text-gray-900 capitalize">{domainId} review</h3>
+          <p className="text-sm text-gray-500">
+            Since {range.start.toLocaleDateString()}
+          </p>
+        </div>
+        <span className="text-sm text-gray-500">Step {step} of {overallStep}</span>
+      </div>
+
+      {goal && (
+        <div className="space-y-6">
+          <div>
+            <h4 className="text-lg font-medium text-gray-900">{goal.title}</h4>
+            <p className="text-sm text-gray-500 capitalize">{goal.status}</p>
+          </div>
+          <GoalReviewSummary summary={summarizeGoalForReview(goal, range)} />
+          <ReflectionFields
+            value={goalAnswers[goal.id] ?? EMPTY_REFLECTION}
+            onChange={(answers) => setGoalAnswers(prev => ({ ...prev, [goal.id]: answers }))}
+          />
+        </div>
+      )}
+
+      {step === overallStep && (
+        <div className="space-y-6">
+          <ReflectionFields value={overall} onChange={setOverall} prompts={DOMAIN_REVIEW_PROMPTS} />
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Review this domain</label>
+            <div className="flex items-center gap-3">
+              <select
+                value={cadence}
+                onChange={(e) => setCadence(e.target.value as ReviewType)}
+                className="px-3 py-2 border border-gray-300 rounded-md"
+              >
+                {REVIEW_TYPES.map(type => (
+                  <option key={type} value={type}>{REVIEW_TYPE_LABELS[type]}</option>
+                ))}
+              </select>
+              <span className="text-sm text-gray-500">
+                Next review on {computeNextDue(cadence, new Date()).toLocaleDateString()}
+              </span>
+            </div>
+          </div>
+          {error && <p className="text-sm text-red-600">{error}</p>}
+        </div>
+      )}
+
+      <div className="flex items-center justify-between">
+        <button
+          onClick={() => (step > 1 ? setStep(step - 1) : onCancel())}
+          className="flex items-center gap-2 px-4 py-2 border border-gray-300 rounded-md hover:bg-gray-50"
+        >
+          <ArrowLeft size={16} />
+          {step > 1 ? 'Back' : 'Cancel'}
+        </button>
+        {goal ? (
+          <div className="flex gap-2">
+            <button
+              onClick={() => {
+                setGoalAnswers(prev => ({ ...prev, [goal.id]: EMPTY_REFLECTION }));
+                setStep(step + 1);
+              }}
+              className="flex items-center gap-2 px-4 py-2 text-gray-600 hover:text-gray-900"
+            >
+              <SkipForward size={16} />
+              Skip goal
+            </button>
+            <button
+              onClick={() => setStep(step + 1)}
+              className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700"
+            >
+              Next
+              <ArrowRight size={16} />
+            </button>
+          </div>
+        ) : (
+          <button
+            onClick={handleSubmit}
+            disabled={saving}
+            className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+          >
+            <CheckCircle2 size={16} />
+            {saving ? 'Saving...' : 'Complete review'}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
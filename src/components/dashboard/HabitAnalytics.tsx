@@ -0,0 +1,57 @@
+import React from 'react';
+import type { Habit } from '../../types';
+import {
+  getBestWeekday,
+  getCompletionRate,
+  getConsistencyScore,
+  getDailyCompletion
+} from '../../lib/habits';
+import { WEEKDAY_NAMES } from '../../lib/dates';
+import { HabitHeatmap } from './HabitHeatmap';
+
+interface HabitAnalyticsProps {
+  habits: Habit[];
+  weeks?: number;
+}
+
+const RATE_WINDOWS = [7, 30, 90];
+
+const averageRate = (habits: Habit[], days: number): number | null => {
+  const rates = habits
+    .map(habit => getCompletionRate(habit, days))
+    .filter((rate): rate is number => rate !== null);
+  return rates.length > 0 ? rates.reduce((sum, rate) => sum + rate, 0) / rates.length : null;
+};
+
+const formatRate = (rate: number | null) => (rate === null ? '–' : `${Math.round(rate * 100)}%`);
+
+/** Consistency score, completion rates and a calendar heatmap for one or more habits. */
+export const HabitAnalytics: React.FC<HabitAnalyticsProps> = ({ habits, weeks = 26 }) => {
+  const score = getConsistencyScore(habits);
+  const bestWeekday = getBestWeekday(habits);
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 sm:grid-cols-5 gap-3 text-center">
+        <div className="bg-blue-50 rounded-lg p-3">
+          <p className="text-xs text-blue-700">Consistency</p>
+          <p className="text-xl font-semibold text-blue-900">{score ?? '–'}</p>
+        </div>
+        {RATE_WINDOWS.map(days => (
+          <div key={days} className="bg-gray-50 rounded-lg p-3">
+            <p className="text-xs text-gray-500">Last {days} days</p>
+            <p className="text-xl font-semibold text-gray-900">{formatRate(averageRate(habits, days))}</p>
+          </div>
+        ))}
+        <div className="bg-gray-50 rounded-lg p-3">
+          <p className="text-xs text-gray-500">Best day</p>
+          <p className="text-xl font-semibold text-gray-900">
+            {bestWeekday === null ? '–' : WEEKDAY_NAMES[bestWeekday].slice(0, 3)}
+          </p>
+        </div>
+      </div>
+
+      <HabitHeatmap levels={getDailyCompletion(habits, weeks * 7)} weeks={weeks} />
+    </div>
+  );
+};
@@ -0,0 +1,77 @@
+import React from 'react';
+import { CheckCircle2, Circle, Flame } from 'lucide-react';
+import type { Habit } from '../../types';
+import { cn } from '../../lib/utils';
+import {
+  countCompletionsInWeek,
+  describeHabitFrequency,
+  getHabitStreaks,
+  isHabitDoneOn,
+  isHabitDueOn
+} from '../../lib/habits';
+
+interface HabitCheckInProps {
+  habit: Habit;
+  onToggle: () => void;
+  /** Shown under the title, e.g. the goal the habit belongs to. */
+  subtitle?: string;
+  /** Adds the last seven days and the longest streak. */
+  detailed?: boolean;
+  /** First day of the planning week, for weekly habits. */
+  weekStartsOn: number;
+}
+
+const lastSevenDays = () => {
+  const today = new Date();
+  return Array.from({ length: 7 }, (_, i) => new Date(today.getFullYear(), today.getMonth(), today.getDate() - 6 + i));
+};
+
+export const HabitCheckIn: React.FC<HabitCheckInProps> = ({ habit, onToggle, subtitle, detailed = false, weekStartsOn }) => {
+  const today = new Date();
+  const doneToday = isHabitDoneOn(habit, today);
+  const streaks = getHabitStreaks(habit, today, weekStartsOn);
+  const unit = streaks.unit === 'week' ? 'wk' : 'd';
+
+  return (
+    <div className="flex items-center gap-4 p-4 bg-gray-50 rounded-lg">
+      <button
+        onClick={onToggle}
+        className={cn('flex-shrink-0', doneToday ? 'text-green-600' : 'text-gray-400 hover:text-green-600')}
+        title={doneToday ? 'Mark as not done today' : 'Mark as done today'}
+      >
+        {doneToday ? <CheckCircle2 size={28} /> : <Circle size={28} />}
+      </button>
+
+      <div className="flex-1 min-w-0">
+        <h4 className={cn('font-medium truncate', doneToday && 'text-gray-500 line-through')}>{habit.title}</h4>
+        <p className="text-sm text-gray-500">
+          {subtitle ?? describeHabitFrequency(habit)}
+          {habit.frequency === 'weekly' && ` · ${countCompletionsInWeek(habit, today, weekStartsOn)}/${habit.timesPerWeek ?? 1} this week`}
+        </p>
+      </div>
+
+      {detailed && (
+        <div className="hidden sm:flex gap-1">
+          {lastSevenDays().map(day => (
+            <span
+              key={day.toISOString()}
+              title={day.toLocaleDateString()}
+              className={cn(
+                'w-3 h-3 rounded-sm',
+                isHabitDoneOn(habit, day) ? 'bg-green-500' : isHabitDueOn(habit, day) ? 'bg-gray-200' : 'bg-gray-100'
+              )}
+            />
+          ))}
+        </div>
+      )}
+
+      <div className="text-right text-sm">
+        <div className={cn('flex items-center gap-1 font-medium', streaks.current > 0 ? 'text-orange-600' : 'text-gray-400')}>
+          <Flame size={16} />
+          {streaks.current}{unit}
+        </div>
+        {detailed && <div className="text-xs text-gray-500">Best {streaks.longest}{unit}</div>}
+      </div>
+    </div>
+  );
+};
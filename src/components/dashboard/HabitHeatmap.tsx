@@ -0,0 +1,64 @@
+import React from 'react';
+import { cn } from '../../lib/utils';
+import { startOfWeek, toDateKey } from '../../lib/dates';
+
+interface HabitHeatmapProps {
+  /** Completion level per `YYYY-MM-DD`, 0–1. Missing days had nothing due. */
+  levels: Record<string, number>;
+  weeks?: number;
+}
+
+const DAY_LABELS = ['Mon', '', 'Wed', '', 'Fri', '', ''];
+
+const levelColor = (level: number | undefined) => {
+  if (level === undefined) return 'bg-gray-100';
+  if (level === 0) return 'bg-gray-200';
+  if (level < 0.5) return 'bg-green-200';
+  if (level < 1) return 'bg-green-400';
+  return 'bg-green-600';
+};
+
+export const HabitHeatmap: React.FC<HabitHeatmapProps> = ({ levels, weeks = 26 }) => {
+  const today = new Date();
+  const firstMonday = startOfWeek(new Date(today.getFullYear(), today.getMonth(), today.getDate() - (weeks - 1) * 7));
+
+  const columns = Array.from({ length: weeks }, (_, week) =>
+    Array.from({ length: 7 }, (_, day) =>
+      new Date(firstMonday.getFullYear(), firstMonday.getMonth(), firstMonday.getDate() + week * 7 + day)
+    )
+  );
+
+  return (
+    <div className="overflow-x-auto">
+      <div className="inline-flex gap-1">
+        <div className="flex flex-col gap-1 mr-1">
+          {DAY_LABELS.map((label, index) => (
+            <span key={index} className="h-3 text-[10px] leading-3 text-gray-400">{label}</span>
+          ))}
+        </div>
+        {columns.map((days, index) => (
+          <div key={index} className="flex flex-col gap-1">
+            {days.map(day => {
+              const key = toDateKey(day);
+              const level = levels[key];
+              return (
+                <span
+                  key={key}
+                  title={`${day.toLocaleDateString()}${level !== undefined ? ` · ${Math.round(level * 100)}%` : ''}`}
+                  className={cn('w-3 h-3 rounded-sm', day > today ? 'invisible' : levelColor(level))}
+                />
+              );
+            })}
+          </div>
+        ))}
+      </div>
+      <div className="flex items-center gap-1 mt-2 text-xs text-gray-500">
+        Less
+        {[0, 0.25, 0.75, 1].map(level => (
+          <span key={level} className={cn('w-3 h-3 rounded-sm', levelColor(level))} />
+        ))}
+        More
+      </div>
+    </div>
+  );
+};
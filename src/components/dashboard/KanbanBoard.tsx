@@ -0,0 +1,209 @@
+import React, { useEffect, useState } from 'react';
+import { CheckSquare, Flag } from 'lucide-react';
+import { useAuth } from '../../contexts/AuthContext';
+import type { Goal, Task } from '../../types';
+import { cn } from '../../lib/utils';
+import { startOfDay } from '../../lib/dates';
+import { GOAL_DOMAINS } from '../../lib/goalValidation';
+import { subscribeToTasks, updateGoal, updateTask } from '../../lib/goalsRepository';
+import { BOARD_COLUMNS, boardMoveUpdates, toBoardCards, type BoardCard, type BoardColumnId } from '../../lib/board';
+import { currentPlanningWeek, planningWeekRange } from '../../lib/weeklyPlanner';
+import { usePlanningSettings } from '../../hooks/usePlanningSettings';
+
+interface KanbanBoardProps {
+  goals: Goal[];
+}
+
+const STANDALONE = 'standalone';
+
+const COLUMN_STYLES: Record<BoardColumnId, string> = {
+  backlog: 'bg-gray-50',
+  week: 'bg-blue-50',
+  doing: 'bg-amber-50',
+  done: 'bg-green-50'
+};
+
+/** Tasks and milestones from every goal, moved between columns by drag and drop. */
+export const KanbanBoard: React.FC<KanbanBoardProps> = ({ goals }) => {
+  const { user } = useAuth();
+  const settings = usePlanningSettings();
+  const [tasks, setTasks] = useState<Task[]>([]);
+  const [domainFilter, setDomainFilter] = useState('');
+  const [goalFilter, setGoalFilter] = useState('');
+  const [swimlanes, setSwimlanes] = useState(false);
+  const [draggedKey, setDraggedKey] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!user) return;
+    return subscribeToTasks(user.uid, setTasks);
+  }, [user]);
+
+  const week = planningWeekRange(currentPlanningWeek(settings));
+  const goalTitles = Object.fromEntries(goals.map(goal => [goal.id, goal.title]));
+  const goalOptions = goals.filter(goal => goal.status !== 'completed' && (!domainFilter || goal.domain === domainFilter));
+
+  const cards = toBoardCards(goals, tasks, week).filter(card => {
+    if (domainFilter && card.domain !== domainFilter) return false;
+    if (goalFilter === STANDALONE) return !card.goalId;
+    return !goalFilter || card.goalId === goalFilter;
+  });
+
+  const lanes = swimlanes
+    ? [...GOAL_DOMAINS, undefined].filter(domain => cards.some(card => card.domain === domain))
+    : [null];
+
+  const moveCard = async (card: BoardCard, column: BoardColumnId) => {
+    if (card.column === column) return;
+
+    try {
+      if (card.kind === 'task') {
+        const task = tasks.find(t => t.id === card.id);
+        await updateTask(card.id, boardMoveUpdates(column, task?.completedDate));
+        return;
+      }
+
+      const goal = goals.find(g => g.id === card.goalId);
+      if (!goal) return;
+      await updateGoal(goal.id, {
+        milestones: goal.milestones.map(milestone =>
+          milestone.id === card.id ? { ...milestone, ...boardMoveUpdates(column, milestone.completedDate) } : milestone
+        )
+      });
+    } catch (error) {
+      console.error('Error moving card:', error);
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent, column: BoardColumnId) => {
+    e.preventDefault();
+    const card = cards.find(c => c.key === e.dataTransfer.getData('text/plain'));
+    setDraggedKey(null);
+    setDropTarget(null);
+    if (card) moveCard(card, column);
+  };
+
+  const renderCard = (card: BoardCard) => {
+    const overdue = card.column !== 'done' && card.dueDate !== undefined && startOfDay(card.dueDate) < startOfDay(new Date());
+    const Icon = card.kind === 'milestone' ? Flag : CheckSquare;
+
+    return (
+      <div
+        key={card.key}
+        draggable
+        onDragStart={(e) => {
+          e.dataTransfer.setData('text/plain', card.key);
+          e.dataTransfer.effectAllowed = 'move';
+          setDraggedKey(card.key);
+        }}
+        onDragEnd={() => {
+          setDraggedKey(null);
+          setDropTarget(null);
+        }}
+        className={cn(
+          'bg-white border border-gray-200 rounded-md p-3 shadow-sm cursor-grab active:cursor-grabbing',
+          draggedKey === card.key && 'opacity-50'
+        )}
+      >
+        <div className="flex items-start gap-2">
+          <Icon size={14} className={cn('mt-0.5 flex-shrink-0', card.kind === 'milestone' ? 'text-purple-600' : 'text-blue-600')} />
+          <p className={cn('text-sm font-medium text-gray-900', card.column === 'done' && 'text-gray-500 line-through')}>
+            {card.title}
+          </p>
+        </div>
+        <div className="mt-2 flex flex-wrap items-center gap-2 text-xs text-gray-500">
+          <span>{card.goalId ? goalTitles[card.goalId] : 'Standalone'}</span>
+          {card.dueDate && (
+            <span className={cn(overdue && 'text-red-600 font-medium')}>{card.dueDate.toLocaleDateString()}</span>
+          )}
+          {card.priority === 'high' && <span className="text-red-600">High</span>}
+        </div>
+      </div>
+    );
+  };
+
+  const renderColumns = (laneCards: BoardCard[], lane: string) => (
+    <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+      {BOARD_COLUMNS.map(({ id, label }) => {
+        const columnCards = laneCards.filter(card => card.column === id);
+        const target = `${lane}:${id}`;
+        return (
+          <div
+            key={id}
+            onDragOver={(e) => {
+              e.preventDefault();
+              setDropTarget(target);
+            }}
+            onDragLeave={() => setDropTarget(prev => (prev === target ? null : prev))}
+            onDrop={(e) => handleDrop(e, id)}
+            className={cn(
+              'rounded-lg p-3 min-h-[8rem] space-y-2',
+              COLUMN_STYLES[id],
+              dropTarget === target && 'ring-2 ring-blue-400'
+            )}
+          >
+            <h4 className="text-sm font-medium text-gray-700 flex items-center justify-between">
+              {label}
+              <span className="text-xs text-gray-400">{columnCards.length}</span>
+            </h4>
+            {columnCards.map(renderCard)}
+          </div>
+        );
+      })}
+    </div>
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-3">
+        <select
+          value={domainFilter}
+          onChange={(e) => {
+            setDomainFilter(e.target.value);
+            setGoalFilter('');
+          }}
+          className="px-3 py-2 border border-gray-300 rounded-md capitalize"
+        >
+          <option value="">All domains</option>
+          {GOAL_DOMAINS.map(domain => (
+            <option key={domain} value={domain}>{domain}</option>
+          ))}
+        </select>
+        <select
+          value={goalFilter}
+          onChange={(e) => setGoalFilter(e.target.value)}
+          className="px-3 py-2 border border-gray-300 rounded-md"
+        >
+          <option value="">All goals</option>
+          {!domainFilter && <option value={STANDALONE}>Standalone tasks</option>}
+          {goalOptions.map(goal => (
+            <option key={goal.id} value={goal.id}>{goal.title}</option>
+          ))}
+        </select>
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={swimlanes}
+            onChange={(e) => setSwimlanes(e.target.checked)}
+            className="rounded border-gray-300"
+          />
+          Swimlane per domain
+        </label>
+      </div>
+
+      {cards.length === 0 ? (
+        <p className="text-sm text-gray-500 text-center py-8">No tasks or milestones match these filters</p>
+      ) : (
+        lanes.map(lane => {
+          if (lane === null) return <div key="all">{renderColumns(cards, 'all')}</div>;
+          return (
+            <div key={lane ?? STANDALONE} className="space-y-2">
+              <h3 className="text-lg font-medium text-gray-900 capitalize">{lane ?? 'Standalone'}</h3>
+              {renderColumns(cards.filter(card => card.domain === lane), lane ?? STANDALONE)}
+            </div>
+          );
+        })
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,358 @@
+import React, { useEffect, useState } from 'react';
+import { useAuth } from '../../contexts/AuthContext';
+import { ArrowLeft, ArrowRight, CheckCircle2, Flag, MessageSquare, TrendingUp } from 'lucide-react';
+import type { Goal, GoalDecision, Reflection } from '../../types';
+import { cn } from '../../lib/utils';
+import { GOAL_DOMAINS } from '../../lib/goalValidation';
+import { listGoals, listReflections, saveReview } from '../../lib/goalsRepository';
+import {
+  defaultReviewPeriod,
+  draftProgressNotes,
+  EMPTY_REFLECTION,
+  formatPeriod,
+  getMetricDeltas,
+  GOAL_DECISION_LABELS,
+  isOverallReview,
+  periodOf,
+  periodRange,
+  previousPeriod,
+  reflectionsInPeriod,
+  REVIEW_PROMPTS,
+  REVIEW_TYPE_LABELS,
+  statusForDecision,
+  summarizeGoalForReview,
+  type PeriodReviewType,
+  type ReflectionAnswers
+} from '../../lib/reviews';
+import { ReflectionFields } from './ReflectionFields';
+
+interface PeriodReviewProps {
+  type: PeriodReviewType;
+}
+
+type Step = 'context' | 'decisions' | 'reflect';
+
+interface DomainAssessment {
+  rating: number;
+  note: string;
+}
+
+const decisionsFor = (goal: Goal): GoalDecision[] =>
+  goal.status === 'paused' ? ['keep', 'resume', 'retire'] : ['keep', 'pause', 'retire'];
+
+/**
+ * Monthly, quarterly or annual review: the period's reflections, milestones
+ * and metric changes as context, goal decisions (quarterly) or a domain
+ * assessment (annual), then an overall reflection.
+ */
+export const PeriodReview: React.FC<PeriodReviewProps> = ({ type }) => {
+  const { user } = useAuth();
+  const [goals, setGoals] = useState<Goal[]>([]);
+  const [reflections, setReflections] = useState<Reflection[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [period, setPeriod] = useState(() => defaultReviewPeriod(type));
+  const [step, setStep] = useState<Step>('context');
+  const [decisions, setDecisions] = useState<Record<string, GoalDecision>>({});
+  const [assessments, setAssessments] = useState<Record<string, DomainAssessment>>({});
+  const [answers, setAnswers] = useState<ReflectionAnswers>(EMPTY_REFLECTION);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+  // Bumped after a save so goals and reflections are reloaded
+  const [reloadKey, setReloadKey] = useState(0);
+
+  useEffect(() => {
+    const fetchData = async () => {
+      if (!user) return;
+
+      try {
+        const [allGoals, allReflections] = await Promise.all([
+          listGoals(user.uid),
+          listReflections(user.uid)
+        ]);
+        setGoals(allGoals);
+        setReflections(allReflections);
+      } catch (error) {
+        console.error('Error fetching review data:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchData();
+  }, [user, reloadKey]);
+
+  const range = periodRange(type, period);
+  const label = formatPeriod(type, period);
+  const current = periodOf(type, new Date());
+  const periodOptions = [current, previousPeriod(type, current), previousPeriod(type, previousPeriod(type, current))];
+  const openGoals = goals.filter(goal => goal.status !== 'completed');
+  const periodReflections = reflectionsInPeriod(reflections, goals, range);
+  const goalActivity = goals
+    .map(goal => ({ goal, milestones: summarizeGoalForReview(goal, range).milestonesHit, deltas: getMetricDeltas(goal, range) }))
+    .filter(({ milestones, deltas }) => milestones.length > 0 || deltas.length > 0);
+  const hasDecisionStep = type !== 'monthly';
+  const isReviewed = reflections.some(r => r.type === type && r.period === period && isOverallReview(r));
+
+  const goToReflect = () => {
+    // Starts the progress answer from what the data already shows
+    if (!answers.progress.trim()) {
+      setAnswers(prev => ({ ...prev, progress: draftProgressNotes(goals, range) }));
+    }
+    setStep('reflect');
+  };
+
+  const handleSubmit = async () => {
+    if (!user) return;
+
+    setSaving(true);
+    setError('');
+    try {
+      const goalDecisions = type === 'quarterly'
+        ? openGoals.map(goal => ({ goalId: goal.id, title: goal.title, decision: decisions[goal.id] ?? 'keep' }))
+        : undefined;
+      const domainAssessments = type === 'annual'
+        ? Object.entries(assessments).map(([domain, assessment]) => ({ domain, ...assessment }))
+        : undefined;
+
+      await saveReview(user.uid, {
+        type,
+        period,
+        overall: {
+          userId: user.uid,
+          date: new Date(),
+          type,
+          period,
+          ...answers,
+          ...(goalDecisions && { goalDecisions }),
+          ...(domainAssessments && { domainAssessments })
+        },
+        goalReflections: [],
+        statusChanges: (goalDecisions ?? []).flatMap(({ goalId, decision }) => {
+          const goal = openGoals.find(g => g.id === goalId);
+          if (!goal) return [];
+          const status = statusForDecision(decision, goal.status);
+          return status !== goal.status ? [{ goalId, status }] : [];
+        })
+      });
+      setReloadKey(prev => prev + 1);
+      setStep('context');
+      setDecisions({});
+      setAssessments({});
+      setAnswers(EMPTY_REFLECTION);
+    } catch (error) {
+      console.error('Error saving review:', error);
+      setError('Could not save your review. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return <div>Loading...</div>;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-semibold text-gray-900">{REVIEW_TYPE_LABELS[type]} Review</h2>
+          <p className="text-sm text-gray-500">
+            {range.start.toLocaleDateString()} – {range.end.toLocaleDateString()}
+          </p>
+        </div>
+        {step === 'context' && (
+          <select
+            value={period}
+            onChange={(e) => setPeriod(e.target.value)}
+            className="px-3 py-2 border border-gray-300 rounded-md"
+          >
+            {periodOptions.map(option => (
+              <option key={option} value={option}>{formatPeriod(type, option)}</option>
+            ))}
+          </select>
+        )}
+      </div>
+
+      {step === 'context' && (
+        <div className="space-y-6">
+          {isReviewed && (
+            <div className="flex items-center gap-2 p-4 bg-green-50 border border-green-200 rounded-lg text-green-800">
+              <CheckCircle2 size={20} />
+              You've completed the review for {label}.
+            </div>
+          )}
+
+          <section className="space-y-3">
+            <h3 className="flex items-center gap-2 text-lg font-medium text-gray-900">
+              <Flag size={18} className="text-purple-600" />
+              Milestones and metrics
+            </h3>
+            {goalActivity.length === 0 ? (
+              <p className="text-sm text-gray-500">No milestones completed or metrics recorded in {label}.</p>
+            ) : (
+              goalActivity.map(({ goal, milestones, deltas }) => (
+                <div key={goal.id} className="p-4 bg-gray-50 rounded-lg">
+                  <p className="font-medium text-gray-900">{goal.title}</p>
+                  <ul className="mt-1 space-y-1 text-sm">
+                    {milestones.map(m => (
+                      <li key={m.id} className="text-green-700">✓ {m.title}</li>
+                    ))}
+                    {deltas.map(({ metric, from, to }) => (
+                      <li key={metric.id} className="flex items-center gap-1 text-gray-700">
+                        <TrendingUp size={14} className="text-blue-600" />
+                        {metric.name}: {from} → {to}{metric.unit && ` ${metric.unit}`}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              ))
+            )}
+          </section>
+
+          <section className="space-y-3">
+            <h3 className="flex items-center gap-2 text-lg font-medium text-gray-900">
+              <MessageSquare size={18} className="text-blue-600" />
+              Reflections from {label}
+            </h3>
+            {periodReflections.length === 0 ? (
+              <p className="text-sm text-gray-500">No reflections written in this period.</p>
+            ) : (
+              periodReflections.map(({ reflection, goal }) => (
+                <div key={`${goal?.id ?? 'review'}-${reflection.id}`} className="p-3 bg-gray-50 rounded-lg text-sm">
+                  <div className="flex items-center justify-between text-xs text-gray-500">
+                    <span>
+                      {reflection.date.toLocaleDateString()} · {REVIEW_TYPE_LABELS[reflection.type]}
+                      {goal && ` · ${goal.title}`}
+                    </span>
+                    <span>Satisfaction {reflection.satisfaction}/10</span>
+                  </div>
+                  {reflection.progress && <p className="mt-1 text-gray-700 line-clamp-2">{reflection.progress}</p>}
+                  {reflection.challenges && <p className="mt-1 text-gray-500 line-clamp-2">{reflection.challenges}</p>}
+                </div>
+              ))
+            )}
+          </section>
+
+          <button
+            onClick={() => (hasDecisionStep ? setStep('decisions') : goToReflect())}
+            className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700"
+          >
+            {isReviewed ? 'Review again' : 'Start review'}
+            <ArrowRight size={16} />
+          </button>
+        </div>
+      )}
+
+      {step === 'decisions' && type === 'quarterly' && (
+        <div className="space-y-4">
+          <h3 className="text-xl font-semibold text-gray-900">Which goals carry on?</h3>
+          <p className="text-sm text-gray-500">Paused goals drop off your daily views; retired goals are closed.</p>
+          {openGoals.length === 0 ? (
+            <p className="text-sm text-gray-500">You have no open goals.</p>
+          ) : (
+            openGoals.map(goal => (
+              <div key={goal.id} className="flex items-center justify-between gap-4 p-4 bg-gray-50 rounded-lg">
+                <div className="min-w-0">
+                  <p className="font-medium text-gray-900 truncate">{goal.title}</p>
+                  <p className="text-xs text-gray-500 capitalize">{goal.domain} · {goal.status}</p>
+                </div>
+                <div className="flex rounded-md border border-gray-300 overflow-hidden flex-shrink-0">
+                  {decisionsFor(goal).map(decision => (
+                    <button
+                      key={decision}
+                      onClick={() => setDecisions(prev => ({ ...prev, [goal.id]: decision }))}
+                      className={cn(
+                        'px-3 py-1.5 text-sm',
+                        (decisions[goal.id] ?? 'keep') === decision
+                          ? decision === 'retire' ? 'bg-red-600 text-white' : 'bg-gray-900 text-white'
+                          : 'bg-white text-gray-700 hover:bg-gray-50'
+                      )}
+                    >
+                      {GOAL_DECISION_LABELS[decision]}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+      )}
+
+      {step === 'decisions' && type === 'annual' && (
+        <div className="space-y-4">
+          <h3 className="text-xl font-semibold text-gray-900">How did each area of life go?</h3>
+          {GOAL_DOMAINS.map(domain => {
+            const assessment = assessments[domain] ?? { rating: 5, note: '' };
+            const domainGoals = goals.filter(goal => goal.domain === domain);
+            return (
+              <div key={domain} className="p-4 bg-gray-50 rounded-lg space-y-2">
+                <div className="flex items-center justify-between">
+                  <p className="font-medium text-gray-900 capitalize">{domain}</p>
+                  <span className="text-xs text-gray-500">
+                    {domainGoals.length} goals · {domainGoals.filter(g => g.status === 'completed').length} completed
+                  </span>
+                </div>
+                <div className="flex items-center gap-3">
+                  <input
+                    type="range"
+                    min="1"
+                    max="10"
+                    value={assessment.rating}
+                    onChange={(e) => setAssessments(prev => ({ ...prev, [domain]: { ...assessment, rating: parseInt(e.target.value) } }))}
+                    className="flex-1"
+                  />
+                  <span className="w-10 text-sm text-gray-700 text-right">{assessment.rating}/10</span>
+                </div>
+                <input
+                  type="text"
+                  value={assessment.note}
+                  onChange={(e) => setAssessments(prev => ({ ...prev, [domain]: { ...assessment, note: e.target.value } }))}
+                  placeholder="What stood out?"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md"
+                />
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {step === 'reflect' && (
+        <div className="space-y-6">
+          <h3 className="text-xl font-semibold text-gray-900">{label} overall</h3>
+          <ReflectionFields value={answers} onChange={setAnswers} prompts={REVIEW_PROMPTS[type]} />
+          {error && <p className="text-sm text-red-600">{error}</p>}
+        </div>
+      )}
+
+      {step !== 'context' && (
+        <div className="flex items-center justify-between">
+          <button
+            onClick={() => setStep(step === 'reflect' && hasDecisionStep ? 'decisions' : 'context')}
+            className="flex items-center gap-2 px-4 py-2 border border-gray-300 rounded-md hover:bg-gray-50"
+          >
+            <ArrowLeft size={16} />
+            Back
+          </button>
+          {step === 'decisions' ? (
+            <button
+              onClick={goToReflect}
+              className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700"
+            >
+              Next
+              <ArrowRight size={16} />
+            </button>
+          ) : (
+            <button
+              onClick={handleSubmit}
+              disabled={saving}
+              className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+            >
+              <CheckCircle2 size={16} />
+              {saving ? 'Saving...' : 'Complete review'}
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,59 @@
+import React from 'react';
+import { ArrowRight, CheckCircle2, Lightbulb, XCircle } from 'lucide-react';
+import { REVIEW_PROMPTS, type ReflectionAnswers, type ReflectionPrompts } from '../../lib/reviews';
+
+interface ReflectionFieldsProps {
+  value: ReflectionAnswers;
+  onChange: (value: ReflectionAnswers) => void;
+  /** Questions to ask; the weekly ones by default. */
+  prompts?: ReflectionPrompts;
+}
+
+const textareaClass = 'w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+export const ReflectionFields: React.FC<ReflectionFieldsProps> = ({ value, onChange, prompts = REVIEW_PROMPTS.weekly }) => {
+  const questions = [
+    { field: 'progress', icon: <CheckCircle2 className="text-green-500" size={16} /> },
+    { field: 'challenges', icon: <XCircle className="text-red-500" size={16} /> },
+    { field: 'insights', icon: <Lightbulb className="text-yellow-500" size={16} /> },
+    { field: 'nextSteps', icon: <ArrowRight className="text-blue-500" size={16} /> }
+  ] as const;
+
+  return (
+    <div className="space-y-6">
+      {questions.map(({ field, icon }) => (
+        <div key={field}>
+          <label className="flex items-center gap-2 text-sm font-medium text-gray-700 mb-2">
+            {icon}
+            {prompts[field]}
+          </label>
+          <textarea
+            value={value[field]}
+            onChange={(e) => onChange({ ...value, [field]: e.target.value })}
+            className={textareaClass}
+            rows={3}
+          />
+        </div>
+      ))}
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">
+          Satisfaction (1-10)
+        </label>
+        <input
+          type="range"
+          min="1"
+          max="10"
+          value={value.satisfaction}
+          onChange={(e) => onChange({ ...value, satisfaction: parseInt(e.target.value) })}
+          className="w-full"
+        />
+        <div className="flex justify-between text-sm text-gray-500">
+          <span>1</span>
+          <span>{value.satisfaction}</span>
+          <span>10</span>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,94 @@
+import React from 'react';
+import { Check, Plus, Repeat, RotateCcw, Sparkles } from 'lucide-react';
+import type { Goal } from '../../types';
+import { describeAdjustment, type GoalAdjustment, type ReviewFeedback } from '../../lib/reviewFeedback';
+
+interface ReviewFeedbackPanelProps {
+  feedback: ReviewFeedback | null;
+  goals: Goal[];
+  loading: boolean;
+  error: string;
+  /** Indexes of the suggestions already applied. */
+  accepted: number[];
+  onAccept: (adjustment: GoalAdjustment, index: number) => void;
+  onRetry: () => void;
+}
+
+/** The AI's summary of a finished review and the goal changes it suggests. */
+export const ReviewFeedbackPanel: React.FC<ReviewFeedbackPanelProps> = ({
+  feedback,
+  goals,
+  loading,
+  error,
+  accepted,
+  onAccept,
+  onRetry
+}) => (
+  <section className="bg-indigo-50 border border-indigo-100 rounded-lg p-4 space-y-4">
+    <h3 className="flex items-center gap-2 text-lg font-medium text-indigo-900">
+      <Sparkles size={18} />
+      Coaching feedback
+    </h3>
+
+    {loading && <p className="text-sm text-indigo-800">Reading your review...</p>}
+
+    {error && (
+      <div className="flex items-center justify-between gap-4 text-sm text-red-700">
+        <span>{error}</span>
+        <button onClick={onRetry} className="flex items-center gap-1 text-indigo-700 hover:text-indigo-900">
+          <RotateCcw size={14} />
+          Try again
+        </button>
+      </div>
+    )}
+
+    {feedback && (
+      <>
+        <p className="text-gray-800">{feedback.summary}</p>
+
+        {feedback.recurringChallenges.length > 0 && (
+          <div>
+            <p className="flex items-center gap-1 text-sm font-medium text-indigo-900">
+              <Repeat size={14} />
+              Keeps coming up
+            </p>
+            <ul className="mt-1 list-disc list-inside text-sm text-gray-700">
+              {feedback.recurringChallenges.map(challenge => (
+                <li key={challenge}>{challenge}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {feedback.suggestions.length > 0 && (
+          <div className="space-y-2">
+            <p className="text-sm font-medium text-indigo-900">Suggested adjustments</p>
+            {feedback.suggestions.map((adjustment, index) => {
+              const goal = goals.find(g => g.id === adjustment.goalId);
+              if (!goal) return null;
+              const isAccepted = accepted.includes(index);
+              return (
+                <div key={index} className="flex items-start justify-between gap-4 p-3 bg-white rounded-md">
+                  <div>
+                    <p className="text-sm font-medium text-gray-900">{describeAdjustment(goal, adjustment)}</p>
+                    <p className="text-xs text-gray-500">
+                      {goal.title}{adjustment.reason && ` · ${adjustment.reason}`}
+                    </p>
+                  </div>
+                  <button
+                    onClick={() => onAccept(adjustment, index)}
+                    disabled={isAccepted}
+                    className="flex items-center gap-1 px-3 py-1.5 text-sm rounded-md flex-shrink-0 bg-indigo-600 text-white hover:bg-indigo-700 disabled:bg-green-600"
+                  >
+                    {isAccepted ? <Check size={14} /> : <Plus size={14} />}
+                    {isAccepted ? 'Applied' : 'Apply'}
+                  </button>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </>
+    )}
+  </section>
+);
@@ -0,0 +1,143 @@
+import { useEffect, useState } from 'react';
+import { Sparkles } from 'lucide-react';
+import { useAuth } from '../../contexts/AuthContext';
+import type { Reflection } from '../../types';
+import { listReflections } from '../../lib/goalsRepository';
+import { DOMAIN_REVIEW_PROMPTS } from '../../lib/domainReviews';
+import { formatPeriod, GOAL_DECISION_LABELS, REVIEW_PROMPTS, REVIEW_TYPE_LABELS, REVIEW_TYPES, type ReviewType } from '../../lib/reviews';
+
+const TYPE_COLORS: Record<ReviewType, string> = {
+  weekly: 'bg-blue-100 text-blue-800',
+  monthly: 'bg-green-100 text-green-800',
+  quarterly: 'bg-purple-100 text-purple-800',
+  annual: 'bg-amber-100 text-amber-800'
+};
+
+const periodLabel = (reflection: Reflection) => {
+  if (reflection.domain) return 'Domain review';
+  if (!reflection.period) return reflection.date.toLocaleDateString();
+  return reflection.type === 'weekly'
+    ? `Week of ${new Date(`${reflection.period}T00:00:00`).toLocaleDateString()}`
+    : formatPeriod(reflection.type, reflection.period);
+};
+
+/** Past reviews, newest first, with their answers and decisions. */
+export const ReviewHistory = () => {
+  const { user } = useAuth();
+  const [reflections, setReflections] = useState<Reflection[]>([]);
+  const [filter, setFilter] = useState<ReviewType | 'all'>('all');
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchReflections = async () => {
+      if (!user) return;
+
+      try {
+        setReflections(await listReflections(user.uid));
+      } catch (error) {
+        console.error('Error fetching reflections:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchReflections();
+  }, [user]);
+
+  if (loading) {
+    return <div>Loading...</div>;
+  }
+
+  const shown = reflections.filter(reflection => filter === 'all' || reflection.type === filter);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h2 className="text-2xl font-semibold text-gray-900">Review History</h2>
+        <select
+          value={filter}
+          onChange={(e) => setFilter(e.target.value as ReviewType | 'all')}
+          className="px-3 py-2 border border-gray-300 rounded-md"
+        >
+          <option value="all">All reviews</option>
+          {REVIEW_TYPES.map(type => (
+            <option key={type} value={type}>{REVIEW_TYPE_LABELS[type]}</option>
+          ))}
+        </select>
+      </div>
+
+      {shown.length === 0 ? (
+        <p className="text-sm text-gray-500 text-center py-8">No reviews yet</p>
+      ) : (
+        shown.map(reflection => (
+          <div key={reflection.id} className="p-4 bg-gray-50 rounded-lg space-y-3">
+            <div className="flex items-center justify-between">
+              <div className="flex items-center gap-2">
+                <span className={`px-2 py-0.5 text-xs font-medium rounded-full ${TYPE_COLORS[reflection.type]}`}>
+                  {REVIEW_TYPE_LABELS[reflection.type]}
+                </span>
+                <span className="font-medium text-gray-900">{periodLabel(reflection)}</span>
+                {reflection.domain && (
+                  <span className="text-sm text-gray-500 capitalize">· {reflection.domain}</span>
+                )}
+              </div>
+              <span className="text-sm text-gray-500">
+                {reflection.date.toLocaleDateString()} · Satisfaction {reflection.satisfaction}/10
+              </span>
+            </div>
+
+            <dl className="space-y-2 text-sm">
+              {(['progress', 'challenges', 'insights', 'nextSteps'] as const)
+                .filter(field => reflection[field])
+                .map(field => (
+                  <div key={field}>
+                    <dt className="text-gray-500">{(reflection.domain ? DOMAIN_REVIEW_PROMPTS : REVIEW_PROMPTS[reflection.type])[field]}</dt>
+                    <dd className="text-gray-800 whitespace-pre-line">{reflection[field]}</dd>
+                  </div>
+                ))}
+            </dl>
+
+            {reflection.aiSummary && (
+              <div className="p-3 bg-indigo-50 rounded-md text-sm">
+                <p className="flex items-center gap-1 font-medium text-indigo-900">
+                  <Sparkles size={14} />
+                  Coaching feedback
+                </p>
+                <p className="mt-1 text-gray-800">{reflection.aiSummary}</p>
+                {reflection.recurringChallenges && reflection.recurringChallenges.length > 0 && (
+                  <p className="mt-1 text-gray-600">Keeps coming up: {reflection.recurringChallenges.join('; ')}</p>
+                )}
+              </div>
+            )}
+
+            {reflection.goalDecisions && reflection.goalDecisions.length > 0 && (
+              <div className="text-sm">
+                <p className="text-gray-500">Goal decisions</p>
+                <ul className="mt-1 space-y-0.5">
+                  {reflection.goalDecisions.map(({ goalId, title, decision }) => (
+                    <li key={goalId} className="text-gray-800">
+                      {title}: <span className="font-medium">{GOAL_DECISION_LABELS[decision]}</span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {reflection.domainAssessments && reflection.domainAssessments.length > 0 && (
+              <div className="text-sm">
+                <p className="text-gray-500">Life areas</p>
+                <ul className="mt-1 space-y-0.5">
+                  {reflection.domainAssessments.map(({ domain, rating, note }) => (
+                    <li key={domain} className="text-gray-800">
+                      <span className="capitalize">{domain}</span>: {rating}/10{note && ` — ${note}`}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </div>
+        ))
+      )}
+    </div>
+  );
+};
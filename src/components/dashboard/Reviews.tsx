@@ -0,0 +1,34 @@
+import { useState } from 'react';
+import { cn } from '../../lib/utils';
+import { REVIEW_TYPE_LABELS, REVIEW_TYPES, type ReviewType } from '../../lib/reviews';
+import { WeeklyReview } from './WeeklyReview';
+import { PeriodReview } from './PeriodReview';
+import { ReviewHistory } from './ReviewHistory';
+
+/** Weekly, monthly, quarterly and annual reviews plus the history of past ones. */
+export const Reviews = () => {
+  const [view, setView] = useState<ReviewType | 'history'>('weekly');
+
+  return (
+    <div className="space-y-6">
+      <div className="flex rounded-md border border-gray-300 overflow-hidden w-fit">
+        {[...REVIEW_TYPES, 'history' as const].map(id => (
+          <button
+            key={id}
+            onClick={() => setView(id)}
+            className={cn(
+              'px-3 py-1.5 text-sm',
+              view === id ? 'bg-gray-900 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'
+            )}
+          >
+            {id === 'history' ? 'History' : REVIEW_TYPE_LABELS[id]}
+          </button>
+        ))}
+      </div>
+
+      {view === 'weekly' && <WeeklyReview />}
+      {view === 'history' && <ReviewHistory />}
+      {view !== 'weekly' && view !== 'history' && <PeriodReview key={view} type={view} />}
+    </div>
+  );
+};
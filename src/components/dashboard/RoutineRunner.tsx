@@ -0,0 +1,117 @@
+import React, { useState } from 'react';
+import { Check, CheckCircle2, Circle, SkipForward, X } from 'lucide-react';
+import type { Routine, RoutineRun } from '../../types';
+import { cn } from '../../lib/utils';
+
+interface RoutineRunnerProps {
+  routine: Routine;
+  onFinish: (run: RoutineRun) => void;
+  onCancel: () => void;
+}
+
+type StepState = 'pending' | 'done' | 'skipped';
+
+/** Walks through a routine's steps as a checklist and reports the finished run. */
+export const RoutineRunner: React.FC<RoutineRunnerProps> = ({ routine, onFinish, onCancel }) => {
+  const [startedAt] = useState(() => new Date());
+  const [steps, setSteps] = useState<StepState[]>(() => routine.steps.map(() => 'pending'));
+  const [notes, setNotes] = useState('');
+
+  const currentIndex = steps.indexOf('pending');
+  const finishedCount = steps.filter(step => step !== 'pending').length;
+
+  const setStep = (index: number, state: StepState) => {
+    setSteps(prev => prev.map((step, i) => (i === index ? state : step)));
+  };
+
+  const handleFinish = () => {
+    // Steps never reached count as skipped
+    const skippedSteps = routine.steps.filter((_, i) => steps[i] !== 'done');
+    onFinish({
+      id: crypto.randomUUID(),
+      startedAt,
+      completedAt: new Date(),
+      skippedSteps,
+      ...(notes.trim() && { notes: notes.trim() })
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between text-sm text-gray-500">
+        <span>{finishedCount} of {routine.steps.length} steps</span>
+        <span>Started {startedAt.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}</span>
+      </div>
+
+      <div className="space-y-2">
+        {routine.steps.map((step, index) => (
+          <div
+            key={index}
+            className={cn(
+              'flex items-center gap-3 p-3 rounded-lg border',
+              index === currentIndex ? 'border-blue-300 bg-blue-50' : 'border-transparent bg-gray-50'
+            )}
+          >
+            <button
+              onClick={() => setStep(index, steps[index] === 'done' ? 'pending' : 'done')}
+              className={steps[index] === 'done' ? 'text-green-600' : 'text-gray-400 hover:text-green-600'}
+              title={steps[index] === 'done' ? 'Mark as not done' : 'Mark as done'}
+            >
+              {steps[index] === 'done' ? <CheckCircle2 size={22} /> : <Circle size={22} />}
+            </button>
+            <span
+              className={cn(
+                'flex-1',
+                steps[index] === 'done' && 'text-gray-500 line-through',
+                steps[index] === 'skipped' && 'text-gray-400 italic'
+              )}
+            >
+              {step}
+            </span>
+            {steps[index] === 'pending' ? (
+              <button
+                onClick={() => setStep(index, 'skipped')}
+                className="flex items-center gap-1 text-sm text-gray-500 hover:text-gray-700"
+              >
+                <SkipForward size={14} />
+                Skip
+              </button>
+            ) : steps[index] === 'skipped' && (
+              <button
+                onClick={() => setStep(index, 'pending')}
+                className="text-sm text-gray-500 hover:text-gray-700"
+              >
+                Undo skip
+              </button>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <textarea
+        value={notes}
+        onChange={(e) => setNotes(e.target.value)}
+        placeholder="Notes about this run (optional)"
+        rows={2}
+        className="w-full px-3 py-2 border border-gray-300 rounded-md"
+      />
+
+      <div className="flex gap-3">
+        <button
+          onClick={handleFinish}
+          className="flex items-center gap-2 px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700"
+        >
+          <Check size={16} />
+          {currentIndex === -1 ? 'Finish routine' : 'Finish early'}
+        </button>
+        <button
+          onClick={onCancel}
+          className="flex items-center gap-2 px-4 py-2 border border-gray-300 rounded-md hover:bg-gray-50"
+        >
+          <X size={16} />
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+};
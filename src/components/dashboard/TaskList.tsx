@@ -0,0 +1,178 @@
+import React, { useState } from 'react';
+import { CheckCircle2, Circle, Plus, Tag, Trash2 } from 'lucide-react';
+import { useAuth } from '../../contexts/AuthContext';
+import type { Goal, Task } from '../../types';
+import { cn } from '../../lib/utils';
+import { createTask, deleteTask, updateTask } from '../../lib/goalsRepository';
+import { FocusButton } from '../focus/FocusButton';
+import { compareTasks, isTaskOverdue, parseTags, TASK_PRIORITIES } from '../../lib/tasks';
+
+interface TaskListProps {
+  tasks: Task[];
+  /** Used to label each task with its goal in cross-goal lists. */
+  goals?: Goal[];
+  /** Goal new tasks are added to; new tasks are standalone without it. */
+  goalId?: string;
+  emptyMessage?: string;
+}
+
+const PRIORITY_STYLES: Record<Task['priority'], string> = {
+  high: 'bg-red-100 text-red-700',
+  medium: 'bg-yellow-100 text-yellow-800',
+  low: 'bg-gray-100 text-gray-600'
+};
+
+export const TaskList: React.FC<TaskListProps> = ({ tasks, goals, goalId, emptyMessage = 'No tasks yet' }) => {
+  const { user } = useAuth();
+  const [title, setTitle] = useState('');
+  const [dueDate, setDueDate] = useState('');
+  const [priority, setPriority] = useState<Task['priority']>('medium');
+  const [tags, setTags] = useState('');
+  const [estimatedMinutes, setEstimatedMinutes] = useState('');
+
+  const goalTitles = Object.fromEntries((goals ?? []).map(goal => [goal.id, goal.title]));
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user || !title.trim()) return;
+
+    try {
+      await createTask(user.uid, {
+        ...(goalId && { goalId }),
+        title: title.trim(),
+        ...(dueDate && { dueDate: new Date(`${dueDate}T00:00:00`) }),
+        completed: false,
+        priority,
+        tags: parseTags(tags),
+        ...(Number(estimatedMinutes) > 0 && { estimatedMinutes: Number(estimatedMinutes) })
+      });
+      setTitle('');
+      setDueDate('');
+      setTags('');
+      setEstimatedMinutes('');
+    } catch (error) {
+      console.error('Error adding task:', error);
+    }
+  };
+
+  const toggleTask = async (task: Task) => {
+    try {
+      await updateTask(task.id, {
+        completed: !task.completed,
+        completedDate: task.completed ? undefined : new Date()
+      });
+    } catch (error) {
+      console.error('Error updating task:', error);
+    }
+  };
+
+  const removeTask = async (task: Task) => {
+    try {
+      await deleteTask(task.id);
+    } catch (error) {
+      console.error('Error deleting task:', error);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <form onSubmit={handleAdd} className="flex flex-wrap gap-2">
+        <input
+          type="text"
+          value={title}
+          onChange={(e) => setTitle(e.target.value)}
+          placeholder="Add a task"
+          className="flex-1 min-w-[12rem] px-3 py-2 border border-gray-300 rounded-md"
+        />
+        <input
+          type="date"
+          value={dueDate}
+          onChange={(e) => setDueDate(e.target.value)}
+          className="px-3 py-2 border border-gray-300 rounded-md"
+        />
+        <select
+          value={priority}
+          onChange={(e) => setPriority(e.target.value as Task['priority'])}
+          className="px-3 py-2 border border-gray-300 rounded-md capitalize"
+        >
+          {TASK_PRIORITIES.map(option => (
+            <option key={option} value={option}>{option}</option>
+          ))}
+        </select>
+        <input
+          type="text"
+          value={tags}
+          onChange={(e) => setTags(e.target.value)}
+          placeholder="Tags, comma separated"
+          className="w-48 px-3 py-2 border border-gray-300 rounded-md"
+        />
+        <input
+          type="number"
+          min={5}
+          step={5}
+          value={estimatedMinutes}
+          onChange={(e) => setEstimatedMinutes(e.target.value)}
+          placeholder="Minutes"
+          className="w-28 px-3 py-2 border border-gray-300 rounded-md"
+        />
+        <button
+          type="submit"
+          disabled={!title.trim()}
+          className="flex items-center gap-1 px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+        >
+          <Plus size={16} />
+          Add
+        </button>
+      </form>
+
+      {tasks.length === 0 ? (
+        <p className="text-sm text-gray-500 text-center py-4">{emptyMessage}</p>
+      ) : (
+        [...tasks].sort(compareTasks).map(task => (
+          <div key={task.id} className="flex items-center gap-3 p-3 bg-gray-50 rounded-lg">
+            <button
+              onClick={() => toggleTask(task)}
+              className={task.completed ? 'text-green-600' : 'text-gray-400 hover:text-green-600'}
+            >
+              {task.completed ? <CheckCircle2 size={22} /> : <Circle size={22} />}
+            </button>
+            <div className="flex-1 min-w-0">
+              <p className={cn('font-medium', task.completed && 'text-gray-500 line-through')}>{task.title}</p>
+              <div className="flex flex-wrap items-center gap-2 text-xs text-gray-500">
+                {task.goalId && goalTitles[task.goalId] && <span>{goalTitles[task.goalId]}</span>}
+                {task.dueDate && (
+                  <span className={cn(isTaskOverdue(task) && 'text-red-600 font-medium')}>
+                    Due {task.dueDate.toLocaleDateString()}
+                  </span>
+                )}
+                {task.estimatedMinutes ? <span>{task.estimatedMinutes} min</span> : null}
+                {task.rolledOver ? (
+                  <span className="text-amber-700">
+                    Rolled over {task.rolledOver} {task.rolledOver === 1 ? 'time' : 'times'}
+                  </span>
+                ) : null}
+                {task.tags.map(tag => (
+                  <span key={tag} className="inline-flex items-center gap-0.5 text-blue-600">
+                    <Tag size={10} />
+                    {tag}
+                  </span>
+                ))}
+              </div>
+            </div>
+            {!task.completed && (
+              <FocusButton
+                target={{ targetKind: 'task', targetId: task.id, title: task.title, ...(task.goalId && { goalId: task.goalId }) }}
+              />
+            )}
+            <span className={cn('px-2 py-0.5 rounded-full text-xs capitalize', PRIORITY_STYLES[task.priority])}>
+              {task.priority}
+            </span>
+            <button onClick={() => removeTask(task)} className="text-gray-400 hover:text-red-600" title="Delete task">
+              <Trash2 size={16} />
+            </button>
+          </div>
+        ))
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,71 @@
+import { useEffect, useState } from 'react';
+import { RefreshCw } from 'lucide-react';
+import { useAuth } from '../../contexts/AuthContext';
+import type { Goal, Task } from '../../types';
+import { subscribeToGoals, subscribeToTasks } from '../../lib/goalsRepository';
+import { usePlanningSettings } from '../../hooks/usePlanningSettings';
+import { isTaskInWeek } from '../../lib/tasks';
+import { currentPlanningWeek, planningWeekRange, runWeeklyPlanner } from '../../lib/weeklyPlanner';
+import { TaskList } from './TaskList';
+
+/** Tasks for the current planning week across every goal, plus standalone ones. */
+export const ThisWeek = () => {
+  const { user } = useAuth();
+  const [goals, setGoals] = useState<Goal[]>([]);
+  const [tasks, setTasks] = useState<Task[]>([]);
+  const settings = usePlanningSettings();
+  const [planning, setPlanning] = useState(false);
+
+  useEffect(() => {
+    if (!user) return;
+
+    const unsubscribeGoals = subscribeToGoals(user.uid, setGoals, { status: 'active' });
+    const unsubscribeTasks = subscribeToTasks(user.uid, setTasks);
+    return () => {
+      unsubscribeGoals();
+      unsubscribeTasks();
+    };
+  }, [user]);
+
+  // Picks up weekly actions added since the week was planned
+  const handlePlanNow = async () => {
+    if (!user) return;
+
+    setPlanning(true);
+    try {
+      await runWeeklyPlanner(user.uid, { force: true });
+    } catch (error) {
+      console.error('Error planning week:', error);
+    } finally {
+      setPlanning(false);
+    }
+  };
+
+  const week = planningWeekRange(currentPlanningWeek(settings));
+  const weekTasks = tasks.filter(task => isTaskInWeek(task, week));
+  const done = weekTasks.filter(task => task.completed).length;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-semibold text-gray-900">This Week</h2>
+          <p className="text-sm text-gray-500">
+            {week.start.toLocaleDateString()} – {week.end.toLocaleDateString()} · {done} of {weekTasks.length} done
+          </p>
+        </div>
+        <button
+          onClick={handlePlanNow}
+          disabled={planning}
+          className="flex items-center gap-2 px-4 py-2 border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+          title="Add tasks for weekly actions that don't have one this week"
+        >
+          <RefreshCw size={16} className={planning ? 'animate-spin' : undefined} />
+          Plan now
+        </button>
+      </div>
+
+      <TaskList tasks={weekTasks} goals={goals} emptyMessage="Nothing planned for this week" />
+    </div>
+  );
+};
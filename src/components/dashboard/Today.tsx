@@ -0,0 +1,279 @@
+import { useEffect, useState } from 'react';
+import { CalendarClock, CheckCircle2, Circle, Flag, ListChecks, Moon, Repeat, Workflow } from 'lucide-react';
+import { useAuth } from '../../contexts/AuthContext';
+import { usePlanningSettings } from '../../hooks/usePlanningSettings';
+import type { Goal, Habit, Milestone, Routine, Task } from '../../types';
+import { cn } from '../../lib/utils';
+import { startOfDay } from '../../lib/dates';
+import { subscribeToGoals, subscribeToTasks, updateGoal, updateTask } from '../../lib/goalsRepository';
+import { replaceHabit, toggleHabitCompletion } from '../../lib/habits';
+import { completeRoutineRun } from '../../lib/routines';
+import { getDailyPlan, isRoutineDoneOn, summarizeDay, type DailyPlanSection } from '../../lib/dailyPlan';
+import { HabitCheckIn } from './HabitCheckIn';
+import { DaySchedule } from './DaySchedule';
+
+// From this hour the summary switches to a wrap-up of the day
+const EVENING_HOUR = 18;
+
+const SECTION_LABELS: Record<DailyPlanSection, string> = {
+  habits: 'Habits',
+  routines: 'Routines',
+  tasks: 'Tasks',
+  milestones: 'Milestones'
+};
+
+interface CheckRowProps {
+  title: string;
+  subtitle?: string;
+  done: boolean;
+  overdue: boolean;
+  onToggle?: () => void;
+}
+
+const CheckRow = ({ title, subtitle, done, overdue, onToggle }: CheckRowProps) => (
+  <div className="flex items-center gap-3 p-3 bg-gray-50 rounded-lg">
+    <button
+      onClick={onToggle}
+      disabled={!onToggle}
+      className={cn('flex-shrink-0', done ? 'text-green-600' : 'text-gray-400 hover:text-green-600')}
+      title={done ? 'Mark as not done' : 'Mark as done'}
+    >
+      {done ? <CheckCircle2 size={22} /> : <Circle size={22} />}
+    </button>
+    <div className="flex-1 min-w-0">
+      <p className={cn('font-medium', done && 'text-gray-500 line-through')}>{title}</p>
+      {subtitle && <p className="text-xs text-gray-500">{subtitle}</p>}
+    </div>
+    {overdue && !done && <span className="text-xs font-medium text-red-600">Overdue</span>}
+  </div>
+);
+
+/** Today's habits, due routines, tasks and milestones with inline check-off. */
+export const Today = () => {
+  const { user } = useAuth();
+  const settings = usePlanningSettings();
+  const [goals, setGoals] = useState<Goal[]>([]);
+  const [tasks, setTasks] = useState<Task[]>([]);
+  const [view, setView] = useState<'checklist' | 'schedule'>('checklist');
+
+  useEffect(() => {
+    if (!user) return;
+
+    const unsubscribeGoals = subscribeToGoals(user.uid, setGoals, { status: 'active' });
+    const unsubscribeTasks = subscribeToTasks(user.uid, setTasks);
+    return () => {
+      unsubscribeGoals();
+      unsubscribeTasks();
+    };
+  }, [user]);
+
+  const toggleHabit = async (goal: Goal, habit: Habit) => {
+    try {
+      await updateGoal(goal.id, { dailyHabits: replaceHabit(goal, toggleHabitCompletion(habit)) });
+    } catch (error) {
+      console.error('Error updating habit:', error);
+    }
+  };
+
+  // Checking off a routine here records a run with every step done
+  const completeRoutine = async (goal: Goal, routine: Routine) => {
+    const now = new Date();
+    try {
+      await updateGoal(goal.id, {
+        routines: goal.routines.map(r =>
+          r.id === routine.id
+            ? completeRoutineRun(r, { id: crypto.randomUUID(), startedAt: now, completedAt: now, skippedSteps: [] })
+            : r
+        )
+      });
+    } catch (error) {
+      console.error('Error completing routine:', error);
+    }
+  };
+
+  const toggleTask = async (task: Task) => {
+    try {
+      await updateTask(task.id, {
+        completed: !task.completed,
+        completedDate: task.completed ? undefined : new Date()
+      });
+    } catch (error) {
+      console.error('Error updating task:', error);
+    }
+  };
+
+  const toggleMilestone = async (goal: Goal, milestone: Milestone) => {
+    try {
+      await updateGoal(goal.id, {
+        milestones: goal.milestones.map(m =>
+          m.id === milestone.id
+            ? { ...m, completed: !m.completed, completedDate: m.completed ? undefined : new Date() }
+            : m
+        )
+      });
+    } catch (error) {
+      console.error('Error updating milestone:', error);
+    }
+  };
+
+  const now = new Date();
+  const today = startOfDay(now);
+  const plan = getDailyPlan(goals, tasks, now, settings.weekStartsOn);
+  const summary = summarizeDay(plan, now);
+  const goalTitles = Object.fromEntries(goals.map(goal => [goal.id, goal.title]));
+  const percentage = summary.total > 0 ? Math.round((summary.done / summary.total) * 100) : 0;
+  const wrapUp = summary.total > 0 && (summary.done === summary.total || now.getHours() >= EVENING_HOUR);
+  const isOverdue = (date: Date | undefined) => date !== undefined && startOfDay(date) < today;
+
+  const openItems = [
+    ...plan.routines.filter(({ routine }) => !isRoutineDoneOn(routine, now)).map(({ routine }) => routine.name),
+    ...plan.tasks.filter(task => !task.completed).map(task => task.title),
+    ...plan.milestones.filter(({ milestone }) => !milestone.completed).map(({ milestone }) => milestone.title)
+  ];
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <div className="flex items-center justify-between">
+          <h2 className="text-2xl font-semibold text-gray-900">Today</h2>
+          <div className="flex rounded-md border border-gray-300 overflow-hidden">
+            {([['checklist', ListChecks, 'Checklist'], ['schedule', CalendarClock, 'Schedule']] as const).map(([id, Icon, label]) => (
+              <button
+                key={id}
+                onClick={() => setView(id)}
+                className={cn(
+                  'flex items-center gap-1 px-3 py-1.5 text-sm',
+                  view === id ? 'bg-gray-900 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'
+                )}
+              >
+                <Icon size={14} />
+                {label}
+              </button>
+            ))}
+          </div>
+        </div>
+        <p className="text-sm text-gray-500">
+          {now.toLocaleDateString([], { weekday: 'long', month: 'long', day: 'numeric' })}
+          {summary.total > 0 && ` · ${summary.done} of ${summary.total} done`}
+        </p>
+        {summary.total > 0 && (
+          <div className="mt-3 w-full bg-gray-200 rounded-full h-2">
+            <div className="bg-green-600 h-2 rounded-full transition-all" style={{ width: `${percentage}%` }} />
+          </div>
+        )}
+      </div>
+
+      {view === 'schedule' && <DaySchedule plan={plan} />}
+
+      {view === 'checklist' && summary.total === 0 && (
+        <p className="text-sm text-gray-500 text-center py-8">Nothing due today</p>
+      )}
+
+      {view === 'checklist' && plan.habits.length > 0 && (
+        <section className="space-y-3">
+          <h3 className="flex items-center gap-2 text-lg font-medium text-gray-900">
+            <Repeat size={18} className="text-blue-600" />
+            Habits
+          </h3>
+          <div className="grid gap-3 md:grid-cols-2">
+            {plan.habits.map(({ goal, habit }) => (
+              <HabitCheckIn
+                key={`${goal.id}-${habit.id}`}
+                habit={habit}
+                subtitle={goal.title}
+                weekStartsOn={settings.weekStartsOn}
+                onToggle={() => toggleHabit(goal, habit)}
+              />
+            ))}
+          </div>
+        </section>
+      )}
+
+      {view === 'checklist' && plan.routines.length > 0 && (
+        <section className="space-y-3">
+          <h3 className="flex items-center gap-2 text-lg font-medium text-gray-900">
+            <Workflow size={18} className="text-purple-600" />
+            Routines
+          </h3>
+          {plan.routines.map(({ goal, routine }) => {
+            const done = isRoutineDoneOn(routine, now);
+            return (
+              <CheckRow
+                key={`${goal.id}-${routine.id}`}
+                title={routine.name}
+                subtitle={`${goal.title} · ${routine.steps.length} steps`}
+                done={done}
+                overdue={isOverdue(routine.nextDue)}
+                onToggle={done ? undefined : () => completeRoutine(goal, routine)}
+              />
+            );
+          })}
+        </section>
+      )}
+
+      {view === 'checklist' && plan.tasks.length > 0 && (
+        <section className="space-y-3">
+          <h3 className="flex items-center gap-2 text-lg font-medium text-gray-900">
+            <ListChecks size={18} className="text-green-600" />
+            Tasks
+          </h3>
+          {plan.tasks.map(task => (
+            <CheckRow
+              key={task.id}
+              title={task.title}
+              subtitle={task.goalId ? goalTitles[task.goalId] : undefined}
+              done={task.completed}
+              overdue={isOverdue(task.dueDate)}
+              onToggle={() => toggleTask(task)}
+            />
+          ))}
+        </section>
+      )}
+
+      {view === 'checklist' && plan.milestones.length > 0 && (
+        <section className="space-y-3">
+          <h3 className="flex items-center gap-2 text-lg font-medium text-gray-900">
+            <Flag size={18} className="text-amber-600" />
+            Milestones
+          </h3>
+          {plan.milestones.map(({ goal, milestone }) => (
+            <CheckRow
+              key={`${goal.id}-${milestone.id}`}
+              title={milestone.title}
+              subtitle={goal.title}
+              done={milestone.completed}
+              overdue={isOverdue(milestone.targetDate)}
+              onToggle={() => toggleMilestone(goal, milestone)}
+            />
+          ))}
+        </section>
+      )}
+
+      {view === 'checklist' && wrapUp && (
+        <section className="bg-indigo-50 border border-indigo-100 rounded-lg p-4 space-y-3">
+          <h3 className="flex items-center gap-2 text-lg font-medium text-indigo-900">
+            <Moon size={18} />
+            {summary.done === summary.total ? 'All done for today' : 'End of day'}
+          </h3>
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 text-center">
+            {(Object.keys(SECTION_LABELS) as DailyPlanSection[])
+              .filter(section => summary.sections[section].total > 0)
+              .map(section => (
+                <div key={section} className="bg-white rounded-md p-2">
+                  <p className="text-xs text-gray-500">{SECTION_LABELS[section]}</p>
+                  <p className="text-lg font-semibold text-gray-900">
+                    {summary.sections[section].done}/{summary.sections[section].total}
+                  </p>
+                </div>
+              ))}
+          </div>
+          {openItems.length > 0 && (
+            <p className="text-sm text-indigo-800">
+              Still open and carried into tomorrow: {openItems.join(', ')}
+            </p>
+          )}
+        </section>
+      )}
+    </div>
+  );
+};
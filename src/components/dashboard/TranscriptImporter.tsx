@@ -0,0 +1,183 @@
+import React, { useState } from 'react';
+import { AlertCircle, ArrowLeftRight, FileUp, Trash2 } from 'lucide-react';
+import type { ConversationMessage } from '../../types';
+import { cn } from '../../lib/utils';
+import {
+  assignSpeakerRole,
+  parseTranscript,
+  toConversationMessages,
+  TRANSCRIPT_FORMAT_LABELS,
+  type ParsedTranscript,
+  type SpeakerRole
+} from '../../lib/transcriptImport';
+
+interface TranscriptImporterProps {
+  isProcessing: boolean;
+  onImport: (messages: ConversationMessage[]) => void;
+  onCancel: () => void;
+}
+
+const ROLE_LABELS: Record<SpeakerRole, string> = {
+  assistant: 'Coach / AI',
+  user: 'Me'
+};
+
+export const TranscriptImporter: React.FC<TranscriptImporterProps> = ({ isProcessing, onImport, onCancel }) => {
+  const [transcript, setTranscript] = useState('');
+  const [preview, setPreview] = useState<ParsedTranscript | null>(null);
+
+  const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    try {
+      setTranscript(await file.text());
+    } catch (error) {
+      console.error('Error reading transcript file:', error);
+    }
+  };
+
+  const toggleTurnRole = (index: number) => {
+    if (!preview) return;
+    setPreview({
+      ...preview,
+      turns: preview.turns.map((turn, i) =>
+        i === index ? { ...turn, role: turn.role === 'user' ? 'assistant' : 'user' } : turn
+      )
+    });
+  };
+
+  const removeTurn = (index: number) => {
+    if (!preview) return;
+    setPreview({ ...preview, turns: preview.turns.filter((_, i) => i !== index) });
+  };
+
+  if (!preview) {
+    return (
+      <div className="flex-1 p-6 space-y-4 flex flex-col">
+        <div className="bg-blue-50 p-4 rounded-lg">
+          <p className="text-sm text-blue-700">
+            Paste a conversation or upload a file. Speaker labels like "Coach:" or "Me:", ChatGPT JSON exports,
+            WebVTT/SRT captions and plain notes are all recognized. You can check who said what before importing.
+          </p>
+        </div>
+        <textarea
+          value={transcript}
+          onChange={(e) => setTranscript(e.target.value)}
+          className="w-full flex-1 px-4 py-3 border border-gray-300 rounded-lg resize-none"
+          placeholder="Paste your conversation transcript here..."
+        />
+        <div className="flex gap-3">
+          <label className="flex items-center gap-2 px-4 py-2 border border-gray-300 rounded-md hover:bg-gray-50 cursor-pointer">
+            <FileUp size={16} />
+            Upload file
+            <input
+              type="file"
+              accept=".txt,.md,.json,.vtt,.srt"
+              onChange={handleFileUpload}
+              className="hidden"
+            />
+          </label>
+          <button
+            onClick={() => setPreview(parseTranscript(transcript))}
+            disabled={!transcript.trim()}
+            className="flex-1 bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700 disabled:opacity-50"
+          >
+            Preview
+          </button>
+          <button
+            onClick={onCancel}
+            className="flex-1 border border-gray-300 px-4 py-2 rounded-md hover:bg-gray-50"
+          >
+            Cancel
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  const speakers = Object.keys(preview.speakers).filter(Boolean);
+
+  return (
+    <div className="flex-1 p-6 space-y-4 flex flex-col min-h-0">
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-gray-600">
+          Detected <span className="font-medium">{TRANSCRIPT_FORMAT_LABELS[preview.format]}</span> with {preview.turns.length} turns
+        </p>
+        {speakers.length > 0 && (
+          <div className="flex items-center gap-3 text-sm">
+            {speakers.map(speaker => (
+              <label key={speaker} className="flex items-center gap-1">
+                <span className="font-medium">{speaker}</span>
+                <select
+                  value={preview.speakers[speaker]}
+                  onChange={(e) => setPreview(assignSpeakerRole(preview, speaker, e.target.value as SpeakerRole))}
+                  className="border border-gray-300 rounded px-1 py-0.5"
+                >
+                  <option value="assistant">{ROLE_LABELS.assistant}</option>
+                  <option value="user">{ROLE_LABELS.user}</option>
+                </select>
+              </label>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {preview.warnings.map((warning, index) => (
+        <div key={index} className="flex items-center gap-2 text-sm text-amber-700 bg-amber-50 p-2 rounded">
+          <AlertCircle size={16} />
+          {warning}
+        </div>
+      ))}
+
+      <div className="flex-1 overflow-y-auto space-y-2 border rounded-lg p-3 bg-gray-50">
+        {preview.turns.map((turn, index) => (
+          <div
+            key={index}
+            className={cn(
+              "flex items-start gap-2 p-3 rounded-lg text-sm",
+              turn.role === 'user' ? "bg-blue-100 ml-8" : "bg-white mr-8 border"
+            )}
+          >
+            <div className="flex-1 whitespace-pre-wrap">
+              <span className="block text-xs font-medium text-gray-500 mb-1">
+                {turn.speaker ? `${turn.speaker} · ` : ''}{ROLE_LABELS[turn.role]}
+              </span>
+              {turn.content}
+            </div>
+            <button
+              onClick={() => toggleTurnRole(index)}
+              className="p-1 text-gray-400 hover:text-blue-600"
+              title="Switch speaker"
+            >
+              <ArrowLeftRight size={14} />
+            </button>
+            <button
+              onClick={() => removeTurn(index)}
+              className="p-1 text-gray-400 hover:text-red-600"
+              title="Remove turn"
+            >
+              <Trash2 size={14} />
+            </button>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex gap-3">
+        <button
+          onClick={() => onImport(toConversationMessages(preview.turns))}
+          disabled={preview.turns.length === 0 || isProcessing}
+          className="flex-1 bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700 disabled:opacity-50"
+        >
+          {isProcessing ? 'Processing...' : `Import ${preview.turns.length} turns`}
+        </button>
+        <button
+          onClick={() => setPreview(null)}
+          className="flex-1 border border-gray-300 px-4 py-2 rounded-md hover:bg-gray-50"
+        >
+          Back
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -1,129 +1,300 @@
-import React, { useState } from 'react';
-import { db } from '../../lib/firebase';
-import { collection, addDoc } from 'firebase/firestore';
+import { useEffect, useState } from 'react';
 import { useAuth } from '../../contexts/AuthContext';
-import { CheckCircle2, XCircle, Lightbulb, ArrowRight } from 'lucide-react';
-import type { Reflection } from '../../types';
+import { ArrowLeft, ArrowRight, CheckCircle2, SkipForward, Sparkles } from 'lucide-react';
+import type { Goal } from '../../types';
+import { getUserProfile, listGoals, listReflections, saveReview, updateGoal, updateReflection } from '../../lib/goalsRepository';
+import { currentPlanningWeek, planningSettingsFor, planningWeekRange } from '../../lib/weeklyPlanner';
+import {
+  EMPTY_REFLECTION,
+  hasReflectionAnswers,
+  isOverallReview,
+  summarizeGoalForReview,
+  type ReflectionAnswers
+} from '../../lib/reviews';
+import {
+  applyGoalAdjustment,
+  buildReviewContext,
+  type GoalAdjustment,
+  type ReviewContext,
+  type ReviewFeedback
+} from '../../lib/reviewFeedback';
+import { generateReviewFeedback, LIMIT_REACHED_MESSAGE } from '../../lib/openai';
+import { classifyAIError } from '../../lib/aiErrors';
+import { GoalReviewSummary } from './GoalReviewSummary';
+import { ReflectionFields } from './ReflectionFields';
+import { ReviewFeedbackPanel } from './ReviewFeedbackPanel';
 
+/** A saved review the AI is asked to comment on. */
+interface FeedbackRequest {
+  reflectionId: string;
+  context: Omit<ReviewContext, 'pastReviews'>;
+}
+
+/**
+ * Guided review of the current planning week: one step per active goal with
+ * its milestones, metrics and habits, then an overall reflection.
+ */
 export const WeeklyReview = () => {
   const { user } = useAuth();
-  const [reflection, setReflection] = useState({
-    progress: '',
-    challenges: '',
-    insights: '',
-    nextSteps: '',
-    satisfaction: 5,
-  });
-
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
+  const [goals, setGoals] = useState<Goal[]>([]);
+  const [week, setWeek] = useState(() => currentPlanningWeek(planningSettingsFor()));
+  const [reviewedWeek, setReviewedWeek] = useState<string | undefined>();
+  const [loading, setLoading] = useState(true);
+  const [step, setStep] = useState(0);
+  const [goalAnswers, setGoalAnswers] = useState<Record<string, ReflectionAnswers>>({});
+  const [overall, setOverall] = useState<ReflectionAnswers>(EMPTY_REFLECTION);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+  const [wantsFeedback, setWantsFeedback] = useState(false);
+  const [feedbackRequest, setFeedbackRequest] = useState<FeedbackRequest | null>(null);
+  const [feedback, setFeedback] = useState<ReviewFeedback | null>(null);
+  const [feedbackLoading, setFeedbackLoading] = useState(false);
+  const [feedbackError, setFeedbackError] = useState('');
+  const [accepted, setAccepted] = useState<number[]>([]);
+
+  useEffect(() => {
+    const fetchData = async () => {
+      if (!user) return;
+
+      try {
+        const [profile, activeGoals] = await Promise.all([
+          getUserProfile(user.uid),
+          listGoals(user.uid, { status: 'active' })
+        ]);
+        setWeek(currentPlanningWeek(planningSettingsFor(profile?.planning)));
+        setReviewedWeek(profile?.reviews?.weekly);
+        setGoals(activeGoals);
+      } catch (error) {
+        console.error('Error fetching review data:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchData();
+  }, [user]);
+
+  // After a save, so a repeat review and accepted suggestions see the new reflections
+  const reloadGoals = async () => {
+    if (!user) return;
+
+    try {
+      setGoals(await listGoals(user.uid, { status: 'active' }));
+    } catch (error) {
+      console.error('Error fetching goals:', error);
+    }
+  };
+
+  const range = planningWeekRange(week);
+  const overallStep = goals.length + 1;
+  const goal = step > 0 && step < overallStep ? goals[step - 1] : null;
+
+  const requestFeedback = async (request: FeedbackRequest) => {
+    if (!user) return;
+
+    setFeedbackRequest(request);
+    setFeedback(null);
+    setAccepted([]);
+    setFeedbackError('');
+    setFeedbackLoading(true);
+    try {
+      const pastReviews = (await listReflections(user.uid))
+        .filter(reflection =>
+          reflection.type === 'weekly' && isOverallReview(reflection) && reflection.id !== request.reflectionId
+        );
+      const result = await generateReviewFeedback(
+        buildReviewContext({ ...request.context, pastReviews }),
+        request.context.goals
+      );
+      if (!result) {
+        setFeedbackError(LIMIT_REACHED_MESSAGE);
+        return;
+      }
+      setFeedback(result);
+      updateReflection(request.reflectionId, {
+        aiSummary: result.summary,
+        recurringChallenges: result.recurringChallenges
+      }).catch(error => console.error('Error saving review feedback:', error));
+    } catch (error) {
+      console.error('Error getting review feedback:', error);
+      setFeedbackError(classifyAIError(error).message);
+    } finally {
+      setFeedbackLoading(false);
+    }
+  };
+
+  const acceptSuggestion = async (adjustment: GoalAdjustment, index: number) => {
+    const target = goals.find(g => g.id === adjustment.goalId);
+    if (!target) return;
+
+    try {
+      const updates = applyGoalAdjustment(target, adjustment);
+      await updateGoal(target.id, updates);
+      setGoals(prev => prev.map(g => (g.id === target.id ? { ...g, ...updates } : g)));
+      setAccepted(prev => [...prev, index]);
+    } catch (error) {
+      console.error('Error applying suggestion:', error);
+    }
+  };
+
+  const handleSubmit = async () => {
     if (!user) return;
 
+    setSaving(true);
+    setError('');
+    const date = new Date();
+    const base = { userId: user.uid, date, type: 'weekly' as const, period: week };
+
     try {
-      const newReflection: Omit<Reflection, 'id'> = {
-        ...reflection,
-        userId: user.uid, // Add userId to the reflection
-        date: new Date(),
+      const reflectionId = await saveReview(user.uid, {
         type: 'weekly',
-      };
-
-      await addDoc(collection(db, 'reflections'), newReflection);
-      
-      setReflection({
-        progress: '',
-        challenges: '',
-        insights: '',
-        nextSteps: '',
-        satisfaction: 5,
+        period: week,
+        overall: { ...base, ...overall },
+        goalReflections: goals
+          .filter(g => goalAnswers[g.id] && hasReflectionAnswers(goalAnswers[g.id]))
+          .map(g => ({ goal: g, reflection: { ...base, id: crypto.randomUUID(), ...goalAnswers[g.id] } }))
       });
+      if (wantsFeedback) {
+        requestFeedback({ reflectionId, context: { range, overall, goals, goalAnswers } });
+      }
+      setReviewedWeek(week);
+      setStep(0);
+      setGoalAnswers({});
+      setOverall(EMPTY_REFLECTION);
+      reloadGoals();
     } catch (error) {
-      console.error('Error saving reflection:', error);
+      console.error('Error saving review:', error);
+      setError('Could not save your review. Please try again.');
+    } finally {
+      setSaving(false);
     }
   };
 
+  if (loading) {
+    return <div>Loading...</div>;
+  }
+
+  const weekLabel = `${range.start.toLocaleDateString()} – ${range.end.toLocaleDateString()}`;
+
   return (
     <div className="space-y-6">
-      <h2 className="text-2xl font-semibold text-gray-900">Weekly Review</h2>
-      
-      <form onSubmit={handleSubmit} className="space-y-6">
+      <div className="flex items-center justify-between">
         <div>
-          <label className="flex items-center gap-2 text-sm font-medium text-gray-700 mb-2">
-            <CheckCircle2 className="text-green-500" size={16} />
-            What progress did you make this week?
-          </label>
-          <textarea
-            value={reflection.progress}
-            onChange={(e) => setReflection(prev => ({ ...prev, progress: e.target.value }))}
-            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
-            rows={3}
-          />
+          <h2 className="text-2xl font-semibold text-gray-900">Weekly Review</h2>
+          <p className="text-sm text-gray-500">{weekLabel}</p>
         </div>
+        {step > 0 && (
+          <span className="text-sm text-gray-500">Step {step} of {overallStep}</span>
+        )}
+      </div>
 
-        <div>
-          <label className="flex items-center gap-2 text-sm font-medium text-gray-700 mb-2">
-            <XCircle className="text-red-500" size={16} />
-            What challenges did you face?
-          </label>
-          <textarea
-            value={reflection.challenges}
-            onChange={(e) => setReflection(prev => ({ ...prev, challenges: e.target.value }))}
-            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
-            rows={3}
-          />
+      {step === 0 && (
+        <div className="space-y-4">
+          {reviewedWeek === week && (
+            <div className="flex items-center gap-2 p-4 bg-green-50 border border-green-200 rounded-lg text-green-800">
+              <CheckCircle2 size={20} />
+              You've completed this week's review.
+            </div>
+          )}
+          {feedbackRequest && (
+            <ReviewFeedbackPanel
+              feedback={feedback}
+              goals={goals}
+              loading={feedbackLoading}
+              error={feedbackError}
+              accepted={accepted}
+              onAccept={acceptSuggestion}
+              onRetry={() => requestFeedback(feedbackRequest)}
+            />
+          )}
+          <p className="text-gray-600">
+            {goals.length > 0
+              ? `Walk through your ${goals.length} active ${goals.length === 1 ? 'goal' : 'goals'}, note how each went, then reflect on the week as a whole.`
+              : 'You have no active goals, so this review is just a reflection on the week.'}
+          </p>
+          <button
+            onClick={() => setStep(goals.length > 0 ? 1 : overallStep)}
+            className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700"
+          >
+            {reviewedWeek === week ? 'Review again' : 'Start review'}
+            <ArrowRight size={16} />
+          </button>
         </div>
+      )}
 
-        <div>
-          <label className="flex items-center gap-2 text-sm font-medium text-gray-700 mb-2">
-            <Lightbulb className="text-yellow-500" size={16} />
-            What insights or lessons did you learn?
-          </label>
-          <textarea
-            value={reflection.insights}
-            onChange={(e) => setReflection(prev => ({ ...prev, insights: e.target.value }))}
-            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
-            rows={3}
+      {goal && (
+        <div className="space-y-6">
+          <div>
+            <h3 className="text-xl font-semibold text-gray-900">{goal.title}</h3>
+            <p className="text-sm text-gray-500 capitalize">{goal.domain}</p>
+          </div>
+          <GoalReviewSummary summary={summarizeGoalForReview(goal, range)} />
+          <ReflectionFields
+            value={goalAnswers[goal.id] ?? EMPTY_REFLECTION}
+            onChange={(answers) => setGoalAnswers(prev => ({ ...prev, [goal.id]: answers }))}
           />
         </div>
+      )}
 
-        <div>
-          <label className="flex items-center gap-2 text-sm font-medium text-gray-700 mb-2">
-            <ArrowRight className="text-blue-500" size={16} />
-            What are your next steps?
+      {step === overallStep && (
+        <div className="space-y-6">
+          <h3 className="text-xl font-semibold text-gray-900">The week overall</h3>
+          <ReflectionFields value={overall} onChange={setOverall} />
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={wantsFeedback}
+              onChange={(e) => setWantsFeedback(e.target.checked)}
+              className="rounded border-gray-300"
+            />
+            <Sparkles size={16} className="text-indigo-600" />
+            Get AI feedback and suggested goal adjustments after saving
           </label>
-          <textarea
-            value={reflection.nextSteps}
-            onChange={(e) => setReflection(prev => ({ ...prev, nextSteps: e.target.value }))}
-            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
-            rows={3}
-          />
+          {error && <p className="text-sm text-red-600">{error}</p>}
         </div>
+      )}
 
-        <div>
-          <label className="block text-sm font-medium text-gray-700 mb-2">
-            Overall satisfaction (1-10)
-          </label>
-          <input
-            type="range"
-            min="1"
-            max="10"
-            value={reflection.satisfaction}
-            onChange={(e) => setReflection(prev => ({ ...prev, satisfaction: parseInt(e.target.value) }))}
-            className="w-full"
-          />
-          <div className="flex justify-between text-sm text-gray-500">
-            <span>1</span>
-            <span>{reflection.satisfaction}</span>
-            <span>10</span>
-          </div>
+      {step > 0 && (
+        <div className="flex items-center justify-between">
+          <button
+            onClick={() => setStep(step - 1)}
+            className="flex items-center gap-2 px-4 py-2 border border-gray-300 rounded-md hover:bg-gray-50"
+          >
+            <ArrowLeft size={16} />
+            Back
+          </button>
+          {step < overallStep ? (
+            <div className="flex gap-2">
+              <button
+                onClick={() => {
+                  setGoalAnswers(prev => ({ ...prev, [goals[step - 1].id]: EMPTY_REFLECTION }));
+                  setStep(step + 1);
+                }}
+                className="flex items-center gap-2 px-4 py-2 text-gray-600 hover:text-gray-900"
+              >
+                <SkipForward size={16} />
+                Skip goal
+              </button>
+              <button
+                onClick={() => setStep(step + 1)}
+                className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700"
+              >
+                Next
+                <ArrowRight size={16} />
+              </button>
+            </div>
+          ) : (
+            <button
+              onClick={handleSubmit}
+              disabled={saving}
+              className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+            >
+              <CheckCircle2 size={16} />
+              {saving ? 'Saving...' : 'Complete review'}
+            </button>
+          )}
         </div>
-
-        <button
-          type="submit"
-          className="w-full flex items-center justify-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700"
-        >
-          Save Weekly Review
-        </button>
-      </form>
+      )}
     </div>
   );
-};
\ No newline at end of file
+};
@@ -0,0 +1,36 @@
+import React from 'react';
+import { Timer } from 'lucide-react';
+import { useFocusTimer } from '../../contexts/useFocusTimer';
+import { cn } from '../../lib/utils';
+import type { FocusTarget } from '../../lib/focusTimer';
+
+interface FocusButtonProps {
+  target: FocusTarget;
+  /** Shows "Focus" next to the icon. */
+  label?: boolean;
+  className?: string;
+}
+
+/** Starts a focus session on a goal, task or routine. */
+export const FocusButton: React.FC<FocusButtonProps> = ({ target, label = false, className }) => {
+  const { session, start } = useFocusTimer();
+  const active = session?.target.targetKind === target.targetKind && session.target.targetId === target.targetId;
+
+  return (
+    <button
+      onClick={(e) => {
+        e.stopPropagation();
+        if (!active) start(target);
+      }}
+      className={cn(
+        'flex items-center gap-1',
+        active ? 'text-red-600' : 'text-gray-400 hover:text-red-600',
+        className
+      )}
+      title={active ? 'Focus session running' : `Focus on "${target.title}"`}
+    >
+      <Timer size={label ? 16 : 18} />
+      {label && <span className="text-sm">{active ? 'Focusing' : 'Focus'}</span>}
+    </button>
+  );
+};
@@ -0,0 +1,64 @@
+import React from 'react';
+import { Pause, Play, SkipForward, Square, Timer } from 'lucide-react';
+import { useFocusTimer } from '../../contexts/useFocusTimer';
+import { cn } from '../../lib/utils';
+import { FOCUS_PHASE_LABELS, isFocusPaused } from '../../lib/focusTimer';
+
+const formatCountdown = (ms: number) => {
+  const seconds = Math.ceil(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+/** Floating controls for the running focus session. */
+export const FocusTimer: React.FC = () => {
+  const { session, remainingMs, pause, resume, skip, stop } = useFocusTimer();
+  if (!session) return null;
+
+  const paused = isFocusPaused(session);
+  const working = session.phase === 'work';
+
+  return (
+    <div
+      className={cn(
+        'fixed bottom-6 right-6 z-40 w-72 rounded-lg shadow-lg border p-4 bg-white',
+        working ? 'border-red-200' : 'border-green-200'
+      )}
+    >
+      <div className="flex items-center justify-between text-xs">
+        <span className={cn('flex items-center gap-1 font-medium', working ? 'text-red-600' : 'text-green-600')}>
+          <Timer size={14} />
+          {FOCUS_PHASE_LABELS[session.phase]}
+          {paused && ' · paused'}
+        </span>
+        <span className="text-gray-500">{session.completedPomodoros} done</span>
+      </div>
+      <p className="mt-1 text-sm text-gray-700 truncate" title={session.target.title}>{session.target.title}</p>
+      <div className="mt-2 flex items-center justify-between">
+        <span className="text-3xl font-semibold tabular-nums text-gray-900">{formatCountdown(remainingMs)}</span>
+        <div className="flex items-center gap-1">
+          <button
+            onClick={paused ? resume : pause}
+            className="p-2 text-gray-600 hover:text-gray-900 rounded-full hover:bg-gray-100"
+            title={paused ? 'Resume' : 'Pause'}
+          >
+            {paused ? <Play size={18} /> : <Pause size={18} />}
+          </button>
+          <button
+            onClick={skip}
+            className="p-2 text-gray-600 hover:text-gray-900 rounded-full hover:bg-gray-100"
+            title={working ? 'Start break now' : 'Skip break'}
+          >
+            <SkipForward size={18} />
+          </button>
+          <button
+            onClick={stop}
+            className="p-2 text-gray-600 hover:text-red-600 rounded-full hover:bg-gray-100"
+            title="Stop and log time"
+          >
+            <Square size={18} />
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,11 +1,14 @@
 import React from 'react';
-import { useNavigate } from 'react-router-dom';
+import { Link, useNavigate } from 'react-router-dom';
 import { auth } from '../../lib/firebase';
-import { Brain, LogOut } from 'lucide-react';
+import { BookOpen, Brain, LogOut, Settings } from 'lucide-react';
 import { NotificationBell } from '../notifications/NotificationBell';
+import { useWeeklyPlanner } from '../../hooks/useWeeklyPlanner';
+import { FocusTimer } from '../focus/FocusTimer';
 
 export const Layout: React.FC<{ children: React.ReactNode }> = ({ children }) => {
   const navigate = useNavigate();
+  useWeeklyPlanner();
 
   const handleSignOut = async () => {
     try {
@@ -27,6 +30,20 @@ export const Layout: React.FC<{ children: React.ReactNode }> = ({ children }) =>
             </div>
             <div className="flex items-center gap-4">
               <NotificationBell />
+              <Link
+                to="/reflections"
+                className="flex items-center gap-2 text-gray-600 hover:text-gray-900"
+              >
+                <BookOpen size={20} />
+                Reflections
+              </Link>
+              <Link
+                to="/settings"
+                className="flex items-center gap-2 text-gray-600 hover:text-gray-900"
+              >
+                <Settings size={20} />
+                Settings
+              </Link>
               <button
                 onClick={handleSignOut}
                 className="flex items-center gap-2 text-gray-600 hover:text-gray-900"
@@ -39,6 +56,7 @@ export const Layout: React.FC<{ children: React.ReactNode }> = ({ children }) =>
         </div>
       </nav>
       <main>{children}</main>
+      <FocusTimer />
     </div>
   );
 };
\ No newline at end of file
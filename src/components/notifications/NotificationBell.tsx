@@ -1,98 +1,17 @@
-import React, { useEffect, useState } from 'react';
-import { Bell } from 'lucide-react';
-import { useAuth } from '../../contexts/AuthContext';
-import { db } from '../../lib/firebase';
-import { collection, query, where, getDocs } from 'firebase/firestore';
-import type { Goal } from '../../types';
-
-interface Notification {
-  id: string;
-  type: 'milestone' | 'review' | 'goal';
-  title: string;
-  message: string;
-  date: Date;
-  read: boolean;
-}
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Bell, CheckCheck, Clock, X } from 'lucide-react';
+import { useNotifications } from '../../hooks/useNotifications';
+import { isNotificationActive, SNOOZE_PRESETS } from '../../lib/notifications';
 
 export const NotificationBell: React.FC = () => {
-  const { user } = useAuth();
-  const [notifications, setNotifications] = useState<Notification[]>([]);
+  const { notifications, now, markRead, dismiss, snooze } = useNotifications();
   const [showNotifications, setShowNotifications] = useState(false);
+  const [snoozing, setSnoozing] = useState<string | null>(null);
 
-  useEffect(() => {
-    const checkNotifications = async () => {
-      if (!user) return;
-
-      const newNotifications: Notification[] = [];
-      const now = new Date();
-      const weekFromNow = new Date(now.getTime() + 7 * 24 * 60 * 60 * 1000);
-
-      // Fetch goals
-      const goalsQuery = query(
-        collection(db, 'goals'),
-        where('userId', '==', user.uid),
-        where('status', '==', 'active')
-      );
-
-      const goalsSnapshot = await getDocs(goalsQuery);
-      const goals = goalsSnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() }) as Goal);
-
-      // Check upcoming milestones
-      goals.forEach(goal => {
-        goal.milestones
-          .filter(m => !m.completed && new Date(m.targetDate) <= weekFromNow)
-          .forEach(milestone => {
-            newNotifications.push({
-              id: `milestone-${milestone.id}`,
-              type: 'milestone',
-              title: 'Upcoming Milestone',
-              message: `"${milestone.title}" for goal "${goal.title}" is due on ${new Date(milestone.targetDate).toLocaleDateString()}`,
-              date: new Date(milestone.targetDate),
-              read: false,
-            });
-          });
-      });
-
-      // Check for goals without recent reviews
-      goals.forEach(goal => {
-        const lastReflection = goal.reflections[goal.reflections.length - 1];
-        const lastReviewTime = lastReflection ? new Date(lastReflection.date).getTime() : 0;
-        if (!lastReflection || lastReviewTime + 7 * 24 * 60 * 60 * 1000 < now.getTime()) {
-          newNotifications.push({
-            id: `review-${goal.id}`,
-            type: 'review',
-            title: 'Review Needed',
-            message: `It's time for a weekly review of your goal "${goal.title}"`,
-            date: now,
-            read: false,
-          });
-        }
-      });
-
-      // Check goals near target date
-      goals.forEach(goal => {
-        if (goal.targetDate && new Date(goal.targetDate) <= weekFromNow) {
-          newNotifications.push({
-            id: `goal-${goal.id}`,
-            type: 'goal',
-            title: 'Goal Deadline Approaching',
-            message: `Your goal "${goal.title}" is due on ${new Date(goal.targetDate).toLocaleDateString()}`,
-            date: new Date(goal.targetDate),
-            read: false,
-          });
-        }
-      });
-
-      setNotifications(newNotifications.sort((a, b) => b.date.getTime() - a.date.getTime()));
-    };
-
-    checkNotifications();
-    const interval = setInterval(checkNotifications, 60000); // Check every minute
-
-    return () => clearInterval(interval);
-  }, [user]);
-
-  const unreadCount = notifications.filter(n => !n.read).length;
+  const active = notifications.filter(n => isNotificationActive(n, now));
+  const unread = active.filter(n => !n.readAt);
+  const unreadCount = unread.length;
 
   return (
     <div className="relative">
@@ -110,25 +29,74 @@ export const NotificationBell: React.FC = () => {
 
       {showNotifications && (
         <div className="absolute right-0 mt-2 w-80 bg-white rounded-lg shadow-lg z-50">
-          <div className="p-4 border-b">
+          <div className="flex items-center justify-between p-4 border-b">
             <h3 className="text-lg font-semibold">Notifications</h3>
+            {unreadCount > 0 && (
+              <button
+                onClick={() => markRead(unread.map(n => n.id))}
+                className="flex items-center gap-1 text-sm text-blue-600 hover:text-blue-800"
+              >
+                <CheckCheck size={14} />
+                Mark all read
+              </button>
+            )}
           </div>
           <div className="max-h-96 overflow-y-auto">
-            {notifications.length > 0 ? (
-              notifications.map(notification => (
+            {active.length > 0 ? (
+              active.map(notification => (
                 <div
                   key={notification.id}
-                  className={`p-4 border-b hover:bg-gray-50 ${
-                    !notification.read ? 'bg-blue-50' : ''
+                  onClick={() => !notification.readAt && markRead([notification.id])}
+                  className={`p-4 border-b hover:bg-gray-50 cursor-pointer ${
+                    !notification.readAt ? 'bg-blue-50' : ''
                   }`}
                 >
-                  <div className="flex justify-between items-start">
+                  <div className="flex justify-between items-start gap-2">
                     <h4 className="text-sm font-medium">{notification.title}</h4>
-                    <span className="text-xs text-gray-500">
-                      {new Date(notification.date).toLocaleDateString()}
-                    </span>
+                    <div className="flex items-center gap-1 flex-shrink-0">
+                      <span className="text-xs text-gray-500">
+                        {notification.date.toLocaleDateString()}
+                      </span>
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          setSnoozing(snoozing === notification.id ? null : notification.id);
+                        }}
+                        className="p-1 text-gray-400 hover:text-gray-700"
+                        title="Snooze"
+                      >
+                        <Clock size={14} />
+                      </button>
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          dismiss(notification.id);
+                        }}
+                        className="p-1 text-gray-400 hover:text-gray-700"
+                        title="Dismiss"
+                      >
+                        <X size={14} />
+                      </button>
+                    </div>
                   </div>
                   <p className="mt-1 text-sm text-gray-600">{notification.message}</p>
+                  {snoozing === notification.id && (
+                    <div className="mt-2 flex gap-2">
+                      {SNOOZE_PRESETS.map(preset => (
+                        <button
+                          key={preset.id}
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            snooze(notification.id, preset.until(new Date()));
+                            setSnoozing(null);
+                          }}
+                          className="px-2 py-1 text-xs bg-gray-100 text-gray-700 rounded-md hover:bg-gray-200"
+                        >
+                          {preset.label}
+                        </button>
+                      ))}
+                    </div>
+                  )}
                 </div>
               ))
             ) : (
@@ -137,8 +105,15 @@ export const NotificationBell: React.FC = () => {
               </div>
             )}
           </div>
+          <Link
+            to="/notifications"
+            onClick={() => setShowNotifications(false)}
+            className="block p-3 text-center text-sm text-blue-600 hover:text-blue-800 border-t"
+          >
+            View all
+          </Link>
         </div>
       )}
     </div>
   );
-};
\ No newline at end of file
+};
@@ -0,0 +1,142 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { ArrowLeft, Bell, CheckCheck, Mail, MailOpen, RotateCcw, X } from 'lucide-react';
+import { Layout } from '../layout/Layout';
+import { cn } from '../../lib/utils';
+import { useNotifications } from '../../hooks/useNotifications';
+import {
+  isNotificationSnoozed,
+  NOTIFICATION_VIEWS,
+  SNOOZE_PRESETS,
+  type NotificationView
+} from '../../lib/notifications';
+import type { UserNotification } from '../../types';
+
+const statusChips = (notification: UserNotification, now: Date) => [
+  ...(notification.resolvedAt ? [{ label: 'Resolved', className: 'bg-green-100 text-green-800' }] : []),
+  ...(notification.dismissedAt ? [{ label: 'Dismissed', className: 'bg-gray-100 text-gray-700' }] : []),
+  ...(isNotificationSnoozed(notification, now)
+    ? [{ label: `Snoozed until ${notification.snoozedUntil!.toLocaleString()}`, className: 'bg-yellow-100 text-yellow-800' }]
+    : [])
+];
+
+/** Every stored notification, including dismissed and resolved ones, with read, snooze and dismiss controls. */
+export const NotificationCenter = () => {
+  const { notifications, now, markRead, markUnread, dismiss, restore, snooze } = useNotifications();
+  const [view, setView] = useState<NotificationView>('inbox');
+
+  const { matches } = NOTIFICATION_VIEWS.find(v => v.id === view)!;
+  const visible = notifications.filter(n => matches(n, now));
+  const unread = visible.filter(n => !n.readAt);
+
+  return (
+    <Layout>
+      <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        <Link to="/" className="inline-flex items-center gap-2 text-gray-600 hover:text-gray-900">
+          <ArrowLeft size={16} />
+          Back to dashboard
+        </Link>
+
+        <div className="bg-white rounded-lg shadow-sm p-6 space-y-4">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-2">
+              <Bell className="text-blue-600" size={24} />
+              <h2 className="text-2xl font-semibold text-gray-900">Notifications</h2>
+            </div>
+            <button
+              onClick={() => markRead(unread.map(n => n.id))}
+              disabled={unread.length === 0}
+              className="flex items-center gap-1 text-sm text-blue-600 hover:text-blue-800 disabled:text-gray-400"
+            >
+              <CheckCheck size={16} />
+              Mark all read
+            </button>
+          </div>
+
+          <div className="flex rounded-md border border-gray-300 overflow-hidden w-fit">
+            {NOTIFICATION_VIEWS.map(({ id, label }) => (
+              <button
+                key={id}
+                onClick={() => setView(id)}
+                className={cn(
+                  'px-3 py-1.5 text-sm',
+                  view === id ? 'bg-gray-900 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'
+                )}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+
+          {visible.length === 0 ? (
+            <p className="text-gray-500">No notifications here.</p>
+          ) : (
+            <div className="divide-y border rounded-md">
+              {visible.map(notification => (
+                <div
+                  key={notification.id}
+                  className={cn('p-4 flex items-start justify-between gap-4', !notification.readAt && 'bg-blue-50')}
+                >
+                  <div className="space-y-1">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <h3 className="text-sm font-medium text-gray-900">{notification.title}</h3>
+                      <span className="text-xs text-gray-500">{notification.date.toLocaleDateString()}</span>
+                      {statusChips(notification, now).map(chip => (
+                        <span key={chip.label} className={cn('px-2 py-0.5 text-xs font-medium rounded-full', chip.className)}>
+                          {chip.label}
+                        </span>
+                      ))}
+                    </div>
+                    <p className="text-sm text-gray-600">{notification.message}</p>
+                  </div>
+
+                  <div className="flex items-center gap-2 flex-shrink-0">
+                    <button
+                      onClick={() => (notification.readAt ? markUnread(notification.id) : markRead([notification.id]))}
+                      className="p-1 text-gray-400 hover:text-gray-700"
+                      title={notification.readAt ? 'Mark unread' : 'Mark read'}
+                    >
+                      {notification.readAt ? <Mail size={16} /> : <MailOpen size={16} />}
+                    </button>
+                    {!notification.dismissedAt && !notification.resolvedAt && (
+                      <select
+                        value=""
+                        onChange={(e) => {
+                          const preset = SNOOZE_PRESETS.find(p => p.id === e.target.value);
+                          if (preset) snooze(notification.id, preset.until(new Date()));
+                        }}
+                        className="px-2 py-1 text-sm border border-gray-300 rounded-md"
+                      >
+                        <option value="">Snooze...</option>
+                        {SNOOZE_PRESETS.map(preset => (
+                          <option key={preset.id} value={preset.id}>{preset.label}</option>
+                        ))}
+                      </select>
+                    )}
+                    {notification.dismissedAt || isNotificationSnoozed(notification, now) ? (
+                      <button
+                        onClick={() => restore(notification.id)}
+                        className="flex items-center gap-1 text-sm text-blue-600 hover:text-blue-800"
+                      >
+                        <RotateCcw size={14} />
+                        Restore
+                      </button>
+                    ) : (
+                      <button
+                        onClick={() => dismiss(notification.id)}
+                        className="p-1 text-gray-400 hover:text-gray-700"
+                        title="Dismiss"
+                      >
+                        <X size={16} />
+                      </button>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </Layout>
+  );
+};
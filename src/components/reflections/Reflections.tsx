@@ -0,0 +1,178 @@
+import { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { ArrowLeft, BookOpen, Search, TrendingUp } from 'lucide-react';
+import { Layout } from '../layout/Layout';
+import { useAuth } from '../../contexts/AuthContext';
+import type { Goal, Reflection } from '../../types';
+import { listGoals, listReflections } from '../../lib/goalsRepository';
+import { GOAL_DOMAINS } from '../../lib/goalValidation';
+import { REVIEW_TYPE_LABELS, REVIEW_TYPES, type ReviewType } from '../../lib/reviews';
+import {
+  collectReflections,
+  EMPTY_REFLECTION_FILTERS,
+  filterReflections,
+  type ReflectionFilters
+} from '../../lib/reflectionHistory';
+import { SatisfactionTrend } from './SatisfactionTrend';
+
+const ANSWER_LABELS = {
+  progress: 'Progress',
+  challenges: 'Challenges',
+  insights: 'Insights',
+  nextSteps: 'Next steps'
+} as const;
+
+const inputClass = 'px-3 py-2 border border-gray-300 rounded-md';
+
+/** Every reflection across goals and reviews, searchable, with the satisfaction trend. */
+export const Reflections = () => {
+  const { user } = useAuth();
+  const [goals, setGoals] = useState<Goal[]>([]);
+  const [reflections, setReflections] = useState<Reflection[]>([]);
+  const [filters, setFilters] = useState<ReflectionFilters>(EMPTY_REFLECTION_FILTERS);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchData = async () => {
+      if (!user) return;
+
+      try {
+        const [allGoals, allReflections] = await Promise.all([listGoals(user.uid), listReflections(user.uid)]);
+        setGoals(allGoals);
+        setReflections(allReflections);
+      } catch (error) {
+        console.error('Error fetching reflections:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchData();
+  }, [user]);
+
+  const update = (changes: Partial<ReflectionFilters>) => setFilters(prev => ({ ...prev, ...changes }));
+  const entries = filterReflections(collectReflections(reflections, goals), filters);
+  const isFiltered = JSON.stringify(filters) !== JSON.stringify(EMPTY_REFLECTION_FILTERS);
+
+  return (
+    <Layout>
+      <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        <Link to="/" className="inline-flex items-center gap-2 text-gray-600 hover:text-gray-900">
+          <ArrowLeft size={16} />
+          Back to dashboard
+        </Link>
+
+        <div className="bg-white rounded-lg shadow-sm p-6 space-y-4">
+          <div className="flex items-center gap-2">
+            <BookOpen className="text-blue-600" size={24} />
+            <h2 className="text-2xl font-semibold text-gray-900">Reflections</h2>
+          </div>
+
+          <div className="relative">
+            <Search size={16} className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400" />
+            <input
+              type="text"
+              value={filters.search}
+              onChange={(e) => update({ search: e.target.value })}
+              placeholder="Search reflections"
+              className={`${inputClass} w-full pl-9`}
+            />
+          </div>
+
+          <div className="flex flex-wrap items-center gap-3">
+            <select
+              value={filters.type}
+              onChange={(e) => update({ type: e.target.value as ReviewType | 'all' })}
+              className={inputClass}
+            >
+              <option value="all">All types</option>
+              {REVIEW_TYPES.map(type => (
+                <option key={type} value={type}>{REVIEW_TYPE_LABELS[type]}</option>
+              ))}
+            </select>
+            <select value={filters.goalId} onChange={(e) => update({ goalId: e.target.value })} className={inputClass}>
+              <option value="all">All goals</option>
+              {goals.map(goal => (
+                <option key={goal.id} value={goal.id}>{goal.title}</option>
+              ))}
+            </select>
+            <select value={filters.domain} onChange={(e) => update({ domain: e.target.value })} className={`${inputClass} capitalize`}>
+              <option value="all">All domains</option>
+              {GOAL_DOMAINS.map(domain => (
+                <option key={domain} value={domain}>{domain}</option>
+              ))}
+            </select>
+            <input type="date" value={filters.from} onChange={(e) => update({ from: e.target.value })} className={inputClass} />
+            <span className="text-gray-500">to</span>
+            <input type="date" value={filters.to} onChange={(e) => update({ to: e.target.value })} className={inputClass} />
+            {isFiltered && (
+              <button
+                onClick={() => setFilters(EMPTY_REFLECTION_FILTERS)}
+                className="text-sm text-blue-600 hover:text-blue-700"
+              >
+                Clear filters
+              </button>
+            )}
+          </div>
+        </div>
+
+        {loading ? (
+          <p className="text-gray-500">Loading...</p>
+        ) : (
+          <>
+            {entries.length > 0 && (
+              <div className="bg-white rounded-lg shadow-sm p-6 space-y-4">
+                <h3 className="flex items-center gap-2 text-lg font-medium text-gray-900">
+                  <TrendingUp size={20} className="text-blue-600" />
+                  Satisfaction over time
+                </h3>
+                <SatisfactionTrend entries={entries} />
+              </div>
+            )}
+
+            <div className="bg-white rounded-lg shadow-sm p-6 space-y-4">
+              <p className="text-sm text-gray-500">
+                {entries.length} {entries.length === 1 ? 'reflection' : 'reflections'}
+              </p>
+              {entries.length === 0 && (
+                <p className="text-sm text-gray-500 text-center py-8">
+                  {isFiltered ? 'No reflections match these filters' : 'No reflections yet'}
+                </p>
+              )}
+              {entries.map(({ reflection, goal }) => (
+                <div key={`${goal?.id ?? 'review'}-${reflection.id}`} className="p-4 bg-gray-50 rounded-lg space-y-2">
+                  <div className="flex items-center justify-between text-sm">
+                    <div className="flex items-center gap-2">
+                      <span className="px-2 py-0.5 text-xs font-medium rounded-full bg-blue-100 text-blue-800">
+                        {REVIEW_TYPE_LABELS[reflection.type]}
+                      </span>
+                      <span className="font-medium text-gray-900">
+                        {goal ? goal.title : reflection.domain ? `${reflection.domain} review` : 'Overall review'}
+                      </span>
+                      {(goal?.domain ?? reflection.domain) && (
+                        <span className="text-gray-500 capitalize">· {goal?.domain ?? reflection.domain}</span>
+                      )}
+                    </div>
+                    <span className="text-gray-500">
+                      {reflection.date.toLocaleDateString()} · Satisfaction {reflection.satisfaction}/10
+                    </span>
+                  </div>
+                  <dl className="grid gap-2 text-sm md:grid-cols-2">
+                    {(Object.keys(ANSWER_LABELS) as (keyof typeof ANSWER_LABELS)[])
+                      .filter(field => reflection[field])
+                      .map(field => (
+                        <div key={field}>
+                          <dt className="text-gray-500">{ANSWER_LABELS[field]}</dt>
+                          <dd className="text-gray-800 whitespace-pre-line">{reflection[field]}</dd>
+                        </div>
+                      ))}
+                  </dl>
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+      </div>
+    </Layout>
+  );
+};
@@ -0,0 +1,67 @@
+import React from 'react';
+import { CartesianGrid, Legend, Line, LineChart, ReferenceLine, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { goalEvents, OVERALL_SERIES, satisfactionSeries, type ReflectionEntry } from '../../lib/reflectionHistory';
+
+interface SatisfactionTrendProps {
+  entries: ReflectionEntry[];
+}
+
+const COLORS = ['#2563eb', '#16a34a', '#db2777', '#ea580c', '#7c3aed', '#0891b2', '#ca8a04'];
+
+const EVENT_COLORS = {
+  created: '#2563eb',
+  paused: '#ca8a04',
+  resumed: '#16a34a',
+  completed: '#16a34a'
+};
+
+const formatDay = (time: number) => new Date(time).toLocaleDateString();
+
+/** Satisfaction over time, one line per goal plus the overall reviews, marked where goals changed status. */
+export const SatisfactionTrend: React.FC<SatisfactionTrendProps> = ({ entries }) => {
+  const data = satisfactionSeries(entries);
+  if (data.length === 0) return null;
+
+  const goals = [...new Map(entries.flatMap(({ goal }) => (goal ? [[goal.id, goal] as const] : []))).values()];
+  const series: { key: string; name: string }[] = [
+    ...(entries.some(({ goal }) => !goal) ? [{ key: OVERALL_SERIES, name: 'Overall' }] : []),
+    ...goals.map(goal => ({ key: goal.id, name: goal.title }))
+  ];
+  const start = data[0].time;
+  const end = data[data.length - 1].time;
+  const events = goalEvents(goals).filter(event => event.time >= start && event.time <= end);
+
+  return (
+    <div className="h-72">
+      <ResponsiveContainer width="100%" height="100%">
+        <LineChart data={data}>
+          <CartesianGrid strokeDasharray="3 3" />
+          <XAxis dataKey="time" type="number" scale="time" domain={[start, end]} tickFormatter={formatDay} />
+          <YAxis domain={[0, 10]} />
+          <Tooltip labelFormatter={(time) => formatDay(Number(time))} />
+          <Legend />
+          {events.map(event => (
+            <ReferenceLine
+              key={`${event.goal.id}-${event.kind}-${event.time}`}
+              x={event.time}
+              stroke={EVENT_COLORS[event.kind]}
+              strokeDasharray="4 4"
+              label={{ value: `${event.goal.title} ${event.kind}`, position: 'insideTopLeft', fontSize: 10, fill: '#6b7280' }}
+            />
+          ))}
+          {series.map(({ key, name }, index) => (
+            <Line
+              key={key}
+              type="monotone"
+              dataKey={key}
+              name={name}
+              stroke={COLORS[index % COLORS.length]}
+              strokeWidth={key === OVERALL_SERIES ? 3 : 2}
+              connectNulls
+            />
+          ))}
+        </LineChart>
+      </ResponsiveContainer>
+    </div>
+  );
+};
@@ -0,0 +1,363 @@
+import React, { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { ArrowLeft, CalendarClock, Gauge, Save } from 'lucide-react';
+import { Layout } from '../layout/Layout';
+import { useAuth } from '../../contexts/AuthContext';
+import { getUserProfile, listAIUsageMonths, updatePlanningSettings } from '../../lib/goalsRepository';
+import { planningSettingsFor } from '../../lib/weeklyPlanner';
+import { WEEKDAY_NAMES } from '../../lib/dates';
+import { currentUsageMonth, saveAISettings } from '../../lib/aiUsage';
+import { useUsageBudget } from '../../hooks/useUsageBudget';
+import type { AIUsageMonth, AIUsageTotals } from '../../types';
+
+const FEATURE_LABELS: Record<string, string> = {
+  conversation: 'Chat replies',
+  extraction: 'Goal extraction',
+  suggestion: 'Suggestions',
+  response: 'Guided creation replies',
+  review: 'Review feedback'
+};
+
+const formatCost = (cost: number) => `$${cost < 0.01 && cost > 0 ? cost.toFixed(4) : cost.toFixed(2)}`;
+const formatTokens = (totals: AIUsageTotals) => (totals.promptTokens + totals.completionTokens).toLocaleString();
+
+const formatMonth = (month: string) => {
+  const [year, monthIndex] = month.split('-').map(Number);
+  return new Date(year, monthIndex - 1).toLocaleDateString(undefined, { month: 'long', year: 'numeric' });
+};
+
+const isValidTimeZone = (timeZone: string) => {
+  try {
+    new Intl.DateTimeFormat(undefined, { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const parseCap = (value: string): number | null => {
+  const parsed = parseFloat(value);
+  return isNaN(parsed) || parsed < 0 ? null : parsed;
+};
+
+const BreakdownTable: React.FC<{ title: string; rows: Record<string, AIUsageTotals>; labels?: Record<string, string> }> = ({
+  title,
+  rows,
+  labels = {}
+}) => (
+  <div>
+    <h4 className="text-sm font-medium text-gray-700 mb-2">{title}</h4>
+    <table className="w-full text-sm">
+      <tbody>
+        {Object.entries(rows)
+          .sort(([, a], [, b]) => b.cost - a.cost)
+          .map(([key, totals]) => (
+            <tr key={key} className="border-t">
+              <td className="py-2 text-gray-900">{labels[key] ?? key}</td>
+              <td className="py-2 text-right text-gray-500">{totals.requests} calls</td>
+              <td className="py-2 text-right text-gray-500">{formatTokens(totals)} tokens</td>
+              <td className="py-2 text-right font-medium">{formatCost(totals.cost)}</td>
+            </tr>
+          ))}
+      </tbody>
+    </table>
+  </div>
+);
+
+export const Settings = () => {
+  const { user } = useAuth();
+  const budget = useUsageBudget();
+  const [months, setMonths] = useState<AIUsageMonth[]>([]);
+  const [softCap, setSoftCap] = useState('');
+  const [hardCap, setHardCap] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+  const [saved, setSaved] = useState(false);
+  const [weekStartsOn, setWeekStartsOn] = useState(planningSettingsFor().weekStartsOn);
+  const [timeZone, setTimeZone] = useState(planningSettingsFor().timeZone);
+  const [workDayStart, setWorkDayStart] = useState(planningSettingsFor().workDayStart);
+  const [workDayEnd, setWorkDayEnd] = useState(planningSettingsFor().workDayEnd);
+  const [planningError, setPlanningError] = useState('');
+  const [planningSaved, setPlanningSaved] = useState(false);
+
+  useEffect(() => {
+    const fetchUsage = async () => {
+      if (!user) return;
+
+      try {
+        const [usage, profile] = await Promise.all([listAIUsageMonths(user.uid), getUserProfile(user.uid)]);
+        setMonths(usage);
+        setSoftCap(profile?.aiSettings?.softMonthlyCap?.toString() ?? '');
+        setHardCap(profile?.aiSettings?.hardMonthlyCap?.toString() ?? '');
+        const planning = planningSettingsFor(profile?.planning);
+        setWeekStartsOn(planning.weekStartsOn);
+        setTimeZone(planning.timeZone);
+        setWorkDayStart(planning.workDayStart);
+        setWorkDayEnd(planning.workDayEnd);
+      } catch (error) {
+        console.error('Error fetching AI usage:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchUsage();
+  }, [user]);
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user) return;
+
+    const soft = parseCap(softCap);
+    const hard = parseCap(hardCap);
+    if (soft !== null && hard !== null && soft > hard) {
+      setError('The soft limit must not be higher than the hard limit.');
+      return;
+    }
+
+    setError('');
+    setSaving(true);
+    try {
+      await saveAISettings(user.uid, { softMonthlyCap: soft, hardMonthlyCap: hard });
+      setSaved(true);
+    } catch (error) {
+      console.error('Error saving AI settings:', error);
+      setError('Could not save your limits. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSavePlanning = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user) return;
+
+    if (!isValidTimeZone(timeZone.trim())) {
+      setPlanningError(`"${timeZone}" is not a time zone. Use a name like Europe/Berlin.`);
+      return;
+    }
+    // HH:MM strings compare correctly as text
+    if (!workDayStart || !workDayEnd || workDayStart >= workDayEnd) {
+      setPlanningError('Working hours must end after they start.');
+      return;
+    }
+
+    setPlanningError('');
+    try {
+      await updatePlanningSettings(user.uid, { weekStartsOn, timeZone: timeZone.trim(), workDayStart, workDayEnd });
+      setPlanningSaved(true);
+    } catch (error) {
+      console.error('Error saving planning settings:', error);
+      setPlanningError('Could not save your planning settings. Please try again.');
+    }
+  };
+
+  const thisMonth = months.find(m => m.month === currentUsageMonth());
+  const previousMonths = months.filter(m => m !== thisMonth);
+
+  return (
+    <Layout>
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        <Link to="/" className="inline-flex items-center gap-2 text-gray-600 hover:text-gray-900">
+          <ArrowLeft size={16} />
+          Back to dashboard
+        </Link>
+
+        <div className="bg-white rounded-lg shadow-sm p-6 space-y-6">
+          <div className="flex items-center gap-2">
+            <Gauge className="text-blue-600" size={24} />
+            <h2 className="text-2xl font-semibold text-gray-900">AI Usage</h2>
+          </div>
+
+          {loading ? (
+            <p className="text-gray-500">Loading...</p>
+          ) : (
+            <>
+              <div className="grid grid-cols-3 gap-4">
+                <div className="bg-blue-50 rounded-lg p-4">
+                  <p className="text-sm text-blue-700">Estimated cost this month</p>
+                  <p className="text-2xl font-semibold text-blue-900">{formatCost(budget?.monthCost ?? thisMonth?.cost ?? 0)}</p>
+                </div>
+                <div className="bg-gray-50 rounded-lg p-4">
+                  <p className="text-sm text-gray-600">Tokens</p>
+                  <p className="text-2xl font-semibold text-gray-900">{thisMonth ? formatTokens(thisMonth) : 0}</p>
+                  {thisMonth && (
+                    <p className="text-xs text-gray-500">
+                      {thisMonth.promptTokens.toLocaleString()} in · {thisMonth.completionTokens.toLocaleString()} out
+                    </p>
+                  )}
+                </div>
+                <div className="bg-gray-50 rounded-lg p-4">
+                  <p className="text-sm text-gray-600">AI calls</p>
+                  <p className="text-2xl font-semibold text-gray-900">{thisMonth?.requests ?? 0}</p>
+                </div>
+              </div>
+
+              {thisMonth && (
+                <div className="grid md:grid-cols-2 gap-6">
+                  <BreakdownTable title="By feature" rows={thisMonth.byFeature} labels={FEATURE_LABELS} />
+                  <BreakdownTable title="By model" rows={thisMonth.byModel} />
+                </div>
+              )}
+
+              {previousMonths.length > 0 && (
+                <div>
+                  <h4 className="text-sm font-medium text-gray-700 mb-2">Previous months</h4>
+                  <table className="w-full text-sm">
+                    <tbody>
+                      {previousMonths.map(month => (
+                        <tr key={month.id} className="border-t">
+                          <td className="py-2 text-gray-900">{formatMonth(month.month)}</td>
+                          <td className="py-2 text-right text-gray-500">{formatTokens(month)} tokens</td>
+                          <td className="py-2 text-right font-medium">{formatCost(month.cost)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+
+              <p className="text-xs text-gray-500">
+                Costs are estimates based on published model prices and may differ from your provider's bill.
+              </p>
+            </>
+          )}
+        </div>
+
+        <form onSubmit={handleSave} className="bg-white rounded-lg shadow-sm p-6 space-y-4">
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900">Monthly limits</h3>
+            <p className="text-sm text-gray-500">
+              Past the soft limit, AI replies are kept shorter and you get fewer suggestions. At the hard limit,
+              AI features pause until next month. Leave a field empty for no limit.
+            </p>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <label className="block">
+              <span className="text-sm font-medium text-gray-700">Soft limit (USD)</span>
+              <input
+                type="number"
+                min="0"
+                step="0.01"
+                value={softCap}
+                onChange={(e) => {
+                  setSoftCap(e.target.value);
+                  setSaved(false);
+                }}
+                className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </label>
+            <label className="block">
+              <span className="text-sm font-medium text-gray-700">Hard limit (USD)</span>
+              <input
+                type="number"
+                min="0"
+                step="0.01"
+                value={hardCap}
+                onChange={(e) => {
+                  setHardCap(e.target.value);
+                  setSaved(false);
+                }}
+                className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </label>
+          </div>
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+
+          <div className="flex items-center gap-4">
+            <button
+              type="submit"
+              disabled={saving}
+              className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+            >
+              <Save size={16} />
+              {saving ? 'Saving...' : 'Save limits'}
+            </button>
+            {saved && <span className="text-sm text-green-600">Saved</span>}
+          </div>
+        </form>
+
+        <form onSubmit={handleSavePlanning} className="bg-white rounded-lg shadow-sm p-6 space-y-4">
+          <div className="flex items-center gap-2">
+            <CalendarClock className="text-blue-600" size={20} />
+            <h3 className="text-lg font-semibold text-gray-900">Planning</h3>
+          </div>
+          <p className="text-sm text-gray-500">
+            At the start of each week, your goals' weekly actions become tasks and unfinished ones carry over.
+            Auto-scheduling fills your day within your working hours.
+          </p>
+
+          <div className="grid grid-cols-2 gap-4">
+            <label className="block">
+              <span className="text-sm font-medium text-gray-700">Week starts on</span>
+              <select
+                value={weekStartsOn}
+                onChange={(e) => {
+                  setWeekStartsOn(Number(e.target.value));
+                  setPlanningSaved(false);
+                }}
+                className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                {WEEKDAY_NAMES.map((day, index) => (
+                  <option key={day} value={index}>{day}</option>
+                ))}
+              </select>
+            </label>
+            <label className="block">
+              <span className="text-sm font-medium text-gray-700">Time zone</span>
+              <input
+                type="text"
+                value={timeZone}
+                onChange={(e) => {
+                  setTimeZone(e.target.value);
+                  setPlanningSaved(false);
+                }}
+                className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </label>
+            <label className="block">
+              <span className="text-sm font-medium text-gray-700">Working hours start</span>
+              <input
+                type="time"
+                value={workDayStart}
+                onChange={(e) => {
+                  setWorkDayStart(e.target.value);
+                  setPlanningSaved(false);
+                }}
+                className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </label>
+            <label className="block">
+              <span className="text-sm font-medium text-gray-700">Working hours end</span>
+              <input
+                type="time"
+                value={workDayEnd}
+                onChange={(e) => {
+                  setWorkDayEnd(e.target.value);
+                  setPlanningSaved(false);
+                }}
+                className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </label>
+          </div>
+
+          {planningError && <p className="text-sm text-red-600">{planningError}</p>}
+
+          <div className="flex items-center gap-4">
+            <button
+              type="submit"
+              className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700"
+            >
+              <Save size={16} />
+              Save planning
+            </button>
+            {planningSaved && <span className="text-sm text-green-600">Saved</span>}
+          </div>
+        </form>
+      </div>
+    </Layout>
+  );
+};
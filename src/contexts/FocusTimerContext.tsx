@@ -0,0 +1,98 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { useAuth } from './AuthContext';
+import { FocusTimerContext, type FocusTimerContextType } from './useFocusTimer';
+import { saveTimeEntry } from '../lib/goalsRepository';
+import {
+  advanceFocusSession,
+  getRemainingMs,
+  isFocusPaused,
+  isFocusSessionStorageEvent,
+  loadFocusSession,
+  pauseFocusSession,
+  resumeFocusSession,
+  startFocusSession,
+  storeFocusSession,
+  timeEntryId,
+  toTimeEntry,
+  type FocusSession
+} from '../lib/focusTimer';
+
+const sessionFor = (userId: string | null) => (userId ? loadFocusSession(userId) : null);
+
+/** Runs the focus timer for the whole app and keeps it in localStorage across refreshes. */
+export const FocusTimerProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { user } = useAuth();
+  const userId = user?.uid ?? null;
+  const [session, setSession] = useState<FocusSession | null>(() => sessionFor(userId));
+  const [sessionUserId, setSessionUserId] = useState(userId);
+  const [now, setNow] = useState(Date.now);
+
+  // Swapped during render on sign-in or sign-out, so the timer never ticks
+  // another account's session
+  if (sessionUserId !== userId) {
+    setSessionUserId(userId);
+    setSession(sessionFor(userId));
+  }
+
+  const update = useCallback((next: FocusSession | null) => {
+    if (userId) storeFocusSession(userId, next);
+    setSession(next);
+  }, [userId]);
+
+  const logWork = useCallback((current: FocusSession, at: number) => {
+    const entry = toTimeEntry(current, at);
+    if (!user || !entry) return;
+    saveTimeEntry(user.uid, timeEntryId(user.uid, current), entry)
+      .catch(error => console.error('Error saving time entry:', error));
+  }, [user]);
+
+  // Another tab started, paused or stopped the timer
+  useEffect(() => {
+    if (!userId) return;
+    const handleStorage = (event: StorageEvent) => {
+      if (isFocusSessionStorageEvent(event, userId)) setSession(loadFocusSession(userId));
+    };
+    window.addEventListener('storage', handleStorage);
+    return () => window.removeEventListener('storage', handleStorage);
+  }, [userId]);
+
+  useEffect(() => {
+    if (!session || isFocusPaused(session)) return;
+
+    const tick = () => {
+      const current = Date.now();
+      setNow(current);
+      if (getRemainingMs(session, current) === 0) {
+        logWork(session, current);
+        update(advanceFocusSession(session, current));
+      }
+    };
+
+    tick();
+    const interval = setInterval(tick, 1000);
+    return () => clearInterval(interval);
+  }, [session, logWork, update]);
+
+  const value: FocusTimerContextType = {
+    session,
+    remainingMs: session ? getRemainingMs(session, now) : 0,
+    start: (target) => {
+      if (session) logWork(session, Date.now());
+      update(startFocusSession(target));
+    },
+    pause: () => session && update(pauseFocusSession(session)),
+    resume: () => session && update(resumeFocusSession(session)),
+    skip: () => {
+      if (!session) return;
+      logWork(session, Date.now());
+      update(advanceFocusSession(session));
+    },
+    stop: () => {
+      if (!session) return;
+      logWork(session, Date.now());
+      update(null);
+    }
+  };
+
+  return <FocusTimerContext.Provider value={value}>{children}</FocusTimerContext.Provider>;
+};
@@ -0,0 +1,25 @@
+import { createContext, useContext } from 'react';
+import type { FocusSession, FocusTarget } from '../lib/focusTimer';
+
+export interface FocusTimerContextType {
+  session: FocusSession | null;
+  remainingMs: number;
+  start: (target: FocusTarget) => void;
+  pause: () => void;
+  resume: () => void;
+  /** Ends the current phase early and moves on to the next one. */
+  skip: () => void;
+  stop: () => void;
+}
+
+export const FocusTimerContext = createContext<FocusTimerContextType>({
+  session: null,
+  remainingMs: 0,
+  start: () => {},
+  pause: () => {},
+  resume: () => {},
+  skip: () => {},
+  stop: () => {}
+});
+
+export const useFocusTimer = () => useContext(FocusTimerContext);
@@ -0,0 +1,60 @@
+import { useCallback, useRef } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import { createConversation, updateConversation } from '../lib/goalsRepository';
+import type { GoalConversation } from '../types';
+
+export type ConversationSnapshot = Pick<GoalConversation, 'messages' | 'draft'> & { step?: number };
+
+const titleFor = ({ draft, messages }: ConversationSnapshot) => {
+  const firstAnswer = messages.find(m => m.role === 'user')?.content ?? '';
+  return draft.title || (firstAnswer.length > 60 ? `${firstAnswer.slice(0, 57)}...` : firstAnswer) || 'Untitled draft';
+};
+
+/**
+ * Saves an AI goal-creation conversation as a draft. The first save creates
+ * the document; later saves update it. Saves run one at a time and unchanged
+ * snapshots are skipped, so it is safe to call on every state change.
+ */
+export const useConversationAutosave = (mode: GoalConversation['mode'], initial?: GoalConversation) => {
+  const { user } = useAuth();
+  const idRef = useRef<string | null>(initial?.id ?? null);
+  const queueRef = useRef<Promise<void>>(Promise.resolve());
+  const lastSavedRef = useRef(
+    initial ? JSON.stringify({ messages: initial.messages, draft: initial.draft, step: initial.step }) : ''
+  );
+
+  const save = useCallback((snapshot: ConversationSnapshot) => {
+    if (!user || !snapshot.messages.some(m => m.role === 'user')) return;
+
+    const serialized = JSON.stringify(snapshot);
+    if (serialized === lastSavedRef.current) return;
+
+    queueRef.current = queueRef.current.then(async () => {
+      // An identical snapshot queued earlier may have been saved meanwhile
+      if (serialized === lastSavedRef.current) return;
+
+      const fields = { ...snapshot, title: titleFor(snapshot) };
+      try {
+        if (idRef.current) {
+          await updateConversation(idRef.current, fields);
+        } else {
+          idRef.current = await createConversation(user.uid, { ...fields, mode, status: 'draft' });
+        }
+        // Only after the write, so a failed save is retried on the next call
+        lastSavedRef.current = serialized;
+      } catch (error) {
+        console.error('Error saving conversation:', error);
+      }
+    });
+  }, [user, mode]);
+
+  const getConversationId = useCallback(() => idRef.current, []);
+
+  /** Waits for pending saves and resolves with the conversation's id, if it was saved. */
+  const flush = useCallback(async () => {
+    await queueRef.current;
+    return idRef.current;
+  }, []);
+
+  return { save, flush, getConversationId };
+};
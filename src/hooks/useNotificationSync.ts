@@ -0,0 +1,35 @@
+import { useEffect } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import { getUserProfile, listGoals, listUnresolvedNotifications, syncNotifications } from '../lib/goalsRepository';
+import { generateNotifications, hasNotificationChanges, planNotificationSync } from '../lib/notifications';
+
+const CHECK_INTERVAL_MS = 60 * 1000;
+
+/** Stores new reminders and resolves stale ones; checks every minute. Mount once, above the router. */
+export const useNotificationSync = () => {
+  const { user } = useAuth();
+
+  useEffect(() => {
+    if (!user) return;
+
+    const sync = async () => {
+      try {
+        const [goals, profile, stored] = await Promise.all([
+          listGoals(user.uid, { status: 'active' }),
+          getUserProfile(user.uid),
+          listUnresolvedNotifications(user.uid)
+        ]);
+        const changes = planNotificationSync(stored, generateNotifications(goals, profile?.domains));
+        if (hasNotificationChanges(changes)) {
+          await syncNotifications(user.uid, changes);
+        }
+      } catch (error) {
+        console.error('Error syncing notifications:', error);
+      }
+    };
+
+    sync();
+    const interval = setInterval(sync, CHECK_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [user]);
+};
@@ -0,0 +1,39 @@
+import { useEffect, useState } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import { subscribeToNotifications, updateNotifications, type NotificationState } from '../lib/goalsRepository';
+import type { UserNotification } from '../types';
+
+// Re-render this often so snoozed notifications reappear once their time is up
+const TICK_MS = 60 * 1000;
+
+/** The signed-in user's stored notifications, newest first, with actions to change their state. */
+export const useNotifications = () => {
+  const { user } = useAuth();
+  const [notifications, setNotifications] = useState<UserNotification[]>([]);
+  const [now, setNow] = useState(() => new Date());
+
+  useEffect(() => {
+    if (!user) return;
+    return subscribeToNotifications(user.uid, setNotifications);
+  }, [user]);
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(new Date()), TICK_MS);
+    return () => clearInterval(interval);
+  }, []);
+
+  const update = (ids: string[], state: NotificationState) => {
+    if (ids.length === 0) return;
+    updateNotifications(ids, state).catch(error => console.error('Error updating notifications:', error));
+  };
+
+  return {
+    notifications,
+    now,
+    markRead: (ids: string[]) => update(ids, { readAt: new Date() }),
+    markUnread: (id: string) => update([id], { readAt: undefined }),
+    dismiss: (id: string) => update([id], { dismissedAt: new Date() }),
+    restore: (id: string) => update([id], { dismissedAt: undefined, snoozedUntil: undefined }),
+    snooze: (id: string, until: Date) => update([id], { snoozedUntil: until })
+  };
+};
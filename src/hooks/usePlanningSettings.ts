@@ -0,0 +1,21 @@
+import { useEffect, useState } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import { getUserProfile } from '../lib/goalsRepository';
+import { planningSettingsFor } from '../lib/weeklyPlanner';
+import type { PlanningSettings } from '../types';
+
+/** The signed-in user's week start and time zone, with defaults until loaded. */
+export const usePlanningSettings = () => {
+  const { user } = useAuth();
+  const [settings, setSettings] = useState<PlanningSettings>(planningSettingsFor());
+
+  useEffect(() => {
+    if (!user) return;
+
+    getUserProfile(user.uid)
+      .then(profile => setSettings(planningSettingsFor(profile?.planning)))
+      .catch(error => console.error('Error fetching planning settings:', error));
+  }, [user]);
+
+  return settings;
+};
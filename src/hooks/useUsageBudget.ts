@@ -0,0 +1,11 @@
+import { useEffect, useState } from 'react';
+import { subscribeToUsageBudget, type UsageBudget } from '../lib/aiUsage';
+
+/** The signed-in user's AI budget for this month; updates as calls are tracked. */
+export const useUsageBudget = () => {
+  const [budget, setBudget] = useState<UsageBudget | null>(null);
+
+  useEffect(() => subscribeToUsageBudget(setBudget), []);
+
+  return budget;
+};
@@ -0,0 +1,22 @@
+import { useEffect } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import { runWeeklyPlanner } from '../lib/weeklyPlanner';
+
+const CHECK_INTERVAL_MS = 60 * 60 * 1000;
+
+/** Plans the week when the app opens and checks hourly for a new week. */
+export const useWeeklyPlanner = () => {
+  const { user } = useAuth();
+
+  useEffect(() => {
+    if (!user) return;
+
+    const plan = () => {
+      runWeeklyPlanner(user.uid).catch(error => console.error('Error planning week:', error));
+    };
+
+    plan();
+    const interval = setInterval(plan, CHECK_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [user]);
+};
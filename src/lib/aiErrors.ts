@@ -0,0 +1,164 @@
+import OpenAI from 'openai';
+
+export type AIErrorKind =
+  | 'auth'
+  | 'rate_limit'
+  | 'quota'
+  | 'timeout'
+  | 'network'
+  | 'content_filter'
+  | 'malformed_response'
+  | 'server'
+  | 'unknown';
+
+/** What the user sees for each kind of failure. */
+export const AI_ERROR_MESSAGES: Record<AIErrorKind, string> = {
+  auth: 'The AI service rejected the request. Try signing out and back in.',
+  rate_limit: 'The AI service is busy right now. Wait a moment and try again.',
+  quota: "You've used up your AI allowance for today. It resets tomorrow.",
+  timeout: 'The AI took too long to respond.',
+  network: "Couldn't reach the AI service. Check your connection.",
+  content_filter: 'The AI declined to answer this. Try rephrasing your message.',
+  malformed_response: "The AI sent back a response we couldn't read.",
+  server: 'The AI service ran into a problem.',
+  unknown: 'Something went wrong while talking to the AI.'
+};
+
+const RETRYABLE: AIErrorKind[] = ['rate_limit', 'timeout', 'network', 'server', 'malformed_response'];
+
+export class AIError extends Error {
+  public retryable: boolean;
+
+  constructor(
+    public kind: AIErrorKind,
+    message: string = AI_ERROR_MESSAGES[kind],
+    public retryAfter?: number,
+    public cause?: unknown
+  ) {
+    super(message);
+    this.name = 'AIError';
+    this.retryable = RETRYABLE.includes(kind);
+  }
+}
+
+export const isAbortError = (error: unknown): boolean =>
+  error instanceof Error && (error.name === 'AbortError' || error.name === 'APIUserAbortError');
+
+// Error codes sent by our proxy (`server/index.ts`).
+const PROXY_ERROR_KINDS: Record<string, AIErrorKind> = {
+  unauthenticated: 'auth',
+  upstream_auth: 'auth',
+  rate_limited: 'rate_limit',
+  upstream_rate_limited: 'rate_limit',
+  quota_exceeded: 'quota',
+  content_filter: 'content_filter',
+  upstream_timeout: 'timeout',
+  upstream_error: 'server'
+};
+
+const kindForStatus = (status: number | undefined): AIErrorKind => {
+  if (status === 401 || status === 403) return 'auth';
+  if (status === 408) return 'timeout';
+  if (status === 429) return 'rate_limit';
+  if (status !== undefined && status >= 500) return 'server';
+  return 'unknown';
+};
+
+/** Builds an error from an HTTP error response, using the proxy's code when there is one. */
+export const aiErrorFromResponse = (status: number, code?: string, retryAfter?: number): AIError =>
+  new AIError(code && PROXY_ERROR_KINDS[code] ? PROXY_ERROR_KINDS[code] : kindForStatus(status), undefined, retryAfter);
+
+/** Maps anything a provider can throw onto an `AIError`. */
+export const classifyAIError = (error: unknown): AIError => {
+  if (error instanceof AIError) return error;
+
+  if (error instanceof OpenAI.APIConnectionTimeoutError) return new AIError('timeout', undefined, undefined, error);
+  if (error instanceof OpenAI.APIConnectionError) return new AIError('network', undefined, undefined, error);
+  if (error instanceof OpenAI.APIError) {
+    if (error.code === 'insufficient_quota') return new AIError('quota', undefined, undefined, error);
+    if (error.code === 'content_filter') return new AIError('content_filter', undefined, undefined, error);
+    const retryAfter = Number(error.headers?.['retry-after']) || undefined;
+    return new AIError(kindForStatus(error.status), undefined, retryAfter, error);
+  }
+
+  // `fetch` rejects with a TypeError when the network is down
+  if (error instanceof TypeError) return new AIError('network', undefined, undefined, error);
+  if (error instanceof SyntaxError) return new AIError('malformed_response', undefined, undefined, error);
+  return new AIError('unknown', undefined, undefined, error);
+};
+
+export interface RetryOptions {
+  /** The caller's signal; aborting it stops retries and is rethrown as-is. */
+  signal?: AbortSignal;
+  timeoutMs: number;
+  retries?: number;
+  baseDelayMs?: number;
+  /** Checked before each retry, e.g. to avoid repeating a stream that already showed text. */
+  canRetry?: () => boolean;
+}
+
+const MAX_RETRY_DELAY_MS = 10_000;
+
+const delay = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(new DOMException('Aborted', 'AbortError'));
+    }, { once: true });
+  });
+
+const withTimeout = async <T>(
+  fn: (signal: AbortSignal) => Promise<T>,
+  timeoutMs: number,
+  signal?: AbortSignal
+): Promise<T> => {
+  const controller = new AbortController();
+  const abort = () => controller.abort();
+  if (signal?.aborted) abort();
+  signal?.addEventListener('abort', abort, { once: true });
+
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutMs);
+
+  try {
+    return await fn(controller.signal);
+  } catch (error) {
+    if (timedOut) throw new AIError('timeout', undefined, undefined, error);
+    throw error;
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', abort);
+  }
+};
+
+/**
+ * Runs an AI request with a timeout, retrying transient failures with
+ * exponential backoff (or the server's `Retry-After`). Rejects with an
+ * `AIError`, or with the abort error if the caller cancelled.
+ */
+export const callWithRetry = async <T>(
+  fn: (signal: AbortSignal) => Promise<T>,
+  { signal, timeoutMs, retries = 2, baseDelayMs = 500, canRetry = () => true }: RetryOptions
+): Promise<T> => {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await withTimeout(fn, timeoutMs, signal);
+    } catch (error) {
+      if (signal?.aborted && isAbortError(error)) throw error;
+
+      const aiError = classifyAIError(error);
+      if (!aiError.retryable || attempt >= retries || !canRetry()) throw aiError;
+
+      // Waiting longer than this is worse than letting the user decide
+      const backoff = aiError.retryAfter
+        ? aiError.retryAfter * 1000
+        : baseDelayMs * 2 ** attempt * (1 + Math.random() / 2);
+      if (backoff > MAX_RETRY_DELAY_MS) throw aiError;
+      await delay(backoff, signal);
+    }
+  }
+};
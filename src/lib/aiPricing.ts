@@ -0,0 +1,24 @@
+// Kept free of browser and Firebase imports so the AI proxy can share it.
+
+/**
+ * USD per million tokens. Models match by prefix, so dated snapshots such as
+ * `gpt-4o-mini-2024-07-18` share their family's price. Unknown models cost 0.
+ */
+export const MODEL_PRICING: Record<string, { input: number; output: number }> = {
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4-turbo': { input: 10, output: 30 },
+  'gpt-4': { input: 30, output: 60 },
+  'gpt-3.5-turbo': { input: 0.5, output: 1.5 },
+  scripted: { input: 0, output: 0 }
+};
+
+export const estimateCost = (model: string, usage: { promptTokens: number; completionTokens: number }): number => {
+  const family = Object.keys(MODEL_PRICING)
+    .sort((a, b) => b.length - a.length)
+    .find(prefix => model.startsWith(prefix));
+  if (!family) return 0;
+
+  const price = MODEL_PRICING[family];
+  return (usage.promptTokens * price.input + usage.completionTokens * price.output) / 1_000_000;
+};
@@ -0,0 +1,307 @@
+import OpenAI from 'openai';
+import { auth } from './firebase';
+import { AIError, aiErrorFromResponse } from './aiErrors';
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface CompletionOptions {
+  model?: string;
+  temperature?: number;
+  maxTokens?: number;
+  /** Number of alternative completions to return. */
+  n?: number;
+  /** Ask the model for a single JSON object. */
+  json?: boolean;
+}
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+export interface CompletionResult {
+  model: string;
+  choices: string[];
+  /** Missing when the provider does not report usage, e.g. a cancelled stream. */
+  usage?: TokenUsage;
+}
+
+export interface RequestControls {
+  signal?: AbortSignal;
+}
+
+export type TokenHandler = (token: string) => void;
+
+export interface AIProvider {
+  name: string;
+  complete(messages: ChatMessage[], options?: CompletionOptions, controls?: RequestControls): Promise<CompletionResult>;
+  /** Calls `onToken` for each piece of the reply as it arrives and resolves with the full reply. */
+  stream(
+    messages: ChatMessage[],
+    options: CompletionOptions,
+    onToken: TokenHandler,
+    controls?: RequestControls
+  ): Promise<CompletionResult>;
+}
+
+interface ChatCompletionsConfig {
+  apiKey?: string;
+  baseURL?: string;
+  defaultModel: string;
+}
+
+const createChatCompletionsProvider = (name: string, config: ChatCompletionsConfig): AIProvider => {
+  const client = new OpenAI({
+    apiKey: config.apiKey || 'not-needed',
+    baseURL: config.baseURL,
+    dangerouslyAllowBrowser: true,
+    // Retries and timeouts are handled per call site in openai.ts
+    maxRetries: 0
+  });
+
+  return {
+    name,
+    complete: async (messages, options = {}, controls = {}) => {
+      const model = options.model || config.defaultModel;
+      const response = await client.chat.completions.create({
+        model,
+        messages,
+        temperature: options.temperature,
+        max_tokens: options.maxTokens,
+        n: options.n,
+        ...(options.json && { response_format: { type: 'json_object' as const } })
+      }, { signal: controls.signal });
+
+      if (response.choices.some(choice => choice.finish_reason === 'content_filter')) {
+        throw new AIError('content_filter');
+      }
+
+      return {
+        model: response.model || model,
+        choices: response.choices.map(choice => choice.message.content?.trim() || ''),
+        usage: response.usage && {
+          promptTokens: response.usage.prompt_tokens,
+          completionTokens: response.usage.completion_tokens
+        }
+      };
+    },
+    stream: async (messages, options, onToken, controls = {}) => {
+      const model = options.model || config.defaultModel;
+      const stream = await client.chat.completions.create({
+        model,
+        messages,
+        temperature: options.temperature,
+        max_tokens: options.maxTokens,
+        stream: true,
+        stream_options: { include_usage: true }
+      }, { signal: controls.signal });
+
+      let content = '';
+      let usage: TokenUsage | undefined;
+      for await (const chunk of stream) {
+        const token = chunk.choices[0]?.delta?.content;
+        if (token) {
+          content += token;
+          onToken(token);
+        }
+        if (chunk.choices[0]?.finish_reason === 'content_filter') {
+          throw new AIError('content_filter');
+        }
+        if (chunk.usage) {
+          usage = { promptTokens: chunk.usage.prompt_tokens, completionTokens: chunk.usage.completion_tokens };
+        }
+      }
+
+      return { model, choices: [content.trim()], usage };
+    }
+  };
+};
+
+export const createOpenAIProvider = (apiKey: string, defaultModel = 'gpt-3.5-turbo'): AIProvider =>
+  createChatCompletionsProvider('openai', { apiKey, defaultModel });
+
+/**
+ * Any server that speaks the OpenAI chat completions protocol, e.g. a local
+ * llama.cpp or Ollama instance at `http://localhost:8080/v1`.
+ */
+export const createOpenAICompatibleProvider = (
+  baseURL: string,
+  defaultModel: string,
+  apiKey?: string
+): AIProvider =>
+  createChatCompletionsProvider('openai-compatible', { apiKey, baseURL, defaultModel });
+
+/**
+ * Sends completions through our own server (`server/index.ts`), which holds
+ * the provider key and enforces per-user limits. Requests carry the signed-in
+ * user's Firebase ID token.
+ */
+export const createProxyProvider = (
+  endpoint: string,
+  getIdToken: () => Promise<string | null> = async () => (await auth.currentUser?.getIdToken()) ?? null
+): AIProvider => {
+  const post = async (path: string, body: unknown, controls: RequestControls) => {
+    const token = await getIdToken();
+    if (!token) throw new AIError('auth', 'You need to be signed in to use AI features');
+
+    const response = await fetch(`${endpoint}/${path}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${token}`
+      },
+      body: JSON.stringify(body),
+      signal: controls.signal
+    });
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => null);
+      throw aiErrorFromResponse(
+        response.status,
+        error?.error?.code,
+        Number(response.headers.get('Retry-After')) || undefined
+      );
+    }
+    return response;
+  };
+
+  return {
+    name: 'proxy',
+    complete: async (messages, options = {}, controls = {}) => {
+      const response = await post('complete', { messages, options }, controls);
+      return await response.json() as CompletionResult;
+    },
+    // The server answers with newline-delimited JSON: `{ token }` lines, then
+    // a final `{ done, model, usage }` line, or `{ error }` if the upstream call fails.
+    stream: async (messages, options, onToken, controls = {}) => {
+      const response = await post('stream', { messages, options }, controls);
+      const reader = response.body!.pipeThrough(new TextDecoderStream()).getReader();
+
+      let buffer = '';
+      let content = '';
+      let model = options.model || '';
+      let usage: TokenUsage | undefined;
+      for (;;) {
+        const { value, done } = await reader.read();
+        if (done) break;
+
+        buffer += value;
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
+
+        for (const line of lines.filter(Boolean)) {
+          const event = JSON.parse(line);
+          if (event.error) throw aiErrorFromResponse(502, event.error.code);
+          if (event.token) {
+            content += event.token;
+            onToken(event.token);
+          }
+          if (event.done) {
+            model = event.model;
+            usage = event.usage;
+          }
+        }
+      }
+
+      return { model, choices: [content.trim()], usage };
+    }
+  };
+};
+
+export type ScriptedResponder = (messages: ChatMessage[], options: CompletionOptions) => string;
+
+const DEMO_REPLIES = [
+  "That sounds like a great area to focus on. What would success look like for you?",
+  "When would you like to have this achieved by?",
+  "What's one small thing you could do every week to move toward it?",
+  "Great plan. Is there anything that might get in the way?"
+];
+
+const DEMO_GOAL = {
+  title: 'Run a half marathon',
+  description: 'Build up running endurance to finish a half marathon comfortably',
+  domain: 'health',
+  milestones: [{ title: 'Run 10k without stopping', frequency: 'once' }],
+  metrics: [{ name: 'Weekly distance', type: 'number', target: 30, unit: 'km', frequency: 'weekly' }],
+  weeklyActions: ['Plan next week\'s runs'],
+  dailyHabits: ['Stretch for 10 minutes'],
+  routines: [{ name: 'Long run', frequency: 'weekly', steps: ['Warm up', 'Run at easy pace', 'Cool down'] }],
+  resources: ['Running shoes'],
+  obstacles: ['Bad weather'],
+  successCriteria: ['Finish a half marathon race']
+};
+
+const DEMO_REVIEW = {
+  summary: 'A steady week: you kept most of your habits going and made progress where you planned to.',
+  recurringChallenges: [],
+  suggestions: []
+};
+
+// Replies cycle by the number of user turns so the same conversation always
+// gets the same answers; JSON requests get a fixed demo goal or review.
+const demoResponder: ScriptedResponder = (messages, options) => {
+  if (options.json) {
+    return JSON.stringify(messages[0]?.content.includes('weekly review') ? DEMO_REVIEW : DEMO_GOAL);
+  }
+  const userTurns = messages.filter(m => m.role === 'user').length;
+  return DEMO_REPLIES[userTurns % DEMO_REPLIES.length];
+};
+
+// Rough token count (about four characters per token) so usage tracking has
+// something to show in demo mode.
+const estimateUsage = (messages: ChatMessage[], replies: string[]): TokenUsage => ({
+  promptTokens: Math.ceil(messages.reduce((total, m) => total + m.content.length, 0) / 4),
+  completionTokens: Math.ceil(replies.join('').length / 4)
+});
+
+/**
+ * Deterministic provider for tests, demos and working offline. Never touches
+ * the network.
+ */
+export const createScriptedProvider = (responder: ScriptedResponder = demoResponder): AIProvider => ({
+  name: 'scripted',
+  complete: async (messages, options = {}) => {
+    const choices = Array.from({ length: options.n || 1 }, () => responder(messages, options));
+    return { model: 'scripted', choices, usage: estimateUsage(messages, choices) };
+  },
+  stream: async (messages, options, onToken, controls = {}) => {
+    const reply = responder(messages, options);
+    for (const word of reply.split(/(?<= )/)) {
+      if (controls.signal?.aborted) throw new DOMException('Aborted', 'AbortError');
+      await new Promise(resolve => setTimeout(resolve, 30));
+      onToken(word);
+    }
+    return { model: 'scripted', choices: [reply], usage: estimateUsage(messages, [reply]) };
+  }
+});
+
+// Read each variable individually: Vite inlines the whole env object when
+// `import.meta.env` is used as a value, which would leak unrelated keys.
+const createDefaultProvider = (): AIProvider => {
+  switch (import.meta.env.VITE_AI_PROVIDER) {
+    case 'compatible':
+      return createOpenAICompatibleProvider(
+        import.meta.env.VITE_AI_BASE_URL || 'http://localhost:8080/v1',
+        import.meta.env.VITE_AI_MODEL || 'default',
+        import.meta.env.VITE_AI_API_KEY
+      );
+    case 'scripted':
+      return createScriptedProvider();
+    default:
+      return createProxyProvider(import.meta.env.VITE_AI_PROXY_URL || '/api/ai');
+  }
+};
+
+let activeProvider: AIProvider | null = null;
+
+export const getAIProvider = (): AIProvider => {
+  if (!activeProvider) activeProvider = createDefaultProvider();
+  return activeProvider;
+};
+
+export const setAIProvider = (provider: AIProvider) => {
+  activeProvider = provider;
+};
@@ -0,0 +1,124 @@
+import { auth } from './firebase';
+import { getAIUsageMonth, getUserProfile, recordAIUsage, updateAISettings } from './goalsRepository';
+import { estimateCost } from './aiPricing';
+import type { CompletionResult } from './aiProviders';
+import type { AISettings } from '../types';
+
+export type BudgetStatus = 'ok' | 'soft' | 'hard';
+
+export interface UsageBudget {
+  status: BudgetStatus;
+  /** Estimated spend this calendar month in USD. */
+  monthCost: number;
+  softCap: number | null;
+  hardCap: number | null;
+}
+
+/** What an AI call was for, so usage can be attributed per goal. */
+export interface UsageContext {
+  goalId?: string;
+  conversationId?: string;
+}
+
+export const currentUsageMonth = (date = new Date()) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+
+interface BudgetState {
+  userId: string;
+  month: string;
+  monthCost: number;
+  settings: AISettings;
+}
+
+// The month's running cost is loaded once per user and month, then kept up
+// to date locally as calls are tracked.
+let budgetState: BudgetState | null = null;
+let loadingState: Promise<BudgetState | null> | null = null;
+const listeners = new Set<(budget: UsageBudget) => void>();
+
+const toBudget = (state: BudgetState | null): UsageBudget => {
+  const softCap = state?.settings.softMonthlyCap ?? null;
+  const hardCap = state?.settings.hardMonthlyCap ?? null;
+  const monthCost = state?.monthCost ?? 0;
+
+  let status: BudgetStatus = 'ok';
+  if (hardCap !== null && monthCost >= hardCap) status = 'hard';
+  else if (softCap !== null && monthCost >= softCap) status = 'soft';
+
+  return { status, monthCost, softCap, hardCap };
+};
+
+const notify = () => {
+  const budget = toBudget(budgetState);
+  listeners.forEach(listener => listener(budget));
+};
+
+const loadBudgetState = async (): Promise<BudgetState | null> => {
+  const userId = auth.currentUser?.uid;
+  if (!userId) return null;
+
+  const month = currentUsageMonth();
+  if (budgetState?.userId === userId && budgetState.month === month) return budgetState;
+
+  if (!loadingState) {
+    loadingState = (async () => {
+      try {
+        const [usage, profile] = await Promise.all([getAIUsageMonth(userId, month), getUserProfile(userId)]);
+        budgetState = { userId, month, monthCost: usage?.cost ?? 0, settings: profile?.aiSettings ?? {} };
+        notify();
+        return budgetState;
+      } catch (error) {
+        console.error('Error loading AI budget:', error);
+        return null;
+      } finally {
+        loadingState = null;
+      }
+    })();
+  }
+  return loadingState;
+};
+
+export const getUsageBudget = async (): Promise<UsageBudget> => toBudget(await loadBudgetState());
+
+export const subscribeToUsageBudget = (listener: (budget: UsageBudget) => void) => {
+  listeners.add(listener);
+  getUsageBudget().then(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/** Records the tokens a call used. Never throws; tracking must not break the feature. */
+export const trackUsage = async (feature: string, result: CompletionResult, context: UsageContext = {}) => {
+  if (!result.usage) return;
+
+  const state = await loadBudgetState();
+  if (!state) return;
+
+  const cost = estimateCost(result.model, result.usage);
+  state.monthCost += cost;
+  notify();
+
+  try {
+    await recordAIUsage(state.month, {
+      userId: state.userId,
+      model: result.model,
+      feature,
+      promptTokens: result.usage.promptTokens,
+      completionTokens: result.usage.completionTokens,
+      cost,
+      ...(context.goalId && { goalId: context.goalId }),
+      ...(context.conversationId && { conversationId: context.conversationId })
+    });
+  } catch (error) {
+    console.error('Error tracking AI usage:', error);
+  }
+};
+
+export const saveAISettings = async (userId: string, settings: AISettings) => {
+  await updateAISettings(userId, settings);
+  if (budgetState?.userId === userId) {
+    budgetState.settings = settings;
+    notify();
+  }
+};
@@ -0,0 +1,87 @@
+import { startOfDay } from './dates';
+import type { BoardColumn, Goal, Task } from '../types';
+
+export type BoardColumnId = BoardColumn | 'done';
+
+export const BOARD_COLUMNS: { id: BoardColumnId; label: string }[] = [
+  { id: 'backlog', label: 'Backlog' },
+  { id: 'week', label: 'This Week' },
+  { id: 'doing', label: 'Doing' },
+  { id: 'done', label: 'Done' }
+];
+
+export interface BoardCard {
+  /** Unique across tasks and milestones. */
+  key: string;
+  kind: 'task' | 'milestone';
+  id: string;
+  /** Unset for standalone tasks. */
+  goalId?: string;
+  domain?: Goal['domain'];
+  title: string;
+  dueDate?: Date;
+  priority?: Task['priority'];
+  column: BoardColumnId;
+}
+
+type UnplacedCard = Omit<BoardCard, 'column'> & { column: BoardColumnId | null };
+
+interface BoardItem {
+  completed: boolean;
+  completedDate?: Date;
+  boardColumn?: BoardColumn;
+}
+
+/**
+ * Where an item sits on the board. Finished items only stay in Done for the
+ * week they were finished in; open items use the column they were dragged to,
+ * or This Week when they are due by the end of it.
+ */
+export const boardColumnOf = (
+  item: BoardItem,
+  dueDate: Date | undefined,
+  week: { start: Date; end: Date }
+): BoardColumnId | null => {
+  if (item.completed) return item.completedDate && item.completedDate >= week.start ? 'done' : null;
+  if (item.boardColumn) return item.boardColumn;
+  return dueDate && startOfDay(dueDate) <= week.end ? 'week' : 'backlog';
+};
+
+/** Cards for every open goal's milestones and tasks, plus standalone tasks. */
+export const toBoardCards = (goals: Goal[], tasks: Task[], week: { start: Date; end: Date }): BoardCard[] => {
+  const openGoals = goals.filter(goal => goal.status !== 'completed');
+  const goalsById = new Map(openGoals.map(goal => [goal.id, goal]));
+
+  const milestoneCards: UnplacedCard[] = openGoals.flatMap(goal => goal.milestones.map(milestone => ({
+    key: `milestone:${goal.id}:${milestone.id}`,
+    kind: 'milestone',
+    id: milestone.id,
+    goalId: goal.id,
+    domain: goal.domain,
+    title: milestone.title,
+    dueDate: milestone.targetDate,
+    column: boardColumnOf(milestone, milestone.targetDate, week)
+  })));
+
+  const taskCards: UnplacedCard[] = tasks
+    .filter(task => !task.goalId || goalsById.has(task.goalId))
+    .map(task => ({
+      key: `task:${task.id}`,
+      kind: 'task',
+      id: task.id,
+      goalId: task.goalId,
+      domain: task.goalId ? goalsById.get(task.goalId)?.domain : undefined,
+      title: task.title,
+      dueDate: task.dueDate,
+      priority: task.priority,
+      column: boardColumnOf(task, task.dueDate, week)
+    }));
+
+  return [...milestoneCards, ...taskCards].filter((card): card is BoardCard => card.column !== null);
+};
+
+/** Fields to write when an item is dropped on `column`. */
+export const boardMoveUpdates = (column: BoardColumnId, completedDate?: Date): Partial<BoardItem> =>
+  column === 'done'
+    ? { completed: true, completedDate: completedDate ?? new Date() }
+    : { completed: false, completedDate: undefined, boardColumn: column };
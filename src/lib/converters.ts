@@ -0,0 +1,456 @@
+import {
+  Timestamp,
+  type DocumentData,
+  type FirestoreDataConverter,
+  type PartialWithFieldValue,
+  type QueryDocumentSnapshot,
+  type SnapshotOptions
+} from 'firebase/firestore';
+import type {
+  AIUsageMonth,
+  AIUsageRecord,
+  AIUsageTotals,
+  DaySchedule,
+  Goal,
+  GoalConversation,
+  Habit,
+  Metric,
+  Milestone,
+  Reflection,
+  Routine,
+  RoutineRun,
+  Task,
+  TimeBlock,
+  TimeEntry,
+  User,
+  UserNotification
+} from '../types';
+
+/**
+ * Converts a model that lives inside another document (milestones, metrics,
+ * routines, embedded reflections). `toFirestore` accepts partial models so the
+ * same code path serializes both full writes and `updateDoc` patches.
+ */
+export interface ModelConverter<T> {
+  toFirestore(model: Partial<T>): DocumentData;
+  fromFirestore(data: DocumentData): T;
+}
+
+type FieldMappers = Record<string, (value: never) => unknown>;
+
+/**
+ * Accepts anything Firestore or older documents might hold for a date field:
+ * `Timestamp`, `Date`, ISO strings, epoch millis or a plain `{ seconds }` map.
+ */
+export const toDate = (value: unknown): Date | undefined => {
+  if (value === null || value === undefined || value === '') return undefined;
+
+  let date: Date;
+  if (value instanceof Timestamp) {
+    date = value.toDate();
+  } else if (value instanceof Date) {
+    date = value;
+  } else if (typeof value === 'string' || typeof value === 'number') {
+    date = new Date(value);
+  } else if (typeof value === 'object' && 'seconds' in value && typeof value.seconds === 'number') {
+    date = new Date(value.seconds * 1000);
+  } else {
+    return undefined;
+  }
+
+  return isNaN(date.getTime()) ? undefined : date;
+};
+
+const toTimestamp = (value: Date | null | undefined): Timestamp | null => {
+  const date = toDate(value);
+  return date ? Timestamp.fromDate(date) : null;
+};
+
+// Maps only the keys present on the model and drops `undefined`, which
+// Firestore rejects. Present-but-empty dates become `null` so they can be cleared.
+const serialize = (model: object, mappers: FieldMappers = {}): DocumentData => {
+  const data: DocumentData = {};
+  Object.entries(model).forEach(([key, value]) => {
+    const mapped = mappers[key] ? mappers[key](value as never) : value;
+    if (mapped !== undefined) data[key] = mapped;
+  });
+  return data;
+};
+
+const serializeList = <T>(converter: ModelConverter<T>) =>
+  (items: T[] | undefined) => (items ?? []).map(item => converter.toFirestore(item));
+
+const deserializeList = <T>(converter: ModelConverter<T>, items: unknown): T[] =>
+  Array.isArray(items) ? items.map(item => converter.fromFirestore(item as DocumentData)) : [];
+
+export const milestoneConverter: ModelConverter<Milestone> = {
+  toFirestore: (milestone) => serialize(milestone, {
+    targetDate: toTimestamp,
+    completedDate: toTimestamp
+  }),
+  fromFirestore: (data) => ({
+    id: data.id,
+    title: data.title ?? '',
+    description: data.description,
+    targetDate: toDate(data.targetDate) ?? new Date(0),
+    completed: Boolean(data.completed),
+    completedDate: toDate(data.completedDate),
+    frequency: data.frequency,
+    boardColumn: data.boardColumn
+  })
+};
+
+export const metricConverter: ModelConverter<Metric> = {
+  toFirestore: (metric) => serialize(metric, {
+    history: (history: Metric['history'] | undefined) => (history ?? []).map(entry => ({
+      date: toTimestamp(entry.date),
+      value: entry.value
+    }))
+  }),
+  fromFirestore: (data) => ({
+    id: data.id,
+    name: data.name ?? '',
+    type: data.type ?? 'number',
+    target: data.target,
+    current: data.current,
+    unit: data.unit,
+    frequency: data.frequency,
+    history: Array.isArray(data.history)
+      ? data.history.map((entry: DocumentData) => ({
+          date: toDate(entry.date) ?? new Date(0),
+          value: entry.value
+        }))
+      : []
+  })
+};
+
+export const routineRunConverter: ModelConverter<RoutineRun> = {
+  toFirestore: (run) => serialize(run, {
+    startedAt: toTimestamp,
+    completedAt: toTimestamp
+  }),
+  fromFirestore: (data) => ({
+    id: data.id,
+    startedAt: toDate(data.startedAt) ?? new Date(0),
+    completedAt: toDate(data.completedAt) ?? new Date(0),
+    skippedSteps: Array.isArray(data.skippedSteps) ? data.skippedSteps : [],
+    notes: data.notes
+  })
+};
+
+export const routineConverter: ModelConverter<Routine> = {
+  toFirestore: (routine) => serialize(routine, {
+    lastCompleted: toTimestamp,
+    nextDue: toTimestamp,
+    runs: serializeList(routineRunConverter)
+  }),
+  fromFirestore: (data) => ({
+    id: data.id,
+    name: data.name ?? '',
+    description: data.description,
+    frequency: data.frequency ?? 'daily',
+    steps: Array.isArray(data.steps) ? data.steps : [],
+    lastCompleted: toDate(data.lastCompleted),
+    nextDue: toDate(data.nextDue),
+    estimatedMinutes: data.estimatedMinutes,
+    runs: deserializeList(routineRunConverter, data.runs)
+  })
+};
+
+export const habitConverter: ModelConverter<Habit> = {
+  toFirestore: (habit) => serialize(habit, { createdAt: toTimestamp }),
+  fromFirestore: (data) => ({
+    id: data.id,
+    title: data.title ?? '',
+    frequency: data.frequency ?? 'daily',
+    timesPerWeek: data.timesPerWeek,
+    completions: Array.isArray(data.completions) ? data.completions : [],
+    createdAt: toDate(data.createdAt)
+  })
+};
+
+// Habits used to be stored as plain titles. Those become daily habits with an
+// id derived from their position, so check-offs stick until the goal is saved
+// and the migrated habits are written back.
+const deserializeHabits = (items: unknown): Habit[] =>
+  Array.isArray(items)
+    ? items.map((item, index) =>
+        typeof item === 'string'
+          ? { id: `habit-${index}`, title: item, frequency: 'daily', completions: [] }
+          : habitConverter.fromFirestore(item as DocumentData)
+      )
+    : [];
+
+export const reflectionModelConverter: ModelConverter<Reflection> = {
+  toFirestore: (reflection) => serialize(reflection, { date: toTimestamp }),
+  fromFirestore: (data) => ({
+    id: data.id,
+    userId: data.userId,
+    date: toDate(data.date) ?? new Date(0),
+    type: data.type ?? 'weekly',
+    period: data.period,
+    domain: data.domain,
+    progress: data.progress ?? '',
+    challenges: data.challenges ?? '',
+    insights: data.insights ?? '',
+    nextSteps: data.nextSteps ?? '',
+    satisfaction: Number(data.satisfaction) || 0,
+    goalDecisions: data.goalDecisions,
+    domainAssessments: data.domainAssessments,
+    aiSummary: data.aiSummary,
+    recurringChallenges: data.recurringChallenges
+  })
+};
+
+export const goalModelConverter: ModelConverter<Goal> = {
+  toFirestore: (goal) => serialize(goal, {
+    targetDate: toTimestamp,
+    createdAt: toTimestamp,
+    updatedAt: toTimestamp,
+    milestones: serializeList(milestoneConverter),
+    metrics: serializeList(metricConverter),
+    dailyHabits: serializeList(habitConverter),
+    routines: serializeList(routineConverter),
+    reflections: serializeList(reflectionModelConverter),
+    statusHistory: (history: Goal['statusHistory']) => history?.map(change => ({
+      status: change.status,
+      date: toTimestamp(change.date)
+    }))
+  }),
+  fromFirestore: (data) => ({
+    id: data.id,
+    userId: data.userId,
+    title: data.title ?? '',
+    description: data.description ?? '',
+    domain: data.domain,
+    status: data.status ?? 'active',
+    targetDate: toDate(data.targetDate),
+    createdAt: toDate(data.createdAt) ?? new Date(0),
+    updatedAt: toDate(data.updatedAt) ?? new Date(0),
+    milestones: deserializeList(milestoneConverter, data.milestones),
+    metrics: deserializeList(metricConverter, data.metrics),
+    weeklyActions: data.weeklyActions ?? [],
+    dailyHabits: deserializeHabits(data.dailyHabits),
+    routines: deserializeList(routineConverter, data.routines),
+    resources: data.resources ?? [],
+    obstacles: data.obstacles ?? [],
+    successCriteria: data.successCriteria ?? [],
+    reflections: deserializeList(reflectionModelConverter, data.reflections),
+    conversationId: data.conversationId,
+    statusHistory: Array.isArray(data.statusHistory)
+      ? data.statusHistory.map((change: DocumentData) => ({
+          status: change.status,
+          date: toDate(change.date) ?? new Date(0)
+        }))
+      : undefined
+  })
+};
+
+// A draft only holds the fields filled in so far, so defaults from the goal
+// converter must not be added to it.
+const deserializeDraft = (data: DocumentData | undefined): Partial<Goal> => {
+  if (!data) return {};
+  const goal = goalModelConverter.fromFirestore(data);
+  return Object.fromEntries(
+    Object.keys(data).map(key => [key, goal[key as keyof Goal]])
+  ) as Partial<Goal>;
+};
+
+export const goalConversationModelConverter: ModelConverter<GoalConversation> = {
+  toFirestore: (conversation) => serialize(conversation, {
+    draft: (draft: Partial<Goal> | undefined) => draft && goalModelConverter.toFirestore(draft),
+    createdAt: toTimestamp,
+    updatedAt: toTimestamp
+  }),
+  fromFirestore: (data) => ({
+    id: data.id,
+    userId: data.userId,
+    mode: data.mode ?? 'freeform',
+    title: data.title ?? '',
+    messages: Array.isArray(data.messages) ? data.messages : [],
+    draft: deserializeDraft(data.draft),
+    step: data.step,
+    status: data.status ?? 'draft',
+    goalId: data.goalId,
+    createdAt: toDate(data.createdAt) ?? new Date(0),
+    updatedAt: toDate(data.updatedAt) ?? new Date(0)
+  })
+};
+
+export const taskModelConverter: ModelConverter<Task> = {
+  toFirestore: (task) => serialize(task, {
+    dueDate: toTimestamp,
+    completedDate: toTimestamp,
+    createdAt: toTimestamp,
+    updatedAt: toTimestamp
+  }),
+  fromFirestore: (data) => ({
+    id: data.id,
+    userId: data.userId,
+    goalId: data.goalId ?? undefined,
+    title: data.title ?? '',
+    description: data.description,
+    dueDate: toDate(data.dueDate),
+    completed: Boolean(data.completed),
+    completedDate: toDate(data.completedDate),
+    priority: data.priority ?? 'medium',
+    tags: Array.isArray(data.tags) ? data.tags : [],
+    weeklyAction: data.weeklyAction,
+    weekOf: data.weekOf,
+    rolledOver: data.rolledOver,
+    boardColumn: data.boardColumn,
+    estimatedMinutes: data.estimatedMinutes,
+    createdAt: toDate(data.createdAt) ?? new Date(0),
+    updatedAt: toDate(data.updatedAt) ?? new Date(0)
+  })
+};
+
+export const timeEntryModelConverter: ModelConverter<TimeEntry> = {
+  toFirestore: (entry) => serialize(entry, {
+    startedAt: toTimestamp,
+    endedAt: toTimestamp
+  }),
+  fromFirestore: (data) => ({
+    id: data.id,
+    userId: data.userId,
+    goalId: data.goalId ?? undefined,
+    targetKind: data.targetKind ?? 'goal',
+    targetId: data.targetId ?? '',
+    title: data.title ?? '',
+    startedAt: toDate(data.startedAt) ?? new Date(0),
+    endedAt: toDate(data.endedAt) ?? new Date(0),
+    minutes: typeof data.minutes === 'number' ? data.minutes : 0
+  })
+};
+
+export const notificationModelConverter: ModelConverter<UserNotification> = {
+  toFirestore: (notification) => serialize(notification, {
+    date: toTimestamp,
+    createdAt: toTimestamp,
+    readAt: toTimestamp,
+    dismissedAt: toTimestamp,
+    snoozedUntil: toTimestamp,
+    resolvedAt: toTimestamp
+  }),
+  fromFirestore: (data) => ({
+    id: data.id,
+    userId: data.userId,
+    sourceKey: data.sourceKey ?? '',
+    type: data.type ?? 'goal',
+    title: data.title ?? '',
+    message: data.message ?? '',
+    date: toDate(data.date) ?? new Date(0),
+    createdAt: toDate(data.createdAt) ?? new Date(0),
+    readAt: toDate(data.readAt),
+    dismissedAt: toDate(data.dismissedAt),
+    snoozedUntil: toDate(data.snoozedUntil),
+    resolvedAt: toDate(data.resolvedAt)
+  })
+};
+
+export const dayScheduleModelConverter: ModelConverter<DaySchedule> = {
+  toFirestore: (schedule) => serialize(schedule, { updatedAt: toTimestamp }),
+  fromFirestore: (data) => ({
+    id: data.id,
+    userId: data.userId,
+    date: data.date ?? '',
+    blocks: Array.isArray(data.blocks) ? (data.blocks as TimeBlock[]) : [],
+    updatedAt: toDate(data.updatedAt) ?? new Date(0)
+  })
+};
+
+export const userModelConverter: ModelConverter<User> = {
+  toFirestore: (user) => serialize(user, {
+    domains: (domains: User['domains']) => domains && Object.fromEntries(
+      Object.entries(domains).map(([id, review]) => [id, {
+        lastReview: toTimestamp(review.lastReview),
+        nextReview: toTimestamp(review.nextReview),
+        ...(review.cadence && { cadence: review.cadence })
+      }])
+    )
+  }),
+  fromFirestore: (data) => ({
+    id: data.id,
+    email: data.email ?? '',
+    displayName: data.displayName ?? null,
+    domains: data.domains && Object.fromEntries(
+      Object.entries(data.domains as Record<string, DocumentData>).map(([id, review]) => [id, {
+        lastReview: toDate(review?.lastReview) ?? null,
+        nextReview: toDate(review?.nextReview) ?? null,
+        cadence: review?.cadence
+      }])
+    ),
+    aiSettings: data.aiSettings,
+    planning: data.planning,
+    reviews: data.reviews
+  })
+};
+
+export const aiUsageRecordModelConverter: ModelConverter<AIUsageRecord> = {
+  toFirestore: (record) => serialize(record, { createdAt: toTimestamp }),
+  fromFirestore: (data) => ({
+    id: data.id,
+    userId: data.userId,
+    model: data.model ?? '',
+    feature: data.feature ?? '',
+    promptTokens: Number(data.promptTokens) || 0,
+    completionTokens: Number(data.completionTokens) || 0,
+    cost: Number(data.cost) || 0,
+    goalId: data.goalId,
+    conversationId: data.conversationId,
+    createdAt: toDate(data.createdAt) ?? new Date(0)
+  })
+};
+
+const toUsageTotals = (data: DocumentData | undefined): AIUsageTotals => ({
+  promptTokens: Number(data?.promptTokens) || 0,
+  completionTokens: Number(data?.completionTokens) || 0,
+  requests: Number(data?.requests) || 0,
+  cost: Number(data?.cost) || 0
+});
+
+const toUsageBreakdown = (data: unknown): Record<string, AIUsageTotals> =>
+  data && typeof data === 'object'
+    ? Object.fromEntries(Object.entries(data as Record<string, DocumentData>).map(([key, totals]) => [key, toUsageTotals(totals)]))
+    : {};
+
+// Month documents are only written with `increment()` patches, never through
+// `toFirestore`, so only the read side needs mapping.
+export const aiUsageMonthModelConverter: ModelConverter<AIUsageMonth> = {
+  toFirestore: (month) => serialize(month),
+  fromFirestore: (data) => ({
+    id: data.id,
+    userId: data.userId,
+    month: data.month ?? '',
+    ...toUsageTotals(data),
+    byFeature: toUsageBreakdown(data.byFeature),
+    byModel: toUsageBreakdown(data.byModel)
+  })
+};
+
+/**
+ * Lifts a model converter to a `FirestoreDataConverter` for top-level
+ * collections: the document id comes from the snapshot and is never stored.
+ */
+const toDocumentConverter = <T extends { id: string }>(
+  converter: ModelConverter<T>
+): FirestoreDataConverter<T> => ({
+  toFirestore: (model: PartialWithFieldValue<T>) => {
+    const data = converter.toFirestore(model as Partial<T>);
+    delete data.id;
+    return data;
+  },
+  fromFirestore: (snapshot: QueryDocumentSnapshot, options?: SnapshotOptions) =>
+    converter.fromFirestore({ ...snapshot.data(options), id: snapshot.id })
+});
+
+export const goalConverter = toDocumentConverter(goalModelConverter);
+export const reflectionConverter = toDocumentConverter(reflectionModelConverter);
+export const userConverter = toDocumentConverter(userModelConverter);
+export const goalConversationConverter = toDocumentConverter(goalConversationModelConverter);
+export const aiUsageRecordConverter = toDocumentConverter(aiUsageRecordModelConverter);
+export const aiUsageMonthConverter = toDocumentConverter(aiUsageMonthModelConverter);
+export const taskConverter = toDocumentConverter(taskModelConverter);
+export const dayScheduleConverter = toDocumentConverter(dayScheduleModelConverter);
+export const timeEntryConverter = toDocumentConverter(timeEntryModelConverter);
+export const notificationConverter = toDocumentConverter(notificationModelConverter);
@@ -0,0 +1,66 @@
+import { isSameDay, startOfDay } from './dates';
+import { isHabitDoneOn, isHabitPendingToday } from './habits';
+import { isRoutineDue } from './routines';
+import type { Goal, Habit, Milestone, Routine, Task } from '../types';
+
+/** Everything on the plate for one day, across active goals and standalone tasks. */
+export interface DailyPlan {
+  habits: { goal: Goal; habit: Habit }[];
+  routines: { goal: Goal; routine: Routine }[];
+  tasks: Task[];
+  milestones: { goal: Goal; milestone: Milestone }[];
+}
+
+export type DailyPlanSection = keyof DailyPlan;
+
+export interface DaySummary {
+  done: number;
+  total: number;
+  sections: Record<DailyPlanSection, { done: number; total: number }>;
+}
+
+const isDueBy = (date: Date | undefined, day: Date) => date !== undefined && startOfDay(date) <= startOfDay(day);
+
+const doneOn = (completedDate: Date | undefined, day: Date) => completedDate !== undefined && isSameDay(completedDate, day);
+
+export const isRoutineDoneOn = (routine: Routine, day: Date): boolean => doneOn(routine.lastCompleted, day);
+
+/**
+ * What to do on `day`: open items due that day or earlier, plus items already
+ * finished that day so checking something off doesn't make it disappear.
+ */
+export const getDailyPlan = (goals: Goal[], tasks: Task[], day: Date = new Date(), weekStartsOn = 1): DailyPlan => {
+  const activeGoals = goals.filter(goal => goal.status === 'active');
+  const activeGoalIds = new Set(activeGoals.map(goal => goal.id));
+
+  return {
+    habits: activeGoals.flatMap(goal => goal.dailyHabits
+      .filter(habit => isHabitPendingToday(habit, day, weekStartsOn) || isHabitDoneOn(habit, day))
+      .map(habit => ({ goal, habit }))),
+    routines: activeGoals.flatMap(goal => goal.routines
+      .filter(routine => isRoutineDoneOn(routine, day) || isRoutineDue(routine, day))
+      .map(routine => ({ goal, routine }))),
+    tasks: tasks.filter(task =>
+      (!task.goalId || activeGoalIds.has(task.goalId))
+      && (task.completed ? doneOn(task.completedDate, day) : isDueBy(task.dueDate, day))),
+    milestones: activeGoals.flatMap(goal => goal.milestones
+      .filter(milestone => milestone.completed ? doneOn(milestone.completedDate, day) : isDueBy(milestone.targetDate, day))
+      .map(milestone => ({ goal, milestone })))
+  };
+};
+
+export const summarizeDay = (plan: DailyPlan, day: Date = new Date()): DaySummary => {
+  const sections: DaySummary['sections'] = {
+    habits: { done: plan.habits.filter(({ habit }) => isHabitDoneOn(habit, day)).length, total: plan.habits.length },
+    routines: { done: plan.routines.filter(({ routine }) => isRoutineDoneOn(routine, day)).length, total: plan.routines.length },
+    tasks: { done: plan.tasks.filter(task => task.completed).length, total: plan.tasks.length },
+    milestones: { done: plan.milestones.filter(({ milestone }) => milestone.completed).length, total: plan.milestones.length }
+  };
+  const counts = Object.values(sections);
+
+  return {
+    done: counts.reduce((sum, count) => sum + count.done, 0),
+    total: counts.reduce((sum, count) => sum + count.total, 0),
+    sections
+  };
+};
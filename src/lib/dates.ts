@@ -0,0 +1,20 @@
+export const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+/** The local calendar day of `date` as `YYYY-MM-DD`. */
+export const toDateKey = (date: Date): string =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+export const fromDateKey = (key: string): Date => {
+  const [year, month, day] = key.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+export const startOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+export const addDays = (date: Date, days: number) => new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+
+/** First day of the week containing `date`; weeks start on `weekStartsOn` (0 = Sunday), Monday by default. */
+export const startOfWeek = (date: Date, weekStartsOn = 1): Date =>
+  addDays(startOfDay(date), -((date.getDay() - weekStartsOn + 7) % 7));
+
+export const isSameDay = (a: Date, b: Date): boolean => toDateKey(a) === toDateKey(b);
@@ -0,0 +1,47 @@
+import { addDays, startOfDay } from './dates';
+import { computeNextDue } from './routines';
+import type { DomainReview } from './goalsRepository';
+import type { ReflectionPrompts, ReviewType } from './reviews';
+
+export const DEFAULT_DOMAIN_CADENCE: ReviewType = 'monthly';
+
+export const DOMAIN_REVIEW_PROMPTS: ReflectionPrompts = {
+  progress: 'How has this area of your life been going?',
+  challenges: 'What is out of balance or being neglected?',
+  insights: 'What have you learned about what matters here?',
+  nextSteps: 'What will you change before the next review?'
+};
+
+// How far back the first review of a domain looks
+const LOOKBACK_DAYS: Record<ReviewType, number> = {
+  weekly: 7,
+  monthly: 30,
+  quarterly: 91,
+  annual: 365
+};
+
+export const domainCadence = (review: DomainReview | undefined): ReviewType =>
+  review?.cadence ?? DEFAULT_DOMAIN_CADENCE;
+
+/** The domain's review dates after reviewing it on `reviewedAt`. */
+export const completeDomainReview = (cadence: ReviewType, reviewedAt: Date): DomainReview => ({
+  lastReview: reviewedAt,
+  nextReview: computeNextDue(cadence, reviewedAt),
+  cadence
+});
+
+/** The next review is today or earlier. */
+export const isDomainReviewDue = (review: DomainReview | undefined, now: Date = new Date()): boolean =>
+  !!review?.nextReview && startOfDay(review.nextReview) <= startOfDay(now);
+
+export const isDomainReviewOverdue = (review: DomainReview | undefined, now: Date = new Date()): boolean =>
+  !!review?.nextReview && startOfDay(review.nextReview) < startOfDay(now);
+
+/** What a domain review looks back over: everything since the last one. */
+export const domainReviewRange = (review: DomainReview | undefined, now: Date = new Date()): { start: Date; end: Date } => {
+  const end = startOfDay(now);
+  return {
+    start: review?.lastReview ? startOfDay(review.lastReview) : addDays(end, -LOOKBACK_DAYS[domainCadence(review)]),
+    end
+  };
+};
@@ -0,0 +1,147 @@
+import type { NewTimeEntry } from './goalsRepository';
+import type { TimeEntry } from '../types';
+
+export type FocusPhase = 'work' | 'shortBreak' | 'longBreak';
+
+export type FocusTarget = Pick<TimeEntry, 'goalId' | 'targetKind' | 'targetId' | 'title'>;
+
+/** Phase lengths in minutes. */
+export const FOCUS_DURATIONS: Record<FocusPhase, number> = {
+  work: 25,
+  shortBreak: 5,
+  longBreak: 15
+};
+
+export const FOCUS_PHASE_LABELS: Record<FocusPhase, string> = {
+  work: 'Focus',
+  shortBreak: 'Short break',
+  longBreak: 'Long break'
+};
+
+// Every fourth finished pomodoro earns a long break
+const POMODOROS_PER_LONG_BREAK = 4;
+
+// Stopping before this much work logs nothing
+const MIN_LOGGED_MS = 60 * 1000;
+
+// Per user, so a shared browser never shows one account's timer to another
+const storageKey = (userId: string) => `focusSession:${userId}`;
+
+/**
+ * A running or paused pomodoro cycle. Times are epoch millis so the session
+ * can be stored as JSON and picked up again after a refresh.
+ */
+export interface FocusSession {
+  target: FocusTarget;
+  phase: FocusPhase;
+  phaseStartedAt: number;
+  /** Unset while paused. */
+  phaseEndsAt?: number;
+  /** Time left in the phase; only set while paused. */
+  pausedRemainingMs?: number;
+  completedPomodoros: number;
+}
+
+const phaseMs = (phase: FocusPhase) => FOCUS_DURATIONS[phase] * 60 * 1000;
+
+const startPhase = (session: FocusSession, phase: FocusPhase, now: number): FocusSession => ({
+  ...session,
+  phase,
+  phaseStartedAt: now,
+  phaseEndsAt: now + phaseMs(phase),
+  pausedRemainingMs: undefined
+});
+
+export const startFocusSession = (target: FocusTarget, now: number = Date.now()): FocusSession =>
+  startPhase({ target, phase: 'work', phaseStartedAt: now, completedPomodoros: 0 }, 'work', now);
+
+export const isFocusPaused = (session: FocusSession): boolean => session.phaseEndsAt === undefined;
+
+export const getRemainingMs = (session: FocusSession, now: number = Date.now()): number =>
+  session.phaseEndsAt === undefined ? session.pausedRemainingMs ?? 0 : Math.max(0, session.phaseEndsAt - now);
+
+export const pauseFocusSession = (session: FocusSession, now: number = Date.now()): FocusSession => ({
+  ...session,
+  phaseEndsAt: undefined,
+  pausedRemainingMs: getRemainingMs(session, now)
+});
+
+export const resumeFocusSession = (session: FocusSession, now: number = Date.now()): FocusSession => ({
+  ...session,
+  phaseEndsAt: now + getRemainingMs(session, now),
+  pausedRemainingMs: undefined
+});
+
+/** Id of the entry a work phase is logged under; the same in every tab. */
+export const timeEntryId = (userId: string, session: FocusSession) => `${userId}_${session.phaseStartedAt}`;
+
+/** The work done so far in the current phase, or null if it's a break or too short to log. */
+export const toTimeEntry = (session: FocusSession, now: number = Date.now()): NewTimeEntry | null => {
+  if (session.phase !== 'work') return null;
+
+  const workedMs = phaseMs('work') - getRemainingMs(session, now);
+  if (workedMs < MIN_LOGGED_MS) return null;
+
+  const endedAt = session.phaseEndsAt !== undefined ? Math.min(now, session.phaseEndsAt) : now;
+  return {
+    ...(session.target.goalId && { goalId: session.target.goalId }),
+    targetKind: session.target.targetKind,
+    targetId: session.target.targetId,
+    title: session.target.title,
+    startedAt: new Date(session.phaseStartedAt),
+    endedAt: new Date(endedAt),
+    minutes: Math.round(workedMs / 60000)
+  };
+};
+
+/**
+ * Ends the current phase (because it ran out or was skipped) and starts the
+ * next one now. A phase that ran out while the page was closed doesn't chain
+ * into further phases, so no time is logged for the gap.
+ */
+export const advanceFocusSession = (session: FocusSession, now: number = Date.now()): FocusSession => {
+  if (session.phase !== 'work') return startPhase(session, 'work', now);
+
+  // Skipping work early doesn't count towards the long break
+  const finished = getRemainingMs(session, now) === 0;
+  const completedPomodoros = session.completedPomodoros + (finished ? 1 : 0);
+  const next = finished && completedPomodoros % POMODOROS_PER_LONG_BREAK === 0 ? 'longBreak' : 'shortBreak';
+  return startPhase({ ...session, completedPomodoros }, next, now);
+};
+
+export const loadFocusSession = (userId: string): FocusSession | null => {
+  try {
+    const stored = localStorage.getItem(storageKey(userId));
+    return stored ? (JSON.parse(stored) as FocusSession) : null;
+  } catch (error) {
+    console.error('Error loading focus session:', error);
+    return null;
+  }
+};
+
+export const storeFocusSession = (userId: string, session: FocusSession | null) => {
+  if (session) {
+    localStorage.setItem(storageKey(userId), JSON.stringify(session));
+  } else {
+    localStorage.removeItem(storageKey(userId));
+  }
+};
+
+/** Fires in other tabs when the user's stored session changes. */
+export const isFocusSessionStorageEvent = (event: StorageEvent, userId: string) => event.key === storageKey(userId);
+
+/** 95 → "1h 35m" */
+export const formatMinutes = (minutes: number): string => {
+  const hours = Math.floor(minutes / 60);
+  const rest = Math.round(minutes % 60);
+  if (hours === 0) return `${rest}m`;
+  return rest === 0 ? `${hours}h` : `${hours}h ${rest}m`;
+};
+
+/** Total minutes per key, e.g. per goal. Entries without a key are skipped. */
+export const sumMinutesBy = (entries: TimeEntry[], keyOf: (entry: TimeEntry) => string | undefined): Record<string, number> =>
+  entries.reduce<Record<string, number>>((totals, entry) => {
+    const key = keyOf(entry);
+    if (key) totals[key] = (totals[key] ?? 0) + entry.minutes;
+    return totals;
+  }, {});
@@ -0,0 +1,27 @@
+import { getConsistencyScore } from './habits';
+import type { Goal } from '../types';
+
+export interface GoalProgress {
+  /** Overall 0–100. */
+  percentage: number;
+  /** Share of milestones completed, 0–100, or null without milestones. */
+  milestones: number | null;
+  /** Habit consistency score, 0–100, or null without tracked habits. */
+  consistency: number | null;
+}
+
+/**
+ * Milestones show how far along a goal is and habits show whether the work
+ * behind it is happening, so progress averages the two when both exist.
+ */
+export const getGoalProgress = (goal: Goal, today: Date = new Date()): GoalProgress => {
+  const milestones = goal.milestones.length > 0
+    ? Math.round((goal.milestones.filter(m => m.completed).length / goal.milestones.length) * 100)
+    : null;
+  const consistency = getConsistencyScore(goal.dailyHabits, today);
+
+  const parts = [milestones, consistency].filter((part): part is number => part !== null);
+  const percentage = parts.length > 0 ? Math.round(parts.reduce((sum, part) => sum + part, 0) / parts.length) : 0;
+
+  return { percentage, milestones, consistency };
+};
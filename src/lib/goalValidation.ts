@@ -0,0 +1,347 @@
+import { toDate } from './converters';
+import { createHabit, HABIT_FREQUENCIES } from './habits';
+import type { BoardColumn, Goal, Habit, Metric, Milestone, Routine, RoutineRun } from '../types';
+
+export type GoalDraft = Omit<Goal, 'id' | 'userId' | 'createdAt' | 'updatedAt'>;
+
+export interface ValidationIssue {
+  path: string;
+  message: string;
+  /** Errors block saving; warnings describe a value that was coerced or dropped. */
+  severity: 'error' | 'warning';
+}
+
+/**
+ * `draft` drops routines and metrics that can't be used (AI output), `form`
+ * reports them as errors so the user fixes them before saving, and `stored`
+ * only reports them so a read never loses data that a later write would persist.
+ */
+export type ValidationMode = 'draft' | 'form' | 'stored';
+
+export interface ValidationResult<T> {
+  value: T;
+  issues: ValidationIssue[];
+  valid: boolean;
+}
+
+export const GOAL_DOMAINS: Goal['domain'][] = ['financial', 'health', 'family', 'personal', 'community', 'home', 'work'];
+export const GOAL_STATUSES: Goal['status'][] = ['active', 'completed', 'paused'];
+const MILESTONE_FREQUENCIES: NonNullable<Milestone['frequency']>[] = ['once', 'daily', 'weekly', 'monthly'];
+const BOARD_COLUMNS: BoardColumn[] = ['backlog', 'week', 'doing'];
+const METRIC_TYPES: Metric['type'][] = ['number', 'boolean', 'rating'];
+const METRIC_FREQUENCIES: NonNullable<Metric['frequency']>[] = ['daily', 'weekly', 'monthly'];
+const ROUTINE_FREQUENCIES: Routine['frequency'][] = ['daily', 'weekly', 'monthly', 'quarterly', 'annual'];
+
+const DOMAIN_ALIASES: Record<string, Goal['domain']> = {
+  finance: 'financial',
+  finances: 'financial',
+  money: 'financial',
+  wellness: 'health',
+  fitness: 'health',
+  relationships: 'family',
+  'personal growth': 'personal',
+  career: 'work',
+  job: 'work'
+};
+
+type UnknownRecord = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is UnknownRecord =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const text = (value: unknown): string =>
+  typeof value === 'string' ? value.trim() : typeof value === 'number' ? String(value) : '';
+
+const oneOf = <T extends string>(value: unknown, allowed: T[]): T | undefined => {
+  const normalized = text(value).toLowerCase();
+  return allowed.find(option => option === normalized);
+};
+
+const toNumber = (value: unknown): number | undefined => {
+  if (typeof value === 'number') return isNaN(value) ? undefined : value;
+  const parsed = parseFloat(text(value).replace(/[^0-9.-]/g, ''));
+  return isNaN(parsed) ? undefined : parsed;
+};
+
+const idOf = (value: UnknownRecord) => typeof value.id === 'string' && value.id ? value.id : crypto.randomUUID();
+
+const stringList = (value: unknown, path: string, issues: ValidationIssue[]): string[] => {
+  if (value === undefined || value === null) return [];
+  if (!Array.isArray(value)) {
+    issues.push({ path, message: 'Expected a list and ignored the value', severity: 'warning' });
+    return [];
+  }
+  return value.map(text).filter(item => item !== '');
+};
+
+// Records an unusable routine or metric; returns whether to drop it
+const reportIncomplete = (issues: ValidationIssue[], mode: ValidationMode, path: string, problem: string): boolean => {
+  issues.push({
+    path,
+    message: mode === 'draft' ? `${problem} and was removed` : problem,
+    severity: mode === 'form' ? 'error' : 'warning'
+  });
+  return mode !== 'stored';
+};
+
+const validateDomain = (value: unknown, issues: ValidationIssue[]): Goal['domain'] => {
+  const raw = text(value).toLowerCase();
+  const domain = oneOf(raw, GOAL_DOMAINS) ?? DOMAIN_ALIASES[raw];
+  if (domain) return domain;
+
+  issues.push({
+    path: 'domain',
+    message: raw ? `"${raw}" is not a known life domain` : 'Domain is required',
+    severity: 'error'
+  });
+  return 'personal';
+};
+
+const validateMilestones = (
+  value: unknown,
+  fallbackDate: Date,
+  issues: ValidationIssue[]
+): Milestone[] => {
+  if (!Array.isArray(value)) return [];
+
+  return value.flatMap((item, index): Milestone[] => {
+    const path = `milestones[${index}]`;
+    if (!isRecord(item) || !text(item.title)) {
+      issues.push({ path, message: 'Milestone without a title was removed', severity: 'warning' });
+      return [];
+    }
+
+    let targetDate = toDate(item.targetDate);
+    if (!targetDate) {
+      issues.push({
+        path: `${path}.targetDate`,
+        message: `"${text(item.title)}" had no valid date and now uses ${fallbackDate.toLocaleDateString()}`,
+        severity: 'warning'
+      });
+      targetDate = fallbackDate;
+    }
+
+    const completedDate = toDate(item.completedDate);
+    const boardColumn = oneOf(item.boardColumn, BOARD_COLUMNS);
+    return [{
+      id: idOf(item),
+      title: text(item.title),
+      description: text(item.description),
+      targetDate,
+      completed: item.completed === true,
+      ...(completedDate && { completedDate }),
+      frequency: oneOf(item.frequency, MILESTONE_FREQUENCIES) ?? 'once',
+      ...(boardColumn && { boardColumn })
+    }];
+  });
+};
+
+const validateMetrics = (value: unknown, issues: ValidationIssue[], mode: ValidationMode): Metric[] => {
+  if (!Array.isArray(value)) return [];
+
+  return value.flatMap((item, index): Metric[] => {
+    const path = `metrics[${index}]`;
+    if (!isRecord(item)) {
+      issues.push({ path, message: 'Metric that is not an object was removed', severity: 'warning' });
+      return [];
+    }
+    if (!text(item.name) && reportIncomplete(issues, mode, path, 'A metric has no name')) return [];
+
+    const name = text(item.name);
+    const type = oneOf(item.type, METRIC_TYPES) ?? (typeof item.target === 'boolean' ? 'boolean' : 'number');
+    if (item.type !== undefined && type !== item.type) {
+      issues.push({ path: `${path}.type`, message: `"${name}" was treated as a ${type} metric`, severity: 'warning' });
+    }
+
+    let target: number | boolean;
+    let current: number | boolean;
+    if (type === 'boolean') {
+      target = item.target === undefined ? true : Boolean(item.target);
+      current = item.current === true;
+    } else {
+      const numericTarget = toNumber(item.target);
+      if (numericTarget === undefined) {
+        if (reportIncomplete(issues, mode, `${path}.target`, `"${name}" has no numeric target`)) return [];
+      }
+      target = numericTarget ?? ((item.target ?? 0) as number);
+      current = toNumber(item.current) ?? 0;
+    }
+
+    const frequency = oneOf(item.frequency, METRIC_FREQUENCIES);
+    const history = Array.isArray(item.history)
+      ? item.history.flatMap(entry => {
+          const date = isRecord(entry) ? toDate(entry.date) : undefined;
+          return date && isRecord(entry) ? [{ date, value: entry.value as number | boolean }] : [];
+        })
+      : [];
+
+    return [{
+      id: idOf(item),
+      name,
+      type,
+      target,
+      current,
+      unit: text(item.unit),
+      ...(frequency && { frequency }),
+      history
+    }];
+  });
+};
+
+const validateRoutines = (value: unknown, issues: ValidationIssue[], mode: ValidationMode): Routine[] => {
+  if (!Array.isArray(value)) return [];
+
+  return value.flatMap((item, index): Routine[] => {
+    const path = `routines[${index}]`;
+    if (!isRecord(item)) {
+      issues.push({ path, message: 'Routine that is not an object was removed', severity: 'warning' });
+      return [];
+    }
+    if (!text(item.name) && reportIncomplete(issues, mode, path, 'A routine has no name')) return [];
+
+    const name = text(item.name);
+    const steps = stringList(item.steps, `${path}.steps`, issues);
+    if (steps.length === 0 && reportIncomplete(issues, mode, `${path}.steps`, `"${name}" has no steps`)) return [];
+
+    let frequency = oneOf(item.frequency, ROUTINE_FREQUENCIES);
+    if (!frequency) {
+      issues.push({ path: `${path}.frequency`, message: `"${name}" now repeats daily`, severity: 'warning' });
+      frequency = 'daily';
+    }
+
+    const lastCompleted = toDate(item.lastCompleted);
+    const nextDue = toDate(item.nextDue);
+    const estimatedMinutes = toNumber(item.estimatedMinutes);
+    const runs = Array.isArray(item.runs)
+      ? item.runs.flatMap((run): RoutineRun[] => {
+          if (!isRecord(run)) return [];
+          const startedAt = toDate(run.startedAt);
+          const completedAt = toDate(run.completedAt);
+          if (!startedAt || !completedAt) return [];
+          return [{
+            id: idOf(run),
+            startedAt,
+            completedAt,
+            skippedSteps: stringList(run.skippedSteps, `${path}.runs.skippedSteps`, issues),
+            ...(text(run.notes) && { notes: text(run.notes) })
+          }];
+        })
+      : [];
+    return [{
+      id: idOf(item),
+      name,
+      description: text(item.description),
+      frequency,
+      steps,
+      ...(lastCompleted && { lastCompleted }),
+      ...(nextDue && { nextDue }),
+      ...(estimatedMinutes && estimatedMinutes > 0 && { estimatedMinutes: Math.round(estimatedMinutes) }),
+      ...(runs.length > 0 && { runs })
+    }];
+  });
+};
+
+// Accepts plain titles (AI output, older goals) as well as full habits.
+const validateHabits = (value: unknown, issues: ValidationIssue[]): Habit[] => {
+  if (!Array.isArray(value)) return [];
+
+  return value.flatMap((item, index): Habit[] => {
+    const path = `dailyHabits[${index}]`;
+    if (!isRecord(item)) {
+      return text(item) ? [createHabit(text(item))] : [];
+    }
+
+    const title = text(item.title);
+    if (!title) {
+      issues.push({ path, message: 'Habit without a title was removed', severity: 'warning' });
+      return [];
+    }
+
+    let frequency = oneOf(item.frequency, HABIT_FREQUENCIES);
+    if (!frequency) {
+      issues.push({ path: `${path}.frequency`, message: `"${title}" is now a daily habit`, severity: 'warning' });
+      frequency = 'daily';
+    }
+
+    const timesPerWeek = Math.min(7, Math.max(1, Math.round(toNumber(item.timesPerWeek) ?? 3)));
+    const completions = Array.isArray(item.completions)
+      ? item.completions.filter((day): day is string => typeof day === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(day))
+      : [];
+    const createdAt = toDate(item.createdAt);
+    return [{
+      id: idOf(item),
+      title,
+      frequency,
+      ...(frequency === 'weekly' && { timesPerWeek }),
+      completions,
+      ...(createdAt && { createdAt })
+    }];
+  });
+};
+
+/**
+ * Normalizes untrusted goal data (AI extraction output, form state) into a
+ * `GoalDraft`. Bad optional values are coerced or dropped with a warning;
+ * missing title, description or domain are reported as errors. See
+ * `ValidationMode` for how unusable routines and metrics are handled.
+ */
+export const validateGoalDraft = (input: unknown, mode: ValidationMode = 'draft'): ValidationResult<GoalDraft> => {
+  const issues: ValidationIssue[] = [];
+  const data = isRecord(input) ? input : {};
+
+  const title = text(data.title);
+  if (!title) issues.push({ path: 'title', message: 'Title is required', severity: 'error' });
+
+  const description = text(data.description);
+  if (!description) issues.push({ path: 'description', message: 'Description is required', severity: 'error' });
+
+  const domain = validateDomain(data.domain, issues);
+
+  const status = oneOf(data.status, GOAL_STATUSES) ?? 'active';
+
+  const targetDate = toDate(data.targetDate);
+  if (data.targetDate && !targetDate) {
+    issues.push({ path: 'targetDate', message: `"${text(data.targetDate)}" is not a valid date and was cleared`, severity: 'warning' });
+  }
+
+  const value: GoalDraft = {
+    title,
+    description,
+    domain,
+    status,
+    ...(targetDate && { targetDate }),
+    milestones: validateMilestones(data.milestones, targetDate ?? new Date(), issues),
+    metrics: validateMetrics(data.metrics, issues, mode),
+    weeklyActions: stringList(data.weeklyActions, 'weeklyActions', issues),
+    dailyHabits: validateHabits(data.dailyHabits, issues),
+    routines: validateRoutines(data.routines, issues, mode),
+    resources: stringList(data.resources, 'resources', issues),
+    obstacles: stringList(data.obstacles, 'obstacles', issues),
+    successCriteria: stringList(data.successCriteria, 'successCriteria', issues),
+    reflections: Array.isArray(data.reflections) ? (data.reflections as Goal['reflections']) : [],
+    ...(text(data.conversationId) && { conversationId: text(data.conversationId) })
+  };
+
+  return { value, issues, valid: !issues.some(issue => issue.severity === 'error') };
+};
+
+/**
+ * Guards a goal read back from Firestore. Identity, timestamps and status
+ * history are kept as stored; everything else goes through the draft rules,
+ * except that incomplete routines and metrics are reported, not dropped.
+ */
+export const validateGoal = (goal: Goal): ValidationResult<Goal> => {
+  const { value, issues, valid } = validateGoalDraft(goal, 'stored');
+  return {
+    value: {
+      ...value,
+      id: goal.id,
+      userId: goal.userId,
+      createdAt: goal.createdAt,
+      updatedAt: goal.updatedAt,
+      ...(goal.statusHistory && { statusHistory: goal.statusHistory })
+    },
+    issues,
+    valid
+  };
+};
@@ -0,0 +1,626 @@
+import {
+  arrayUnion,
+  collection,
+  deleteDoc,
+  doc,
+  getDoc,
+  getDocs,
+  increment,
+  onSnapshot,
+  orderBy,
+  query,
+  setDoc,
+  Timestamp,
+  updateDoc,
+  where,
+  writeBatch,
+  type QueryConstraint,
+  type Unsubscribe,
+  type WriteBatch
+} from 'firebase/firestore';
+import { db } from './firebase';
+import {
+  aiUsageMonthConverter,
+  aiUsageRecordConverter,
+  dayScheduleConverter,
+  goalConversationConverter,
+  goalConversationModelConverter,
+  goalConverter,
+  goalModelConverter,
+  notificationConverter,
+  notificationModelConverter,
+  reflectionConverter,
+  reflectionModelConverter,
+  taskConverter,
+  taskModelConverter,
+  timeEntryConverter,
+  userConverter,
+  userModelConverter
+} from './converters';
+import { validateGoal } from './goalValidation';
+import type {
+  AISettings,
+  AIUsageMonth,
+  AIUsageRecord,
+  Goal,
+  GoalConversation,
+  PlanningSettings,
+  Reflection,
+  Task,
+  TimeBlock,
+  TimeEntry,
+  User,
+  UserNotification
+} from '../types';
+
+export type NewGoal = Omit<Goal, 'id' | 'userId' | 'createdAt' | 'updatedAt'>;
+export type NewReflection = Omit<Reflection, 'id'>;
+export type DomainReview = NonNullable<User['domains']>[string];
+export type NewConversation = Omit<GoalConversation, 'id' | 'userId' | 'createdAt' | 'updatedAt'>;
+export type NewAIUsageRecord = Omit<AIUsageRecord, 'id' | 'createdAt'>;
+export type NewTask = Omit<Task, 'id' | 'userId' | 'createdAt' | 'updatedAt'>;
+export type NewTimeEntry = Omit<TimeEntry, 'id' | 'userId'>;
+/** A reminder as raised by a generator, before it's stored. */
+export type NotificationSource = Pick<UserNotification, 'sourceKey' | 'type' | 'title' | 'message' | 'date'>;
+export type NotificationState = Partial<Pick<UserNotification, 'readAt' | 'dismissedAt' | 'snoozedUntil'>>;
+
+/** Everything the weekly planner changes for one week, written atomically. */
+export interface WeeklyPlanChanges {
+  week: string;
+  /** Keyed by a deterministic id so two tabs planning at once don't duplicate tasks. */
+  created: (NewTask & { id: string })[];
+  rolledOver: { taskId: string; updates: Partial<Task> }[];
+}
+
+/** A finished review: the overall reflection plus one for each reviewed goal. */
+export interface ReviewSubmission {
+  type: Reflection['type'];
+  period: string;
+  overall: NewReflection;
+  goalReflections: { goal: Goal; reflection: Reflection }[];
+  /** Goals paused, resumed or retired as part of the review. */
+  statusChanges?: { goalId: string; status: Goal['status'] }[];
+}
+
+/** Notifications to raise (or bring back) and ids to resolve after checking the generators. */
+export interface NotificationChanges {
+  created: NotificationSource[];
+  resolved: string[];
+}
+
+/** A finished review of one life domain, with notes on its goals and the rescheduled review. */
+export interface DomainReviewSubmission {
+  domainId: string;
+  overall: NewReflection;
+  goalReflections: { goal: Goal; reflection: Reflection }[];
+  review: DomainReview;
+}
+
+export interface GoalFilters {
+  domain?: Goal['domain'] | string;
+  status?: Goal['status'];
+}
+
+/**
+ * Thrown by every repository function so callers can tell which operation
+ * failed without parsing Firebase error messages.
+ */
+export class RepositoryError extends Error {
+  constructor(public operation: string, public cause?: unknown) {
+    super(`Error ${operation}`);
+    this.name = 'RepositoryError';
+  }
+}
+
+const goalsCollection = () => collection(db, 'goals').withConverter(goalConverter);
+const reflectionsCollection = () => collection(db, 'reflections').withConverter(reflectionConverter);
+const tasksCollection = () => collection(db, 'tasks').withConverter(taskConverter);
+const conversationsCollection = () => collection(db, 'conversations').withConverter(goalConversationConverter);
+const timeEntriesCollection = () => collection(db, 'timeEntries').withConverter(timeEntryConverter);
+const notificationsCollection = () => collection(db, 'notifications').withConverter(notificationConverter);
+const daySchedulesCollection = () => collection(db, 'daySchedules').withConverter(dayScheduleConverter);
+const goalDoc = (goalId: string) => doc(db, 'goals', goalId).withConverter(goalConverter);
+const userDoc = (userId: string) => doc(db, 'users', userId).withConverter(userConverter);
+
+const run = async <T>(operation: string, fn: () => Promise<T>): Promise<T> => {
+  try {
+    return await fn();
+  } catch (error) {
+    console.error(`Error ${operation}:`, error);
+    throw new RepositoryError(operation, error);
+  }
+};
+
+// Documents written by older versions or edited by hand are coerced into a
+// valid shape instead of crashing the screens that render them.
+const guardGoal = (goal: Goal): Goal => {
+  const { value, issues } = validateGoal(goal);
+  if (issues.length > 0) {
+    console.warn(`Goal ${goal.id} failed validation:`, issues);
+  }
+  return value;
+};
+
+const goalConstraints = (userId: string, filters: GoalFilters = {}): QueryConstraint[] => {
+  const constraints: QueryConstraint[] = [where('userId', '==', userId)];
+  if (filters.domain) constraints.push(where('domain', '==', filters.domain));
+  if (filters.status) constraints.push(where('status', '==', filters.status));
+  return constraints;
+};
+
+// Status changes are appended without reading the goal, so concurrent
+// updates can't drop an entry.
+const statusChange = (status: Goal['status'] | undefined, date: Date) =>
+  status ? { statusHistory: arrayUnion({ status, date: Timestamp.fromDate(date) }) } : {};
+
+// Goals
+
+export const subscribeToGoals = (
+  userId: string,
+  onChange: (goals: Goal[]) => void,
+  filters: GoalFilters = {}
+): Unsubscribe => {
+  // Filtered queries are sorted here; ordering them in Firestore would need a
+  // composite index per filter combination
+  const hasFilters = Boolean(filters.domain || filters.status);
+  const q = hasFilters
+    ? query(goalsCollection(), ...goalConstraints(userId, filters))
+    : query(goalsCollection(), ...goalConstraints(userId), orderBy('createdAt', 'desc'));
+
+  return onSnapshot(
+    q,
+    (snapshot) => {
+      const goals = snapshot.docs.map(d => guardGoal(d.data()));
+      onChange(hasFilters ? goals.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime()) : goals);
+    },
+    (error) => console.error('Error subscribing to goals:', error)
+  );
+};
+
+export const subscribeToGoal = (
+  goalId: string,
+  onChange: (goal: Goal | null) => void
+): Unsubscribe =>
+  onSnapshot(
+    goalDoc(goalId),
+    (snapshot) => {
+      onChange(snapshot.exists() ? guardGoal(snapshot.data()) : null);
+    },
+    (error) => console.error('Error subscribing to goal:', error)
+  );
+
+export const listGoals = (userId: string, filters: GoalFilters = {}): Promise<Goal[]> =>
+  run('fetching goals', async () => {
+    const snapshot = await getDocs(query(goalsCollection(), ...goalConstraints(userId, filters)));
+    return snapshot.docs.map(d => guardGoal(d.data()));
+  });
+
+export const getGoal = (goalId: string): Promise<Goal | null> =>
+  run('fetching goal', async () => {
+    const snapshot = await getDoc(goalDoc(goalId));
+    return snapshot.exists() ? guardGoal(snapshot.data()) : null;
+  });
+
+export const createGoal = (userId: string, goal: NewGoal): Promise<string> =>
+  run('creating goal', async () => {
+    const ref = doc(goalsCollection());
+    const now = new Date();
+    await setDoc(ref, {
+      ...goal,
+      id: ref.id,
+      userId,
+      createdAt: now,
+      updatedAt: now
+    });
+    return ref.id;
+  });
+
+export const updateGoal = (goalId: string, updates: Partial<Omit<Goal, 'id' | 'userId' | 'createdAt' | 'statusHistory'>>): Promise<void> =>
+  run('updating goal', () => {
+    const now = new Date();
+    return updateDoc(doc(db, 'goals', goalId), {
+      ...goalModelConverter.toFirestore({ ...updates, updatedAt: now }),
+      ...statusChange(updates.status, now)
+    });
+  });
+
+export const deleteGoal = (goalId: string): Promise<void> =>
+  run('deleting goal', () => deleteDoc(doc(db, 'goals', goalId)));
+
+// Reflections
+
+export const createReflection = (reflection: NewReflection): Promise<string> =>
+  run('saving reflection', async () => {
+    const ref = doc(reflectionsCollection());
+    await setDoc(ref, { ...reflection, id: ref.id });
+    return ref.id;
+  });
+
+// Adds a review's overall reflection and appends one reflection to each of
+// its goals; returns the overall reflection's id
+const writeReviewReflections = (
+  batch: WriteBatch,
+  overall: NewReflection,
+  goalReflections: { goal: Goal; reflection: Reflection }[],
+  now: Date
+): string => {
+  const ref = doc(reflectionsCollection());
+  batch.set(ref, { ...overall, id: ref.id });
+  goalReflections.forEach(({ goal, reflection }) => {
+    batch.update(doc(db, 'goals', goal.id), {
+      ...goalModelConverter.toFirestore({ updatedAt: now }),
+      reflections: arrayUnion(reflectionModelConverter.toFirestore(reflection))
+    });
+  });
+  return ref.id;
+};
+
+/**
+ * Saves every reflection of a review and marks the period as reviewed,
+ * atomically. The marker only moves forward, so reviewing an older period
+ * keeps the latest one. Resolves with the id of the overall reflection.
+ */
+export const saveReview = (userId: string, review: ReviewSubmission): Promise<string> =>
+  run('saving review', async () => {
+    const profile = await getDoc(userDoc(userId));
+    const lastReviewed = profile.data()?.reviews?.[review.type];
+    const batch = writeBatch(db);
+    const now = new Date();
+    const reflectionId = writeReviewReflections(batch, review.overall, review.goalReflections, now);
+    review.statusChanges?.forEach(({ goalId, status }) => {
+      batch.update(doc(db, 'goals', goalId), {
+        ...goalModelConverter.toFirestore({ status, updatedAt: now }),
+        ...statusChange(status, now)
+      });
+    });
+    // Period keys (`YYYY-MM-DD` weeks, `YYYY-MM`, `YYYY-Qn`, `YYYY`) sort as strings
+    if (!lastReviewed || review.period > lastReviewed) {
+      batch.update(doc(db, 'users', userId), { [`reviews.${review.type}`]: review.period });
+    }
+    await batch.commit();
+    return reflectionId;
+  });
+
+export const updateReflection = (
+  reflectionId: string,
+  updates: Partial<Omit<Reflection, 'id' | 'userId'>>
+): Promise<void> =>
+  run('updating reflection', () =>
+    updateDoc(doc(db, 'reflections', reflectionId), reflectionModelConverter.toFirestore(updates))
+  );
+
+/** Saves a domain review's reflections and its new review dates, atomically. */
+export const saveDomainReview = (userId: string, submission: DomainReviewSubmission): Promise<void> =>
+  run('saving domain review', async () => {
+    const batch = writeBatch(db);
+    writeReviewReflections(batch, submission.overall, submission.goalReflections, new Date());
+    batch.update(doc(db, 'users', userId), {
+      [`domains.${submission.domainId}`]: userModelConverter.toFirestore({
+        domains: { [submission.domainId]: submission.review }
+      }).domains[submission.domainId]
+    });
+    await batch.commit();
+  });
+
+export const listReflections = (userId: string): Promise<Reflection[]> =>
+  run('fetching reflections', async () => {
+    // Sorted here rather than in the query, which would need a composite index
+    const snapshot = await getDocs(query(reflectionsCollection(), where('userId', '==', userId)));
+    return snapshot.docs.map(d => d.data()).sort((a, b) => b.date.getTime() - a.date.getTime());
+  });
+
+// Tasks
+
+/** All of a user's tasks, or only one goal's when `goalId` is given. */
+export const subscribeToTasks = (
+  userId: string,
+  onChange: (tasks: Task[]) => void,
+  goalId?: string
+): Unsubscribe => {
+  const constraints: QueryConstraint[] = [where('userId', '==', userId)];
+  if (goalId) constraints.push(where('goalId', '==', goalId));
+
+  return onSnapshot(
+    query(tasksCollection(), ...constraints),
+    (snapshot) => {
+      onChange(snapshot.docs.map(d => d.data()));
+    },
+    (error) => console.error('Error subscribing to tasks:', error)
+  );
+};
+
+export const listTasks = (userId: string): Promise<Task[]> =>
+  run('fetching tasks', async () => {
+    const snapshot = await getDocs(query(tasksCollection(), where('userId', '==', userId)));
+    return snapshot.docs.map(d => d.data());
+  });
+
+export const createTasks = (userId: string, tasks: NewTask[]): Promise<string[]> =>
+  run('creating tasks', async () => {
+    const batch = writeBatch(db);
+    const now = new Date();
+    const ids = tasks.map(task => {
+      const ref = doc(tasksCollection());
+      batch.set(ref, { ...task, id: ref.id, userId, createdAt: now, updatedAt: now });
+      return ref.id;
+    });
+    await batch.commit();
+    return ids;
+  });
+
+export const createTask = async (userId: string, task: NewTask): Promise<string> =>
+  (await createTasks(userId, [task]))[0];
+
+export const updateTask = (taskId: string, updates: Partial<Omit<Task, 'id' | 'userId' | 'createdAt'>>): Promise<void> =>
+  run('updating task', () =>
+    updateDoc(doc(db, 'tasks', taskId), taskModelConverter.toFirestore({
+      ...updates,
+      updatedAt: new Date()
+    }))
+  );
+
+export const deleteTask = (taskId: string): Promise<void> =>
+  run('deleting task', () => deleteDoc(doc(db, 'tasks', taskId)));
+
+export const saveWeeklyPlan = (userId: string, changes: WeeklyPlanChanges): Promise<void> =>
+  run('saving weekly plan', async () => {
+    const batch = writeBatch(db);
+    const now = new Date();
+    changes.created.forEach(task => {
+      batch.set(doc(tasksCollection(), task.id), { ...task, userId, createdAt: now, updatedAt: now });
+    });
+    changes.rolledOver.forEach(({ taskId, updates }) => {
+      batch.update(doc(db, 'tasks', taskId), taskModelConverter.toFirestore({ ...updates, updatedAt: now }));
+    });
+    batch.update(doc(db, 'users', userId), { 'planning.lastPlannedWeek': changes.week });
+    await batch.commit();
+  });
+
+// Day schedules
+
+// One document per user and day, so the id is known without a query
+const dayScheduleId = (userId: string, date: string) => `${userId}_${date}`;
+
+export const subscribeToDaySchedule = (
+  userId: string,
+  date: string,
+  onChange: (blocks: TimeBlock[]) => void
+): Unsubscribe =>
+  onSnapshot(
+    doc(daySchedulesCollection(), dayScheduleId(userId, date)),
+    (snapshot) => {
+      onChange(snapshot.data()?.blocks ?? []);
+    },
+    (error) => console.error('Error subscribing to day schedule:', error)
+  );
+
+export const saveDaySchedule = (userId: string, date: string, blocks: TimeBlock[]): Promise<void> =>
+  run('saving day schedule', () =>
+    setDoc(doc(daySchedulesCollection(), dayScheduleId(userId, date)), {
+      id: dayScheduleId(userId, date),
+      userId,
+      date,
+      blocks,
+      updatedAt: new Date()
+    })
+  );
+
+// Time entries
+
+/**
+ * Writes under a caller-chosen id so the same focus session finishing in two
+ * tabs is only logged once.
+ */
+export const saveTimeEntry = (userId: string, entryId: string, entry: NewTimeEntry): Promise<void> =>
+  run('saving time entry', () =>
+    setDoc(doc(timeEntriesCollection(), entryId), { ...entry, id: entryId, userId })
+  );
+
+export const listTimeEntries = (userId: string): Promise<TimeEntry[]> =>
+  run('fetching time entries', async () => {
+    const snapshot = await getDocs(query(timeEntriesCollection(), where('userId', '==', userId)));
+    return snapshot.docs.map(d => d.data());
+  });
+
+// Notifications
+
+const notificationId = (userId: string, sourceKey: string) => `${userId}_${sourceKey}`;
+
+const byDateDesc = (a: UserNotification, b: UserNotification) => b.date.getTime() - a.date.getTime();
+
+export const subscribeToNotifications = (
+  userId: string,
+  onChange: (notifications: UserNotification[]) => void
+): Unsubscribe =>
+  onSnapshot(
+    query(notificationsCollection(), where('userId', '==', userId)),
+    (snapshot) => {
+      onChange(snapshot.docs.map(d => d.data()).sort(byDateDesc));
+    },
+    (error) => console.error('Error subscribing to notifications:', error)
+  );
+
+/** Notifications whose reminder still applies; dismissed ones included. */
+export const listUnresolvedNotifications = (userId: string): Promise<UserNotification[]> =>
+  run('fetching notifications', async () => {
+    const snapshot = await getDocs(
+      query(notificationsCollection(), where('userId', '==', userId), where('resolvedAt', '==', null))
+    );
+    return snapshot.docs.map(d => d.data()).sort(byDateDesc);
+  });
+
+/**
+ * New reminders are merged in under a deterministic id, so one raised in two
+ * tabs at once is stored once and keeps any read state already set. Raising
+ * a resolved reminder again clears `resolvedAt`, bringing it back.
+ */
+export const syncNotifications = (userId: string, changes: NotificationChanges): Promise<void> =>
+  run('syncing notifications', async () => {
+    const batch = writeBatch(db);
+    const now = new Date();
+    changes.created.forEach(source => {
+      const id = notificationId(userId, source.sourceKey);
+      batch.set(
+        doc(db, 'notifications', id),
+        notificationModelConverter.toFirestore({ ...source, id, userId, createdAt: now, resolvedAt: undefined }),
+        { merge: true }
+      );
+    });
+    changes.resolved.forEach(id => {
+      batch.update(doc(db, 'notifications', id), notificationModelConverter.toFirestore({ resolvedAt: now }));
+    });
+    await batch.commit();
+  });
+
+export const updateNotifications = (notificationIds: string[], state: NotificationState): Promise<void> =>
+  run('updating notifications', async () => {
+    const batch = writeBatch(db);
+    notificationIds.forEach(id => {
+      batch.update(doc(db, 'notifications', id), notificationModelConverter.toFirestore(state));
+    });
+    await batch.commit();
+  });
+
+// Conversations
+
+export const subscribeToDraftConversations = (
+  userId: string,
+  onChange: (conversations: GoalConversation[]) => void
+): Unsubscribe => {
+  const q = query(
+    conversationsCollection(),
+    where('userId', '==', userId),
+    where('status', '==', 'draft')
+  );
+
+  // Sorted here rather than in the query, which would need a composite index
+  return onSnapshot(
+    q,
+    (snapshot) => {
+      onChange(snapshot.docs.map(d => d.data()).sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime()));
+    },
+    (error) => console.error('Error subscribing to conversations:', error)
+  );
+};
+
+export const getConversation = (conversationId: string): Promise<GoalConversation | null> =>
+  run('fetching conversation', async () => {
+    const snapshot = await getDoc(doc(db, 'conversations', conversationId).withConverter(goalConversationConverter));
+    return snapshot.exists() ? snapshot.data() : null;
+  });
+
+export const createConversation = (userId: string, conversation: NewConversation): Promise<string> =>
+  run('creating conversation', async () => {
+    const ref = doc(conversationsCollection());
+    const now = new Date();
+    await setDoc(ref, {
+      ...conversation,
+      id: ref.id,
+      userId,
+      createdAt: now,
+      updatedAt: now
+    });
+    return ref.id;
+  });
+
+export const updateConversation = (
+  conversationId: string,
+  updates: Partial<Omit<GoalConversation, 'id' | 'userId' | 'createdAt'>>
+): Promise<void> =>
+  run('updating conversation', () =>
+    updateDoc(doc(db, 'conversations', conversationId), goalConversationModelConverter.toFirestore({
+      ...updates,
+      updatedAt: new Date()
+    }))
+  );
+
+export const deleteConversation = (conversationId: string): Promise<void> =>
+  run('deleting conversation', () => deleteDoc(doc(db, 'conversations', conversationId)));
+
+// AI usage
+
+const usageMonthId = (userId: string, month: string) => `${userId}_${month}`;
+
+/** Stores one call and adds it to the user's running total for `month` (`YYYY-MM`). */
+export const recordAIUsage = (month: string, record: NewAIUsageRecord): Promise<void> =>
+  run('recording AI usage', async () => {
+    const totals = {
+      promptTokens: increment(record.promptTokens),
+      completionTokens: increment(record.completionTokens),
+      requests: increment(1),
+      cost: increment(record.cost)
+    };
+
+    const batch = writeBatch(db);
+    const recordRef = doc(collection(db, 'aiUsage').withConverter(aiUsageRecordConverter));
+    batch.set(recordRef, {
+      ...record,
+      id: recordRef.id,
+      createdAt: new Date()
+    });
+    batch.set(doc(db, 'aiUsageMonths', usageMonthId(record.userId, month)), {
+      userId: record.userId,
+      month,
+      ...totals,
+      byFeature: { [record.feature]: totals },
+      byModel: { [record.model]: totals }
+    }, { merge: true });
+    await batch.commit();
+  });
+
+export const getAIUsageMonth = (userId: string, month: string): Promise<AIUsageMonth | null> =>
+  run('fetching AI usage', async () => {
+    const snapshot = await getDoc(
+      doc(db, 'aiUsageMonths', usageMonthId(userId, month)).withConverter(aiUsageMonthConverter)
+    );
+    return snapshot.exists() ? snapshot.data() : null;
+  });
+
+export const listAIUsageMonths = (userId: string, count = 6): Promise<AIUsageMonth[]> =>
+  run('fetching AI usage', async () => {
+    // One document per month, so sorting here is cheap and needs no composite index
+    const snapshot = await getDocs(query(
+      collection(db, 'aiUsageMonths').withConverter(aiUsageMonthConverter),
+      where('userId', '==', userId)
+    ));
+    return snapshot.docs
+      .map(d => d.data())
+      .sort((a, b) => b.month.localeCompare(a.month))
+      .slice(0, count);
+  });
+
+export const updateAISettings = (userId: string, settings: AISettings): Promise<void> =>
+  run('updating AI settings', () => updateDoc(doc(db, 'users', userId), { aiSettings: settings }));
+
+export const updatePlanningSettings = (userId: string, settings: Omit<PlanningSettings, 'lastPlannedWeek'>): Promise<void> =>
+  run('updating planning settings', () =>
+    updateDoc(doc(db, 'users', userId), {
+      'planning.weekStartsOn': settings.weekStartsOn,
+      'planning.timeZone': settings.timeZone,
+      'planning.workDayStart': settings.workDayStart,
+      'planning.workDayEnd': settings.workDayEnd
+    })
+  );
+
+// Users
+
+export const getUserProfile = (userId: string): Promise<User | null> =>
+  run('fetching user', async () => {
+    const snapshot = await getDoc(userDoc(userId));
+    return snapshot.exists() ? snapshot.data() : null;
+  });
+
+export const createUserProfile = (userId: string, profile: Omit<User, 'id'>): Promise<void> =>
+  run('creating user', () =>
+    setDoc(doc(db, 'users', userId), {
+      ...userModelConverter.toFirestore(profile),
+      createdAt: new Date()
+    })
+  );
+
+export const updateDomainReview = (userId: string, domainId: string, review: DomainReview): Promise<void> =>
+  run('updating domain', () =>
+    updateDoc(doc(db, 'users', userId), {
+      [`domains.${domainId}`]: userModelConverter.toFirestore({ domains: { [domainId]: review } }).domains[domainId]
+    })
+  );
@@ -0,0 +1,194 @@
+import { addDays, fromDateKey, startOfDay, startOfWeek, toDateKey } from './dates';
+import type { Goal, Habit } from '../types';
+
+export const HABIT_FREQUENCIES: Habit['frequency'][] = ['daily', 'weekdays', 'weekly'];
+
+export const HABIT_FREQUENCY_LABELS: Record<Habit['frequency'], string> = {
+  daily: 'Every day',
+  weekdays: 'Weekdays',
+  weekly: 'Times per week'
+};
+
+export interface HabitStreaks {
+  current: number;
+  longest: number;
+  /** Weekly habits count streaks in weeks, the others in days. */
+  unit: 'day' | 'week';
+}
+
+export const createHabit = (
+  title: string,
+  frequency: Habit['frequency'] = 'daily',
+  timesPerWeek?: number
+): Habit => ({
+  id: crypto.randomUUID(),
+  title,
+  frequency,
+  ...(frequency === 'weekly' && { timesPerWeek: timesPerWeek ?? 3 }),
+  completions: [],
+  createdAt: new Date()
+});
+
+export const describeHabitFrequency = (habit: Habit): string =>
+  habit.frequency === 'weekly'
+    ? `${habit.timesPerWeek ?? 1}× per week`
+    : HABIT_FREQUENCY_LABELS[habit.frequency];
+
+/** Whether the habit is expected on `date`. Weekly habits can be done any day. */
+export const isHabitDueOn = (habit: Habit, date: Date): boolean => {
+  if (habit.frequency !== 'weekdays') return true;
+  const day = date.getDay();
+  return day !== 0 && day !== 6;
+};
+
+export const isHabitDoneOn = (habit: Habit, date: Date): boolean =>
+  habit.completions.includes(toDateKey(date));
+
+/** Completions in the planning week containing `date`; `weekStartsOn` comes from the user's planning settings. */
+export const countCompletionsInWeek = (habit: Habit, date: Date, weekStartsOn = 1): number => {
+  const start = startOfWeek(date, weekStartsOn);
+  const week = Array.from({ length: 7 }, (_, i) => toDateKey(addDays(start, i)));
+  return habit.completions.filter(key => week.includes(key)).length;
+};
+
+/** Checks the habit off for `date`, or un-checks it if it was already done. */
+export const toggleHabitCompletion = (habit: Habit, date: Date = new Date()): Habit => {
+  const key = toDateKey(date);
+  const completions = habit.completions.includes(key)
+    ? habit.completions.filter(day => day !== key)
+    : [...habit.completions, key].sort();
+  return { ...habit, completions };
+};
+
+// Walks every period from the first completion to today. The current period
+// only counts once it is met; until then it doesn't break the streak either.
+const streaksFromPeriods = (periods: boolean[]): { current: number; longest: number } => {
+  let longest = 0;
+  let run = 0;
+  periods.forEach(met => {
+    run = met ? run + 1 : 0;
+    longest = Math.max(longest, run);
+  });
+
+  const settled = periods[periods.length - 1] ? periods : periods.slice(0, -1);
+  let current = 0;
+  for (let i = settled.length - 1; i >= 0 && settled[i]; i--) current++;
+
+  return { current, longest };
+};
+
+export const getHabitStreaks = (habit: Habit, today: Date = new Date(), weekStartsOn = 1): HabitStreaks => {
+  const unit = habit.frequency === 'weekly' ? 'week' : 'day';
+  if (habit.completions.length === 0) return { current: 0, longest: 0, unit };
+
+  const first = fromDateKey([...habit.completions].sort()[0]);
+  const done = new Set(habit.completions);
+  const periods: boolean[] = [];
+
+  if (unit === 'week') {
+    const target = habit.timesPerWeek ?? 1;
+    for (let week = startOfWeek(first, weekStartsOn); week <= today; week = addDays(week, 7)) {
+      periods.push(countCompletionsInWeek(habit, week, weekStartsOn) >= target);
+    }
+  } else {
+    const end = startOfDay(today);
+    for (let day = startOfDay(first); day <= end; day = addDays(day, 1)) {
+      if (isHabitDueOn(habit, day)) periods.push(done.has(toDateKey(day)));
+    }
+  }
+
+  return { ...streaksFromPeriods(periods), unit };
+};
+
+/** Whether the habit still needs doing today to stay on track. */
+export const isHabitPendingToday = (habit: Habit, today: Date = new Date(), weekStartsOn = 1): boolean => {
+  if (isHabitDoneOn(habit, today)) return false;
+  if (habit.frequency === 'weekly') return countCompletionsInWeek(habit, today, weekStartsOn) < (habit.timesPerWeek ?? 1);
+  return isHabitDueOn(habit, today);
+};
+
+/** Replaces one habit in a goal's list, ready for `updateGoal`. */
+export const replaceHabit = (goal: Goal, habit: Habit): Habit[] =>
+  goal.dailyHabits.map(h => (h.id === habit.id ? habit : h));
+
+// Days before a habit existed don't count against it. Completions logged
+// before `createdAt` (e.g. migrated habits) move the start back.
+const habitStart = (habit: Habit): Date | undefined => {
+  const first = habit.completions.length > 0 ? fromDateKey([...habit.completions].sort()[0]) : undefined;
+  const created = habit.createdAt && startOfDay(habit.createdAt);
+  if (!first) return created;
+  if (!created) return first;
+  return first < created ? first : created;
+};
+
+/**
+ * Share of the expected check-ins over the last `days` days (0–1), or null if
+ * the habit didn't exist yet or was migrated and never checked off. Weekly habits expect `timesPerWeek` per 7 days.
+ */
+export const getCompletionRate = (habit: Habit, days: number, today: Date = new Date()): number | null => {
+  const end = startOfDay(today);
+  const start = habitStart(habit);
+  if (!start) return null;
+  const from = start > addDays(end, -(days - 1)) ? start : addDays(end, -(days - 1));
+  if (from > end) return null;
+
+  const done = new Set(habit.completions);
+  let expected = 0;
+  let completed = 0;
+  for (let day = from; day <= end; day = addDays(day, 1)) {
+    if (done.has(toDateKey(day))) completed++;
+    if (isHabitDueOn(habit, day)) expected++;
+  }
+
+  if (habit.frequency === 'weekly') expected = (expected / 7) * (habit.timesPerWeek ?? 1);
+  if (expected === 0) return null;
+  return Math.min(1, completed / expected);
+};
+
+/** The weekday with the most check-ins, or null before the first one. */
+export const getBestWeekday = (habits: Habit[]): number | null => {
+  const counts = Array(7).fill(0);
+  habits.forEach(habit => habit.completions.forEach(key => counts[fromDateKey(key).getDay()]++));
+  const best = counts.indexOf(Math.max(...counts));
+  return counts[best] > 0 ? best : null;
+};
+
+/**
+ * 0–100 score for how well habits were kept over the last 30 days, weighting
+ * the last 7 days double so recent slips show up quickly.
+ */
+export const getConsistencyScore = (habits: Habit[], today: Date = new Date()): number | null => {
+  const scores = habits.flatMap(habit => {
+    const month = getCompletionRate(habit, 30, today);
+    if (month === null) return [];
+    const week = getCompletionRate(habit, 7, today) ?? month;
+    return [(month + week * 2) / 3];
+  });
+  if (scores.length === 0) return null;
+  return Math.round((scores.reduce((sum, score) => sum + score, 0) / scores.length) * 100);
+};
+
+/**
+ * Completion level per day for a heatmap, from 0 (nothing done) to 1 (every
+ * due habit done). Days where nothing was due are left out.
+ */
+export const getDailyCompletion = (habits: Habit[], days: number, today: Date = new Date()): Record<string, number> => {
+  const levels: Record<string, number> = {};
+  const end = startOfDay(today);
+
+  for (let day = addDays(end, -(days - 1)); day <= end; day = addDays(day, 1)) {
+    const key = toDateKey(day);
+    const active = habits.filter(habit => {
+      const start = habitStart(habit);
+      return start && start <= day;
+    });
+    // Weekly habits, and habits done on an off day, only count when done
+    const expected = active.filter(habit =>
+      habit.completions.includes(key) || (habit.frequency !== 'weekly' && isHabitDueOn(habit, day))
+    );
+    const done = expected.filter(habit => habit.completions.includes(key));
+    if (expected.length > 0) levels[key] = done.length / expected.length;
+  }
+
+  return levels;
+};
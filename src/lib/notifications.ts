@@ -0,0 +1,142 @@
+import { addDays, startOfDay, startOfWeek, toDateKey } from './dates';
+import { isRoutineOverdue } from './routines';
+import { isDomainReviewDue } from './domainReviews';
+import type { NotificationChanges, NotificationSource } from './goalsRepository';
+import type { Goal, User, UserNotification } from '../types';
+
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Snoozing until a later day brings the reminder back at the start of the work day
+const MORNING_HOUR = 9;
+
+/**
+ * Reminders raised by the user's active goals and domain review schedule.
+ * Source keys include the relevant date, so a moved deadline raises a new
+ * reminder while an unchanged one is never raised twice.
+ */
+export const generateNotifications = (
+  goals: Goal[],
+  domains: User['domains'],
+  now: Date = new Date()
+): NotificationSource[] => {
+  const notifications: NotificationSource[] = [];
+  const weekFromNow = new Date(now.getTime() + WEEK_MS);
+
+  // Upcoming milestones
+  goals.forEach(goal => {
+    goal.milestones
+      .filter(m => !m.completed && m.targetDate <= weekFromNow)
+      .forEach(milestone => {
+        notifications.push({
+          sourceKey: `milestone-${milestone.id}-${toDateKey(milestone.targetDate)}`,
+          type: 'milestone',
+          title: 'Upcoming Milestone',
+          message: `"${milestone.title}" for goal "${goal.title}" is due on ${milestone.targetDate.toLocaleDateString()}`,
+          date: milestone.targetDate
+        });
+      });
+  });
+
+  // Goals without recent reviews
+  goals.forEach(goal => {
+    const lastReflection = goal.reflections[goal.reflections.length - 1];
+    if (!lastReflection || lastReflection.date.getTime() + WEEK_MS < now.getTime()) {
+      notifications.push({
+        sourceKey: `review-${goal.id}-${lastReflection ? toDateKey(lastReflection.date) : 'never'}`,
+        type: 'review',
+        title: 'Review Needed',
+        message: `It's time for a weekly review of your goal "${goal.title}"`,
+        date: now
+      });
+    }
+  });
+
+  // Overdue routines
+  goals.forEach(goal => {
+    goal.routines
+      .filter(routine => isRoutineOverdue(routine, now))
+      .forEach(routine => {
+        notifications.push({
+          sourceKey: `routine-${routine.id}-${toDateKey(routine.nextDue!)}`,
+          type: 'routine',
+          title: 'Routine Overdue',
+          message: `"${routine.name}" for goal "${goal.title}" was due on ${routine.nextDue!.toLocaleDateString()}`,
+          date: routine.nextDue!
+        });
+      });
+  });
+
+  // Scheduled domain reviews
+  Object.entries(domains ?? {})
+    .filter(([, review]) => isDomainReviewDue(review, now))
+    .forEach(([domain, review]) => {
+      notifications.push({
+        sourceKey: `domain-review-${domain}-${toDateKey(review.nextReview!)}`,
+        type: 'review',
+        title: 'Domain Review Due',
+        message: `Your ${domain} review is due on ${review.nextReview!.toLocaleDateString()}`,
+        date: review.nextReview!
+      });
+    });
+
+  // Goals near their target date
+  goals.forEach(goal => {
+    if (goal.targetDate && goal.targetDate <= weekFromNow) {
+      notifications.push({
+        sourceKey: `goal-${goal.id}-${toDateKey(goal.targetDate)}`,
+        type: 'goal',
+        title: 'Goal Deadline Approaching',
+        message: `Your goal "${goal.title}" is due on ${goal.targetDate.toLocaleDateString()}`,
+        date: goal.targetDate
+      });
+    }
+  });
+
+  return notifications;
+};
+
+/**
+ * What to raise and resolve so the unresolved notifications match the
+ * generators. `unresolved` holds only notifications not yet resolved.
+ */
+export const planNotificationSync = (unresolved: UserNotification[], generated: NotificationSource[]): NotificationChanges => {
+  const storedKeys = new Set(unresolved.map(n => n.sourceKey));
+  const generatedKeys = new Set(generated.map(n => n.sourceKey));
+  return {
+    created: generated.filter(n => !storedKeys.has(n.sourceKey)),
+    resolved: unresolved.filter(n => !generatedKeys.has(n.sourceKey)).map(n => n.id)
+  };
+};
+
+export const hasNotificationChanges = (changes: NotificationChanges): boolean =>
+  changes.created.length > 0 || changes.resolved.length > 0;
+
+export const isNotificationSnoozed = (notification: UserNotification, now: Date = new Date()): boolean =>
+  !!notification.snoozedUntil && notification.snoozedUntil > now;
+
+/** Shown in the bell: not dismissed, resolved or snoozed. */
+export const isNotificationActive = (notification: UserNotification, now: Date = new Date()): boolean =>
+  !notification.dismissedAt && !notification.resolvedAt && !isNotificationSnoozed(notification, now);
+
+const morningOf = (day: Date) => new Date(day.getFullYear(), day.getMonth(), day.getDate(), MORNING_HOUR);
+
+export const SNOOZE_PRESETS: { id: string; label: string; until: (now: Date) => Date }[] = [
+  { id: 'hour', label: '1 hour', until: (now) => new Date(now.getTime() + 60 * 60 * 1000) },
+  { id: 'tomorrow', label: 'Tomorrow', until: (now) => morningOf(addDays(startOfDay(now), 1)) },
+  { id: 'nextWeek', label: 'Next week', until: (now) => morningOf(startOfWeek(addDays(now, 7))) }
+];
+
+export type NotificationView = 'inbox' | 'unread' | 'snoozed' | 'dismissed' | 'all';
+
+/** The notification center's filters, in display order. */
+export const NOTIFICATION_VIEWS: {
+  id: NotificationView;
+  label: string;
+  matches: (notification: UserNotification, now: Date) => boolean;
+}[] = [
+  { id: 'inbox', label: 'Inbox', matches: isNotificationActive },
+  { id: 'unread', label: 'Unread', matches: (n, now) => isNotificationActive(n, now) && !n.readAt },
+  { id: 'snoozed', label: 'Snoozed', matches: (n, now) => !n.dismissedAt && !n.resolvedAt && isNotificationSnoozed(n, now) },
+  { id: 'dismissed', label: 'Dismissed', matches: (n) => !!n.dismissedAt },
+  { id: 'all', label: 'All history', matches: () => true }
+];
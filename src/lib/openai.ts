@@ -1,9 +1,47 @@
-import OpenAI from 'openai';
+import {
+  getAIProvider,
+  type ChatMessage,
+  type CompletionOptions,
+  type CompletionResult,
+  type RequestControls,
+  type TokenHandler
+} from './aiProviders';
+import { validateGoalDraft, type GoalDraft, type ValidationIssue } from './goalValidation';
+import { getUsageBudget, trackUsage, type UsageContext } from './aiUsage';
+import { AIError, callWithRetry, classifyAIError, isAbortError } from './aiErrors';
+import { MAX_SUGGESTIONS, parseReviewFeedback, type ReviewFeedback } from './reviewFeedback';
+import type { Goal } from '../types';
 
-export const openai = new OpenAI({
-  apiKey: import.meta.env.VITE_OPENAI_API_KEY,
-  dangerouslyAllowBrowser: true
-});
+export type AICallSite = 'conversation' | 'extraction' | 'suggestion' | 'response' | 'review';
+
+/**
+ * Default model settings for each call site. The model falls back to the
+ * provider's default; pass `options` to any function below to override.
+ */
+export const AI_SETTINGS: Record<AICallSite, CompletionOptions> = {
+  conversation: { temperature: 0.7, maxTokens: 150 },
+  extraction: { temperature: 0.1, maxTokens: 1000, json: true },
+  suggestion: { temperature: 0.8, maxTokens: 100, n: 3 },
+  response: { temperature: 0.7, maxTokens: 100 },
+  review: { temperature: 0.4, maxTokens: 700, json: true }
+};
+
+/** Per-attempt time limits in milliseconds; failed attempts are retried. */
+export const AI_TIMEOUTS: Record<AICallSite, number> = {
+  conversation: 60_000,
+  extraction: 45_000,
+  suggestion: 20_000,
+  response: 30_000,
+  review: 45_000
+};
+
+// Applied on top of AI_SETTINGS once the user passes their soft monthly cap.
+const REDUCED_SETTINGS: Partial<Record<AICallSite, CompletionOptions>> = {
+  conversation: { maxTokens: 100 },
+  suggestion: { n: 1 },
+  response: { maxTokens: 60 },
+  review: { maxTokens: 400 }
+};
 
 const SYSTEM_PROMPT = `You are a supportive and knowledgeable AI assistant helping users create meaningful goals.
 
@@ -106,174 +144,324 @@ Example format:
   ]
 }`;
 
-export const processConversation = async (
-  messages: { role: string; content: string }[]
-): Promise<any> => {
+const REVIEW_PROMPT = `You are a supportive coach reading a user's weekly review of their goals.
+
+Respond with a JSON object:
+{
+  "summary": "Two or three sentences on how the week went, grounded in the data",
+  "recurringChallenges": ["A challenge from this review that also appears in earlier reviews"],
+  "suggestions": [
+    { "kind": "addWeeklyAction", "goalId": "...", "action": "A concrete weekly action", "reason": "Why it helps" },
+    { "kind": "moveMilestone", "goalId": "...", "milestoneId": "...", "targetDate": "YYYY-MM-DD", "reason": "..." },
+    { "kind": "setMetricTarget", "goalId": "...", "metricId": "...", "target": 10, "reason": "..." }
+  ]
+}
+
+Give 2-${MAX_SUGGESTIONS} suggestions, each a small concrete change to one goal. Only use goal, milestone and metric ids that appear in square brackets in the review. Leave recurringChallenges empty if nothing repeats.`;
+
+export interface ExtractionResult {
+  extractedData: Partial<GoalDraft>;
+  /** Problems found in the extracted goal that the user should review before saving. */
+  issues: ValidationIssue[];
+  conversationComplete: boolean;
+}
+
+export interface ConversationResult extends ExtractionResult {
+  nextPrompt: string;
+}
+
+interface CallControls extends RequestControls {
+  options?: CompletionOptions;
+  usage?: UsageContext;
+}
+
+export const LIMIT_REACHED_MESSAGE = "You've reached your monthly AI limit. You can keep going on your own, or raise the limit in Settings.";
+
+const conversationMessages = (messages: ChatMessage[]): ChatMessage[] => [
+  { role: "system", content: SYSTEM_PROMPT },
+  ...messages
+];
+
+const extractionMessages = (messages: ChatMessage[]): ChatMessage[] => [
+  { 
+    role: "system", 
+    content: EXTRACTION_PROMPT
+  },
+  {
+    role: "user",
+    content: `Extract comprehensive goal information from this conversation:\n\n${messages.map(m => `${m.role}: ${m.content}`).join('\n')}`
+  }
+];
+
+const responseMessages = (
+  userInput: string,
+  currentQuestion: string,
+  previousMessages: ChatMessage[]
+): ChatMessage[] => {
+  const context = previousMessages
+    .map(m => `${m.role}: ${m.content}`)
+    .join('\n');
+
+  return [
+    {
+      role: "system",
+      content: `${SYSTEM_PROMPT}\n\nProvide a brief, natural response that acknowledges the user's input and asks one relevant follow-up question.`
+    },
+    {
+      role: "user",
+      content: `Context:\n${context}\n\nCurrent question: ${currentQuestion}\nUser response: ${userInput}\n\nProvide a brief, conversational response.`
+    }
+  ];
+};
+
+// Resolves the options for a call site against the user's monthly budget:
+// cheaper settings past the soft cap, and `null` (no call) past the hard cap.
+const settingsFor = async (site: AICallSite, options: CompletionOptions = {}): Promise<CompletionOptions | null> => {
+  const budget = await getUsageBudget();
+  if (budget.status === 'hard') return null;
+
+  return {
+    ...AI_SETTINGS[site],
+    ...(budget.status === 'soft' && REDUCED_SETTINGS[site]),
+    ...options
+  };
+};
+
+const firstChoice = (result: CompletionResult): string => {
+  if (!result.choices[0]) throw new AIError('malformed_response', 'The AI sent back an empty reply.');
+  return result.choices[0];
+};
+
+// Models outside OpenAI's JSON mode often wrap JSON in a markdown fence.
+const parseJsonObject = (text: string): object => {
+  const parsed: unknown = JSON.parse(text.replace(/^\s*```(?:json)?\s*|\s*```\s*$/g, ''));
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    throw new AIError('malformed_response');
+  }
+  return parsed;
+};
+
+// Streams a reply and resolves with the full text. A cancelled request
+// resolves with whatever arrived before the abort; failures, including the
+// hard usage cap, reject with an `AIError`. Attempts are only retried before
+// any text has been shown.
+const streamReply = async (
+  site: AICallSite,
+  messages: ChatMessage[],
+  onToken: TokenHandler,
+  { signal, options, usage }: CallControls
+): Promise<string> => {
+  const settings = await settingsFor(site, options);
+  // Kept out of the reply so it is never saved or sent back as an assistant turn
+  if (!settings) throw new AIError('quota', LIMIT_REACHED_MESSAGE);
+
+  let received = '';
   try {
-    // Get the next conversation prompt
-    const conversationResponse = await openai.chat.completions.create({
-      model: "gpt-3.5-turbo",
-      messages: [
-        { role: "system", content: SYSTEM_PROMPT },
-        ...messages
-      ],
-      temperature: 0.7,
-      max_tokens: 150
-    });
-
-    // Extract structured data with enhanced prompt
-    const extractionResponse = await openai.chat.completions.create({
-      model: "gpt-3.5-turbo",
-      messages: [
-        { 
-          role: "system", 
-          content: EXTRACTION_PROMPT
-        },
-        {
-          role: "user",
-          content: `Extract comprehensive goal information from this conversation:\n\n${messages.map(m => `${m.role}: ${m.content}`).join('\n')}`
-        }
-      ],
-      temperature: 0.1,
-      max_tokens: 1000,
-      response_format: { type: "json_object" }
-    });
-
-    let extractedData = {};
-    let conversationComplete = false;
-
-    try {
-      const parsedData = JSON.parse(extractionResponse.choices[0].message.content);
-      
-      // Transform the extracted data into the system's format
-      extractedData = {
-        title: parsedData.title,
-        description: parsedData.description,
-        domain: parsedData.domain,
-        targetDate: parsedData.targetDate ? new Date(parsedData.targetDate) : undefined,
-        status: 'active',
-        milestones: (parsedData.milestones || []).map(m => ({
-          id: crypto.randomUUID(),
-          title: m.title,
-          description: m.description,
-          targetDate: new Date(m.targetDate),
-          completed: false,
-          frequency: m.frequency || 'once'
-        })),
-        metrics: (parsedData.metrics || []).map(m => ({
-          id: crypto.randomUUID(),
-          name: m.name,
-          type: m.type,
-          target: m.target,
-          current: 0,
-          unit: m.unit,
-          frequency: m.frequency,
-          history: []
-        })),
-        weeklyActions: parsedData.weeklyActions || [],
-        dailyHabits: parsedData.dailyHabits || [],
-        routines: (parsedData.routines || []).map(r => ({
-          id: crypto.randomUUID(),
-          name: r.name,
-          description: r.description,
-          frequency: r.frequency,
-          steps: r.steps,
-          lastCompleted: null,
-          nextDue: null
-        })),
-        resources: parsedData.resources || [],
-        obstacles: parsedData.obstacles || [],
-        successCriteria: parsedData.successCriteria || [],
-        reflections: []
-      };
+    const result = await callWithRetry(
+      (attemptSignal) => getAIProvider().stream(messages, settings, (token) => {
+        received += token;
+        onToken(token);
+      }, { signal: attemptSignal }),
+      { signal, timeoutMs: AI_TIMEOUTS[site], canRetry: () => received === '' }
+    );
+    trackUsage(site, result, usage);
+    return firstChoice(result);
+  } catch (error) {
+    if (isAbortError(error)) return received.trim();
+    console.error('Error streaming AI reply:', error);
+    throw classifyAIError(error);
+  }
+};
+
+const emptyExtraction = (): ExtractionResult => ({
+  extractedData: {},
+  issues: [],
+  conversationComplete: false
+});
 
-      // Check if we have enough information
-      const requiredFields = ['title', 'description', 'domain'];
-      conversationComplete = requiredFields.every(field => 
-        parsedData[field] && parsedData[field].trim() !== ''
+const limitReachedExtraction = (): ExtractionResult => ({
+  ...emptyExtraction(),
+  issues: [{ path: 'ai', message: LIMIT_REACHED_MESSAGE, severity: 'warning' }]
+});
+
+/** Rejects with an `AIError` if extraction fails; a cancelled call resolves empty. */
+export const extractGoal = async (
+  messages: ChatMessage[],
+  { signal, options, usage }: CallControls = {}
+): Promise<ExtractionResult> => {
+  const settings = await settingsFor('extraction', options);
+  if (!settings) return limitReachedExtraction();
+
+  try {
+    // Malformed JSON is retried along with transient failures
+    return await callWithRetry(async (attemptSignal) => {
+      // Extract structured data with enhanced prompt
+      const extractionResponse = await getAIProvider().complete(
+        extractionMessages(messages),
+        settings,
+        { signal: attemptSignal }
       );
-    } catch (error) {
-      console.error('Error parsing extracted data:', error);
-    }
+      trackUsage('extraction', extractionResponse, usage);
 
-    return {
-      nextPrompt: conversationResponse.choices[0].message.content,
-      extractedData,
-      conversationComplete
-    };
+      // Coerce the model output into the system's format and collect anything it got wrong
+      const validation = validateGoalDraft({ ...parseJsonObject(firstChoice(extractionResponse)), status: 'active' });
+      return {
+        extractedData: validation.value,
+        issues: validation.issues,
+        conversationComplete: validation.valid
+      };
+    }, { signal, timeoutMs: AI_TIMEOUTS.extraction });
+  } catch (error) {
+    if (isAbortError(error)) return emptyExtraction();
+    console.error('Error extracting goal data:', error);
+    throw classifyAIError(error);
+  }
+};
+
+/**
+ * Streams the assistant's next conversational turn. Run `extractGoal`
+ * afterwards to update the draft goal without holding up the reply.
+ */
+export const streamConversationReply = (
+  messages: ChatMessage[],
+  onToken: TokenHandler,
+  controls: CallControls = {}
+): Promise<string> =>
+  streamReply('conversation', conversationMessages(messages), onToken, controls);
+
+export const processConversation = async (
+  messages: ChatMessage[],
+  options: Partial<Record<'conversation' | 'extraction', CompletionOptions>> = {},
+  { signal, usage }: CallControls = {}
+): Promise<ConversationResult> => {
+  const settings = await settingsFor('conversation', options.conversation);
+  if (!settings) return { nextPrompt: LIMIT_REACHED_MESSAGE, ...limitReachedExtraction() };
+
+  let nextPrompt: string;
+  try {
+    // Get the next conversation prompt
+    const conversationResponse = await callWithRetry(
+      (attemptSignal) => getAIProvider().complete(conversationMessages(messages), settings, { signal: attemptSignal }),
+      { signal, timeoutMs: AI_TIMEOUTS.conversation }
+    );
+    trackUsage('conversation', conversationResponse, usage);
+    nextPrompt = firstChoice(conversationResponse);
   } catch (error) {
     console.error('Error processing conversation:', error);
-    return {
-      nextPrompt: "I'm having trouble understanding. Could you rephrase that?",
-      extractedData: {},
-      conversationComplete: false
-    };
+    throw classifyAIError(error);
   }
+
+  const extraction = await extractGoal(messages, { signal, usage, options: options.extraction });
+  return { nextPrompt, ...extraction };
 };
 
 export const generateSuggestion = async (
   step: number,
   question: string,
-  previousResponses: { question: string; answer: string }[]
+  previousResponses: { question: string; answer: string }[],
+  { signal, options, usage }: CallControls = {}
 ): Promise<string[]> => {
   const context = previousResponses.map(r => `${r.question}\nAnswer: ${r.answer}`).join('\n\n');
-  
+
+  // The usage notice explains why there are no suggestions
+  const settings = await settingsFor('suggestion', options);
+  if (!settings) return [];
+
   try {
-    const response = await openai.chat.completions.create({
-      model: "gpt-3.5-turbo",
-      messages: [
-        {
-          role: "system",
-          content: `${SYSTEM_PROMPT}\n\nProvide one brief, specific suggestion based on the context.`
-        },
-        {
-          role: "user",
-          content: `Context:\n${context}\n\nCurrent question: ${question}\n\nProvide a specific suggestion that builds on the previous responses.`
-        }
-      ],
-      temperature: 0.8,
-      max_tokens: 100,
-      n: 3
-    });
-
-    return response.choices.map(choice => 
-      choice.message.content?.trim() || "No suggestion available"
+    const response = await callWithRetry(
+      (attemptSignal) => getAIProvider().complete(
+        [
+          {
+            role: "system",
+            content: `${SYSTEM_PROMPT}\n\nProvide one brief, specific suggestion based on the context.`
+          },
+          {
+            role: "user",
+            content: `Context:\n${context}\n\nCurrent question: ${question}\n\nProvide a specific suggestion that builds on the previous responses.`
+          }
+        ],
+        settings,
+        { signal: attemptSignal }
+      ),
+      { signal, timeoutMs: AI_TIMEOUTS.suggestion }
     );
+    trackUsage('suggestion', response, usage);
+
+    return response.choices.filter(Boolean);
   } catch (error) {
     console.error('Error generating suggestions:', error);
-    return ["Could not generate suggestions at this time"];
+    throw classifyAIError(error);
+  }
+};
+
+/**
+ * Summarizes a finished review and suggests goal adjustments. Resolves
+ * `null` past the hard usage cap or when cancelled; failures reject with an
+ * `AIError`.
+ */
+export const generateReviewFeedback = async (
+  reviewContext: string,
+  goals: Goal[],
+  { signal, options, usage }: CallControls = {}
+): Promise<ReviewFeedback | null> => {
+  const settings = await settingsFor('review', options);
+  if (!settings) return null;
+
+  try {
+    return await callWithRetry(async (attemptSignal) => {
+      const response = await getAIProvider().complete(
+        [
+          { role: "system", content: REVIEW_PROMPT },
+          { role: "user", content: reviewContext }
+        ],
+        settings,
+        { signal: attemptSignal }
+      );
+      trackUsage('review', response, usage);
+
+      const feedback = parseReviewFeedback(parseJsonObject(firstChoice(response)), goals);
+      if (!feedback.summary) throw new AIError('malformed_response');
+      return feedback;
+    }, { signal, timeoutMs: AI_TIMEOUTS.review });
+  } catch (error) {
+    if (isAbortError(error)) return null;
+    console.error('Error generating review feedback:', error);
+    throw classifyAIError(error);
   }
 };
 
 export const getAIResponse = async (
   userInput: string,
   currentQuestion: string,
-  previousMessages: { role: string; content: string }[]
+  previousMessages: ChatMessage[],
+  { signal, options, usage }: CallControls = {}
 ): Promise<string> => {
-  const context = previousMessages
-    .map(m => `${m.role}: ${m.content}`)
-    .join('\n');
+  const settings = await settingsFor('response', options);
+  if (!settings) return LIMIT_REACHED_MESSAGE;
 
   try {
-    const response = await openai.chat.completions.create({
-      model: "gpt-3.5-turbo",
-      messages: [
-        {
-          role: "system",
-          content: `${SYSTEM_PROMPT}\n\nProvide a brief, natural response that acknowledges the user's input and asks one relevant follow-up question.`
-        },
-        {
-          role: "user",
-          content: `Context:\n${context}\n\nCurrent question: ${currentQuestion}\nUser response: ${userInput}\n\nProvide a brief, conversational response.`
-        }
-      ],
-      temperature: 0.7,
-      max_tokens: 100
-    });
-
-    return response.choices[0].message.content || "Let's continue with the next step.";
+    const response = await callWithRetry(
+      (attemptSignal) => getAIProvider().complete(
+        responseMessages(userInput, currentQuestion, previousMessages),
+        settings,
+        { signal: attemptSignal }
+      ),
+      { signal, timeoutMs: AI_TIMEOUTS.response }
+    );
+    trackUsage('response', response, usage);
+
+    return firstChoice(response);
   } catch (error) {
     console.error('Error getting AI response:', error);
-    return "I understand. Let's move on to the next step.";
+    throw classifyAIError(error);
   }
-};
\ No newline at end of file
+};
+
+export const streamAIResponse = (
+  userInput: string,
+  currentQuestion: string,
+  previousMessages: ChatMessage[],
+  onToken: TokenHandler,
+  controls: CallControls = {}
+): Promise<string> =>
+  streamReply('response', responseMessages(userInput, currentQuestion, previousMessages), onToken, controls);
@@ -0,0 +1,105 @@
+import { startOfDay } from './dates';
+import type { ReviewType } from './reviews';
+import type { Goal, Reflection } from '../types';
+
+/** A reflection from either the `reflections` collection or a goal's own list. */
+export interface ReflectionEntry {
+  reflection: Reflection;
+  goal?: Goal;
+}
+
+export interface ReflectionFilters {
+  search: string;
+  type: ReviewType | 'all';
+  goalId: string | 'all';
+  domain: string | 'all';
+  /** Inclusive `YYYY-MM-DD` bounds; empty means open-ended. */
+  from: string;
+  to: string;
+}
+
+export const EMPTY_REFLECTION_FILTERS: ReflectionFilters = {
+  search: '',
+  type: 'all',
+  goalId: 'all',
+  domain: 'all',
+  from: '',
+  to: ''
+};
+
+/** Every reflection, newest first. */
+export const collectReflections = (reflections: Reflection[], goals: Goal[]): ReflectionEntry[] =>
+  [
+    ...reflections.map(reflection => ({ reflection })),
+    ...goals.flatMap(goal => goal.reflections.map(reflection => ({ reflection, goal })))
+  ].sort((a, b) => b.reflection.date.getTime() - a.reflection.date.getTime());
+
+const entryDomain = ({ reflection, goal }: ReflectionEntry) => goal?.domain ?? reflection.domain;
+
+const matchesSearch = ({ reflection, goal }: ReflectionEntry, search: string) => {
+  const words = search.toLowerCase().split(/\s+/).filter(Boolean);
+  const text = [reflection.progress, reflection.challenges, reflection.insights, reflection.nextSteps, goal?.title ?? '']
+    .join(' ')
+    .toLowerCase();
+  return words.every(word => text.includes(word));
+};
+
+export const filterReflections = (entries: ReflectionEntry[], filters: ReflectionFilters): ReflectionEntry[] =>
+  entries.filter(entry => {
+    const day = startOfDay(entry.reflection.date);
+    return (
+      (filters.type === 'all' || entry.reflection.type === filters.type) &&
+      (filters.goalId === 'all' || entry.goal?.id === filters.goalId) &&
+      (filters.domain === 'all' || entryDomain(entry) === filters.domain) &&
+      (!filters.from || day >= new Date(`${filters.from}T00:00:00`)) &&
+      (!filters.to || day <= new Date(`${filters.to}T00:00:00`)) &&
+      matchesSearch(entry, filters.search)
+    );
+  });
+
+/** Chart series key for reflections that aren't about a single goal. */
+export const OVERALL_SERIES = 'overall';
+
+/**
+ * One row per day with the average satisfaction of that day's reflections,
+ * keyed by goal id (or `OVERALL_SERIES`), oldest first.
+ */
+export const satisfactionSeries = (entries: ReflectionEntry[]): ({ time: number } & Record<string, number>)[] => {
+  const days = new Map<number, Record<string, number[]>>();
+  entries.forEach(({ reflection, goal }) => {
+    const time = startOfDay(reflection.date).getTime();
+    const day = days.get(time) ?? {};
+    const key = goal?.id ?? OVERALL_SERIES;
+    day[key] = [...(day[key] ?? []), reflection.satisfaction];
+    days.set(time, day);
+  });
+
+  return [...days.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([time, scores]) => ({
+      time,
+      ...Object.fromEntries(
+        Object.entries(scores).map(([key, values]) => [key, values.reduce((sum, value) => sum + value, 0) / values.length])
+      )
+    }));
+};
+
+export interface GoalEvent {
+  goal: Goal;
+  kind: 'created' | 'paused' | 'resumed' | 'completed';
+  time: number;
+}
+
+/** When each goal was created and every later change of its status. */
+export const goalEvents = (goals: Goal[]): GoalEvent[] =>
+  goals.flatMap(goal => {
+    const events: GoalEvent[] = [{ goal, kind: 'created', time: startOfDay(goal.createdAt).getTime() }];
+    let status: Goal['status'] = 'active';
+    (goal.statusHistory ?? []).forEach(change => {
+      if (change.status === status) return;
+      const kind = change.status === 'active' ? 'resumed' : change.status;
+      events.push({ goal, kind, time: startOfDay(change.date).getTime() });
+      status = change.status;
+    });
+    return events;
+  });
@@ -0,0 +1,161 @@
+import { fromDateKey, toDateKey } from './dates';
+import { getMetricDeltas, summarizeGoalForReview, type ReflectionAnswers } from './reviews';
+import type { Goal, Reflection } from '../types';
+
+/** A change to a goal the AI suggests after a review; applied only if the user accepts it. */
+export type GoalAdjustment =
+  | { kind: 'addWeeklyAction'; goalId: string; reason: string; action: string }
+  | { kind: 'moveMilestone'; goalId: string; reason: string; milestoneId: string; targetDate: Date }
+  | { kind: 'setMetricTarget'; goalId: string; reason: string; metricId: string; target: number };
+
+export interface ReviewFeedback {
+  summary: string;
+  /** Challenges that also came up in earlier reviews. */
+  recurringChallenges: string[];
+  suggestions: GoalAdjustment[];
+}
+
+export const MAX_SUGGESTIONS = 3;
+
+// How many earlier reviews are searched for recurring challenges
+const PAST_REVIEWS = 6;
+
+export interface ReviewContext {
+  range: { start: Date; end: Date };
+  overall: ReflectionAnswers;
+  goals: Goal[];
+  goalAnswers: Record<string, ReflectionAnswers>;
+  /** Earlier reviews of the same type, newest first. */
+  pastReviews: Reflection[];
+}
+
+const answerLines = (answers: ReflectionAnswers, indent = '') =>
+  [
+    ['Progress', answers.progress],
+    ['Challenges', answers.challenges],
+    ['Insights', answers.insights],
+    ['Next steps', answers.nextSteps]
+  ]
+    .filter(([, answer]) => answer.trim())
+    .map(([label, answer]) => `${indent}${label}: ${answer.trim()}`)
+    .concat(`${indent}Satisfaction: ${answers.satisfaction}/10`);
+
+const goalLines = (goal: Goal, answers: ReflectionAnswers | undefined, range: ReviewContext['range']) => {
+  const summary = summarizeGoalForReview(goal, range);
+  const deltas = getMetricDeltas(goal, range);
+  const milestones = goal.milestones.filter(m => !m.completed || summary.milestonesHit.includes(m));
+
+  return [
+    `- [${goal.id}] ${goal.title} (${goal.domain})`,
+    ...(goal.weeklyActions.length > 0 ? [`  Weekly actions: ${goal.weeklyActions.join('; ')}`] : []),
+    ...milestones.map(m => {
+      const state = m.completed ? 'completed this period' : summary.milestonesMissed.includes(m) ? 'missed' : 'open';
+      return `  Milestone [${m.id}] "${m.title}" due ${toDateKey(m.targetDate)}, ${state}`;
+    }),
+    ...goal.metrics.map(metric => {
+      const delta = deltas.find(d => d.metric.id === metric.id);
+      const change = delta ? `${delta.from} → ${delta.to} this period` : `no updates this period, currently ${metric.current}`;
+      return `  Metric [${metric.id}] ${metric.name}: ${change}, target ${metric.target}${metric.unit ? ` ${metric.unit}` : ''}`;
+    }),
+    ...(summary.habitRate !== null ? [`  Habit completion: ${Math.round(summary.habitRate * 100)}%`] : []),
+    ...(answers ? ['  Reflection:', ...answerLines(answers, '    ')] : [])
+  ];
+};
+
+/** The review and the data behind it as plain text for the AI. */
+export const buildReviewContext = ({ range, overall, goals, goalAnswers, pastReviews }: ReviewContext): string =>
+  [
+    `Review period: ${toDateKey(range.start)} to ${toDateKey(range.end)}`,
+    '',
+    'Overall reflection:',
+    ...answerLines(overall),
+    '',
+    'Goals:',
+    ...(goals.length > 0 ? goals.flatMap(goal => goalLines(goal, goalAnswers[goal.id], range)) : ['(none)']),
+    '',
+    'Challenges from earlier reviews:',
+    ...pastReviews
+      .filter(review => review.challenges.trim())
+      .slice(0, PAST_REVIEWS)
+      .map(review => `- ${toDateKey(review.date)}: ${review.challenges.trim()}`)
+  ].join('\n');
+
+const text = (value: unknown) => (typeof value === 'string' ? value.trim() : '');
+
+const parseAdjustment = (raw: unknown, goals: Goal[]): GoalAdjustment | null => {
+  if (typeof raw !== 'object' || raw === null) return null;
+  const data = raw as Record<string, unknown>;
+  const goal = goals.find(g => g.id === data.goalId);
+  if (!goal) return null;
+
+  const base = { goalId: goal.id, reason: text(data.reason) };
+  switch (data.kind) {
+    case 'addWeeklyAction': {
+      const action = text(data.action);
+      return action ? { ...base, kind: 'addWeeklyAction', action } : null;
+    }
+    case 'moveMilestone': {
+      const milestone = goal.milestones.find(m => m.id === data.milestoneId);
+      const date = text(data.targetDate);
+      if (!milestone || !/^\d{4}-\d{2}-\d{2}$/.test(date)) return null;
+      return { ...base, kind: 'moveMilestone', milestoneId: milestone.id, targetDate: fromDateKey(date) };
+    }
+    case 'setMetricTarget': {
+      const metric = goal.metrics.find(m => m.id === data.metricId);
+      const target = Number(data.target);
+      if (!metric || metric.type === 'boolean' || !isFinite(target)) return null;
+      return { ...base, kind: 'setMetricTarget', metricId: metric.id, target };
+    }
+    default:
+      return null;
+  }
+};
+
+/**
+ * Coerces the AI's JSON into feedback. Suggestions that point at goals,
+ * milestones or metrics that don't exist are dropped.
+ */
+export const parseReviewFeedback = (data: object, goals: Goal[]): ReviewFeedback => {
+  const raw = data as Record<string, unknown>;
+  return {
+    summary: text(raw.summary),
+    recurringChallenges: Array.isArray(raw.recurringChallenges) ? raw.recurringChallenges.map(text).filter(Boolean) : [],
+    suggestions: (Array.isArray(raw.suggestions) ? raw.suggestions : [])
+      .map(suggestion => parseAdjustment(suggestion, goals))
+      .filter((suggestion): suggestion is GoalAdjustment => suggestion !== null)
+      .slice(0, MAX_SUGGESTIONS)
+  };
+};
+
+/** The goal fields to update when the user accepts a suggestion. */
+export const applyGoalAdjustment = (goal: Goal, adjustment: GoalAdjustment): Partial<Goal> => {
+  switch (adjustment.kind) {
+    case 'addWeeklyAction':
+      return { weeklyActions: [...goal.weeklyActions, adjustment.action] };
+    case 'moveMilestone':
+      return {
+        milestones: goal.milestones.map(m =>
+          m.id === adjustment.milestoneId ? { ...m, targetDate: adjustment.targetDate } : m
+        )
+      };
+    case 'setMetricTarget':
+      return {
+        metrics: goal.metrics.map(m => (m.id === adjustment.metricId ? { ...m, target: adjustment.target } : m))
+      };
+  }
+};
+
+export const describeAdjustment = (goal: Goal, adjustment: GoalAdjustment): string => {
+  switch (adjustment.kind) {
+    case 'addWeeklyAction':
+      return `Add the weekly action "${adjustment.action}"`;
+    case 'moveMilestone': {
+      const milestone = goal.milestones.find(m => m.id === adjustment.milestoneId);
+      return `Move "${milestone?.title}" to ${adjustment.targetDate.toLocaleDateString()}`;
+    }
+    case 'setMetricTarget': {
+      const metric = goal.metrics.find(m => m.id === adjustment.metricId);
+      return `Set the ${metric?.name} target to ${adjustment.target}${metric?.unit ? ` ${metric.unit}` : ''}`;
+    }
+  }
+};
@@ -0,0 +1,219 @@
+import { addDays, startOfDay } from './dates';
+import { getCompletionRate } from './habits';
+import { collectReflections, type ReflectionEntry } from './reflectionHistory';
+import type { Goal, GoalDecision, Metric, Milestone, Reflection } from '../types';
+
+export type ReviewType = Reflection['type'];
+
+/** Reviews that cover a calendar month, quarter or year rather than a planning week. */
+export type PeriodReviewType = Exclude<ReviewType, 'weekly'>;
+
+export const REVIEW_TYPES: ReviewType[] = ['weekly', 'monthly', 'quarterly', 'annual'];
+
+export const REVIEW_TYPE_LABELS: Record<ReviewType, string> = {
+  weekly: 'Weekly',
+  monthly: 'Monthly',
+  quarterly: 'Quarterly',
+  annual: 'Annual'
+};
+
+/** The answers a reflection asks for, without its bookkeeping fields. */
+export type ReflectionAnswers = Pick<Reflection, 'progress' | 'challenges' | 'insights' | 'nextSteps' | 'satisfaction'>;
+
+export type ReflectionPrompts = Record<Exclude<keyof ReflectionAnswers, 'satisfaction'>, string>;
+
+export const REVIEW_PROMPTS: Record<ReviewType, ReflectionPrompts> = {
+  weekly: {
+    progress: 'What progress did you make this week?',
+    challenges: 'What challenges did you face?',
+    insights: 'What insights or lessons did you learn?',
+    nextSteps: 'What are your next steps?'
+  },
+  monthly: {
+    progress: 'What moved forward this month?',
+    challenges: 'What kept getting in the way?',
+    insights: 'Which habits or routines made the biggest difference?',
+    nextSteps: 'What will you focus on next month?'
+  },
+  quarterly: {
+    progress: 'Which goals made real progress this quarter?',
+    challenges: 'Which goals stalled, and why?',
+    insights: 'What did this quarter teach you about how you work?',
+    nextSteps: 'What goals do you want to start next quarter?'
+  },
+  annual: {
+    progress: 'What are you proudest of this year?',
+    challenges: 'What was hardest this year?',
+    insights: 'What did you learn about yourself?',
+    nextSteps: 'What do you want next year to be about?'
+  }
+};
+
+export const GOAL_DECISION_LABELS: Record<GoalDecision, string> = {
+  keep: 'Keep going',
+  pause: 'Pause',
+  resume: 'Resume',
+  retire: 'Retire'
+};
+
+/** The goal status a quarterly decision leads to; retired goals are closed as completed. */
+export const statusForDecision = (decision: GoalDecision, current: Goal['status']): Goal['status'] => {
+  switch (decision) {
+    case 'pause':
+      return 'paused';
+    case 'resume':
+      return 'active';
+    case 'retire':
+      return 'completed';
+    case 'keep':
+      return current;
+  }
+};
+
+export const EMPTY_REFLECTION: ReflectionAnswers = {
+  progress: '',
+  challenges: '',
+  insights: '',
+  nextSteps: '',
+  satisfaction: 5
+};
+
+/**
+ * The overall reflection of a weekly or period review, as opposed to a domain
+ * review of the same type. Per-goal reflections are kept on their goals, so
+ * they never reach the reflections collection.
+ */
+export const isOverallReview = (reflection: Reflection): boolean => !reflection.domain;
+
+export const hasReflectionAnswers = (answers: ReflectionAnswers): boolean =>
+  [answers.progress, answers.challenges, answers.insights, answers.nextSteps].some(answer => answer.trim() !== '');
+
+export interface GoalReviewSummary {
+  milestonesHit: Milestone[];
+  /** Due within the period and still open. */
+  milestonesMissed: Milestone[];
+  metricsUpdated: { metric: Metric; updates: number }[];
+  /** Average habit completion over the period, 0–1. */
+  habitRate: number | null;
+}
+
+const inRange = (date: Date | undefined, range: { start: Date; end: Date }) =>
+  date !== undefined && startOfDay(date) >= range.start && startOfDay(date) <= range.end;
+
+/** What happened on a goal during a review period. */
+export const summarizeGoalForReview = (
+  goal: Goal,
+  range: { start: Date; end: Date },
+  now: Date = new Date()
+): GoalReviewSummary => {
+  // The period may still be running; only count the days so far
+  const until = startOfDay(now) < range.end ? startOfDay(now) : range.end;
+  let days = 0;
+  for (let day = range.start; day <= until; day = addDays(day, 1)) days++;
+
+  const rates = days === 0
+    ? []
+    : goal.dailyHabits
+      .map(habit => getCompletionRate(habit, days, until))
+      .filter((rate): rate is number => rate !== null);
+
+  return {
+    milestonesHit: goal.milestones.filter(m => m.completed && inRange(m.completedDate, range)),
+    milestonesMissed: goal.milestones.filter(m => !m.completed && inRange(m.targetDate, { start: range.start, end: until })),
+    metricsUpdated: goal.metrics
+      .map(metric => ({ metric, updates: metric.history.filter(entry => inRange(entry.date, range)).length }))
+      .filter(({ updates }) => updates > 0),
+    habitRate: rates.length > 0 ? rates.reduce((sum, rate) => sum + rate, 0) / rates.length : null
+  };
+};
+
+/** Period key for `date`: `YYYY-MM`, `YYYY-Qn` or `YYYY`. */
+export const periodOf = (type: PeriodReviewType, date: Date): string => {
+  const year = date.getFullYear();
+  switch (type) {
+    case 'monthly':
+      return `${year}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+    case 'quarterly':
+      return `${year}-Q${Math.floor(date.getMonth() / 3) + 1}`;
+    case 'annual':
+      return String(year);
+  }
+};
+
+/** First and last day of a period key from `periodOf`. */
+export const periodRange = (type: PeriodReviewType, period: string): { start: Date; end: Date } => {
+  const year = Number(period.slice(0, 4));
+  switch (type) {
+    case 'monthly': {
+      const month = Number(period.slice(5, 7)) - 1;
+      return { start: new Date(year, month, 1), end: new Date(year, month + 1, 0) };
+    }
+    case 'quarterly': {
+      const quarter = Number(period.slice(6)) - 1;
+      return { start: new Date(year, quarter * 3, 1), end: new Date(year, quarter * 3 + 3, 0) };
+    }
+    case 'annual':
+      return { start: new Date(year, 0, 1), end: new Date(year, 11, 31) };
+  }
+};
+
+export const previousPeriod = (type: PeriodReviewType, period: string): string =>
+  periodOf(type, addDays(periodRange(type, period).start, -1));
+
+// Early in a new period the one that just ended is the one worth reviewing
+const GRACE_DAYS = 7;
+
+export const defaultReviewPeriod = (type: PeriodReviewType, now: Date = new Date()): string => {
+  const current = periodOf(type, now);
+  return startOfDay(now) < addDays(periodRange(type, current).start, GRACE_DAYS) ? previousPeriod(type, current) : current;
+};
+
+/** "October 2026", "Q4 2026" or "2026" */
+export const formatPeriod = (type: PeriodReviewType, period: string): string => {
+  if (type === 'monthly') {
+    return periodRange(type, period).start.toLocaleDateString([], { month: 'long', year: 'numeric' });
+  }
+  return type === 'quarterly' ? `${period.slice(5)} ${period.slice(0, 4)}` : period;
+};
+
+export interface MetricDelta {
+  metric: Metric;
+  from: number;
+  to: number;
+}
+
+/**
+ * How each numeric metric changed over the period: from the last value
+ * recorded before it (or its first value in it) to the last value in it.
+ */
+export const getMetricDeltas = (goal: Goal, range: { start: Date; end: Date }): MetricDelta[] =>
+  goal.metrics.flatMap(metric => {
+    const history = [...metric.history]
+      .filter(entry => typeof entry.value === 'number')
+      .sort((a, b) => a.date.getTime() - b.date.getTime());
+    const during = history.filter(entry => inRange(entry.date, range));
+    if (during.length === 0) return [];
+
+    const before = history.filter(entry => startOfDay(entry.date) < range.start).pop();
+    return [{ metric, from: (before ?? during[0]).value as number, to: during[during.length - 1].value as number }];
+  });
+
+/** Reflections written during the period, newest first, including those stored on goals. */
+export const reflectionsInPeriod = (
+  reflections: Reflection[],
+  goals: Goal[],
+  range: { start: Date; end: Date }
+): ReflectionEntry[] =>
+  collectReflections(reflections, goals).filter(({ reflection }) => inRange(reflection.date, range));
+
+/** A starting point for the "progress" answer listing what the period's data shows. */
+export const draftProgressNotes = (goals: Goal[], range: { start: Date; end: Date }): string =>
+  goals.flatMap(goal => {
+    const summary = summarizeGoalForReview(goal, range);
+    return [
+      ...summary.milestonesHit.map(m => `• ${goal.title}: completed "${m.title}"`),
+      ...getMetricDeltas(goal, range)
+        .filter(({ from, to }) => from !== to)
+        .map(({ metric, from, to }) => `• ${goal.title}: ${metric.name} ${from} → ${to}${metric.unit ? ` ${metric.unit}` : ''}`)
+    ];
+  }).join('\n');
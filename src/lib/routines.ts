@@ -0,0 +1,68 @@
+import { startOfDay } from './dates';
+import type { Routine, RoutineRun } from '../types';
+
+export const ROUTINE_FREQUENCY_LABELS: Record<Routine['frequency'], string> = {
+  daily: 'Daily',
+  weekly: 'Weekly',
+  monthly: 'Monthly',
+  quarterly: 'Quarterly',
+  annual: 'Annual'
+};
+
+// Month arithmetic clamps to the last day, so a routine run on Jan 31 is next
+// due on Feb 28 rather than rolling over into March.
+const addMonths = (date: Date, months: number) => {
+  const target = new Date(date.getFullYear(), date.getMonth() + months, 1);
+  const lastDay = new Date(target.getFullYear(), target.getMonth() + 1, 0).getDate();
+  target.setDate(Math.min(date.getDate(), lastDay));
+  return target;
+};
+
+/** The day a routine is next due after being done on `completedAt`. */
+export const computeNextDue = (frequency: Routine['frequency'], completedAt: Date): Date => {
+  const day = startOfDay(completedAt);
+  switch (frequency) {
+    case 'daily':
+      return new Date(day.getFullYear(), day.getMonth(), day.getDate() + 1);
+    case 'weekly':
+      return new Date(day.getFullYear(), day.getMonth(), day.getDate() + 7);
+    case 'monthly':
+      return addMonths(day, 1);
+    case 'quarterly':
+      return addMonths(day, 3);
+    case 'annual':
+      return addMonths(day, 12);
+  }
+};
+
+/** A new routine is due the day it's created. */
+export const createRoutine = (
+  name: string,
+  steps: string[],
+  frequency: Routine['frequency'] = 'daily',
+  description = ''
+): Routine => ({
+  id: crypto.randomUUID(),
+  name,
+  description,
+  frequency,
+  steps,
+  nextDue: startOfDay(new Date()),
+  runs: []
+});
+
+/** Routines that were never scheduled count as due today. */
+export const isRoutineDue = (routine: Routine, now: Date = new Date()): boolean =>
+  !routine.nextDue || startOfDay(routine.nextDue) <= startOfDay(now);
+
+/** Overdue once the whole due day has passed without a run. */
+export const isRoutineOverdue = (routine: Routine, now: Date = new Date()): boolean =>
+  routine.nextDue !== undefined && startOfDay(routine.nextDue) < startOfDay(now);
+
+/** Records a finished run and schedules the next one. */
+export const completeRoutineRun = (routine: Routine, run: RoutineRun): Routine => ({
+  ...routine,
+  lastCompleted: run.completedAt,
+  nextDue: computeNextDue(routine.frequency, run.completedAt),
+  runs: [...(routine.runs ?? []), run]
+});
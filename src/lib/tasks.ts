@@ -0,0 +1,33 @@
+import { boardColumnOf } from './board';
+import { startOfDay } from './dates';
+import type { Task } from '../types';
+
+export const TASK_PRIORITIES: Task['priority'][] = ['high', 'medium', 'low'];
+
+const PRIORITY_ORDER: Record<Task['priority'], number> = { high: 0, medium: 1, low: 2 };
+
+/** Open tasks first, then by due date (undated last), then by priority. */
+export const compareTasks = (a: Task, b: Task): number => {
+  if (a.completed !== b.completed) return a.completed ? 1 : -1;
+  const aDue = a.dueDate?.getTime() ?? Infinity;
+  const bDue = b.dueDate?.getTime() ?? Infinity;
+  if (aDue !== bDue) return aDue - bDue;
+  return PRIORITY_ORDER[a.priority] - PRIORITY_ORDER[b.priority];
+};
+
+export const isTaskOverdue = (task: Task, now: Date = new Date()): boolean =>
+  !task.completed && task.dueDate !== undefined && startOfDay(task.dueDate) < startOfDay(now);
+
+/**
+ * Tasks that belong on this week's list: planned for or due this week,
+ * overdue and still open, or finished this week. Moving a task on the board
+ * overrides its due date.
+ */
+export const isTaskInWeek = (task: Task, week: { start: Date; end: Date }): boolean => {
+  const column = boardColumnOf(task, task.dueDate, week);
+  return column !== null && column !== 'backlog';
+};
+
+/** "focus, deep work" → ["focus", "deep work"] */
+export const parseTags = (value: string): string[] =>
+  [...new Set(value.split(',').map(tag => tag.trim().toLowerCase()).filter(Boolean))];
@@ -0,0 +1,110 @@
+import { isRoutineDoneOn, type DailyPlan } from './dailyPlan';
+import { isHabitDoneOn } from './habits';
+import { compareTasks } from './tasks';
+import type { TimeBlock } from '../types';
+
+export const SLOT_MINUTES = 15;
+
+// Used when an item has no estimate of its own
+const DEFAULT_MINUTES = { habit: 15, routine: 30, task: 30 };
+
+/** Something from the day's plan that can be placed on the grid. */
+export interface SchedulableItem {
+  key: string;
+  kind: 'habit' | 'routine' | 'task';
+  title: string;
+  subtitle?: string;
+  duration: number;
+  done: boolean;
+}
+
+/** "07:30" → 450 */
+export const parseTimeOfDay = (value: string): number => {
+  const [hours, minutes] = value.split(':').map(Number);
+  return (hours || 0) * 60 + (minutes || 0);
+};
+
+/** 450 → "07:30" */
+export const formatTimeOfDay = (minutes: number): string =>
+  `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+
+export const roundToSlot = (minutes: number, direction: 'up' | 'nearest' = 'nearest'): number =>
+  (direction === 'up' ? Math.ceil(minutes / SLOT_MINUTES) : Math.round(minutes / SLOT_MINUTES)) * SLOT_MINUTES;
+
+/**
+ * Habits, routines and tasks from the plan in the order auto-scheduling
+ * places them: routines first, then tasks by urgency, then habits.
+ */
+export const getSchedulableItems = (plan: DailyPlan, day: Date = new Date()): SchedulableItem[] => [
+  ...plan.routines.map(({ goal, routine }) => ({
+    key: `routine:${goal.id}:${routine.id}`,
+    kind: 'routine' as const,
+    title: routine.name,
+    subtitle: goal.title,
+    duration: routine.estimatedMinutes ?? DEFAULT_MINUTES.routine,
+    done: isRoutineDoneOn(routine, day)
+  })),
+  ...[...plan.tasks].sort(compareTasks).map(task => ({
+    key: `task:${task.id}`,
+    kind: 'task' as const,
+    title: task.title,
+    duration: task.estimatedMinutes ?? DEFAULT_MINUTES.task,
+    done: task.completed
+  })),
+  ...plan.habits.map(({ goal, habit }) => ({
+    key: `habit:${goal.id}:${habit.id}`,
+    kind: 'habit' as const,
+    title: habit.title,
+    subtitle: goal.title,
+    duration: DEFAULT_MINUTES.habit,
+    done: isHabitDoneOn(habit, day)
+  }))
+];
+
+const overlaps = (a: TimeBlock, b: TimeBlock) => a.start < b.start + b.duration && b.start < a.start + a.duration;
+
+/** Ids of blocks that overlap at least one other block. */
+export const findConflicts = (blocks: TimeBlock[]): Set<string> => {
+  const conflicts = new Set<string>();
+  blocks.forEach((block, i) => {
+    blocks.slice(i + 1).forEach(other => {
+      if (overlaps(block, other)) {
+        conflicts.add(block.id);
+        conflicts.add(other.id);
+      }
+    });
+  });
+  return conflicts;
+};
+
+/**
+ * Packs open items that aren't on the grid yet into the first free gaps
+ * between `workingHours.start` and `.end`, never before `earliest`. Items that
+ * don't fit anywhere stay unscheduled. Returns the existing blocks plus the
+ * new ones.
+ */
+export const autoSchedule = (
+  items: SchedulableItem[],
+  blocks: TimeBlock[],
+  workingHours: { start: number; end: number },
+  earliest: number = workingHours.start
+): TimeBlock[] => {
+  const scheduled = [...blocks];
+  const dayStart = Math.max(workingHours.start, roundToSlot(earliest, 'up'));
+
+  items
+    .filter(item => !item.done && !blocks.some(block => block.itemKey === item.key))
+    .forEach(item => {
+      let start = dayStart;
+      const busy = [...scheduled].sort((a, b) => a.start - b.start);
+      for (const block of busy) {
+        if (start + item.duration <= block.start) break;
+        if (block.start + block.duration > start) start = roundToSlot(block.start + block.duration, 'up');
+      }
+      if (start + item.duration > workingHours.end) return;
+
+      scheduled.push({ id: crypto.randomUUID(), itemKey: item.key, title: item.title, start, duration: item.duration });
+    });
+
+  return scheduled;
+};
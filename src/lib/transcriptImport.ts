@@ -0,0 +1,300 @@
+import type { ConversationMessage } from '../types';
+
+export type TranscriptFormat = 'chatgpt-json' | 'webvtt' | 'srt' | 'speaker-labels' | 'notes';
+export type SpeakerRole = 'user' | 'assistant';
+
+export interface TranscriptTurn {
+  /** Speaker as written in the source, e.g. "Coach" or "Me". Empty when unknown. */
+  speaker: string;
+  role: SpeakerRole;
+  content: string;
+}
+
+export interface ParsedTranscript {
+  format: TranscriptFormat;
+  turns: TranscriptTurn[];
+  /** Role assigned to each named speaker; change one with `assignSpeakerRole`. */
+  speakers: Record<string, SpeakerRole>;
+  warnings: string[];
+}
+
+export const TRANSCRIPT_FORMAT_LABELS: Record<TranscriptFormat, string> = {
+  'chatgpt-json': 'ChatGPT export',
+  webvtt: 'WebVTT captions',
+  srt: 'SRT captions',
+  'speaker-labels': 'Labelled transcript',
+  notes: 'Plain notes'
+};
+
+const ASSISTANT_NAMES = ['assistant', 'ai', 'coach', 'bot', 'chatgpt', 'gpt', 'mentor', 'interviewer', 'therapist'];
+const USER_NAMES = ['user', 'me', 'i', 'myself', 'client', 'human', 'you'];
+
+// "Coach: ...", "[Me] ...", "**User:** ..." — a short name before a colon.
+const SPEAKER_PREFIX = /^\s*(?:\*\*|\[)?([A-Za-z][\w .'-]{0,30}?)(?:\*\*|\])?\s*:(?:\*\*)?\s+(.*)$/;
+const CUE_TIMING = /^\s*(?:\d{1,2}:)?\d{1,2}:\d{2}[.,]\d{3}\s*-->/;
+const VTT_VOICE = /^<v(?:\.[\w.]+)?\s+([^>]+)>(.*?)(?:<\/v>)?$/;
+
+const knownRole = (speaker: string): SpeakerRole | undefined => {
+  const name = speaker.trim().toLowerCase();
+  if (ASSISTANT_NAMES.includes(name)) return 'assistant';
+  if (USER_NAMES.includes(name)) return 'user';
+  return undefined;
+};
+
+// Named speakers keep their obvious role. Unknown names get whichever role is
+// still free, starting with the assistant since coaches usually open the session.
+const assignRoles = (speakers: string[]): Record<string, SpeakerRole> => {
+  const roles: Record<string, SpeakerRole> = {};
+  speakers.forEach(speaker => {
+    const role = knownRole(speaker);
+    if (role) roles[speaker] = role;
+  });
+
+  const used = new Set(Object.values(roles));
+  speakers.filter(speaker => !roles[speaker]).forEach(speaker => {
+    const role: SpeakerRole = used.has('assistant') ? 'user' : 'assistant';
+    roles[speaker] = role;
+    used.add(role);
+  });
+
+  return roles;
+};
+
+const mergeConsecutive = (turns: TranscriptTurn[]): TranscriptTurn[] =>
+  turns.reduce<TranscriptTurn[]>((merged, turn) => {
+    const last = merged[merged.length - 1];
+    if (last && last.speaker === turn.speaker && last.role === turn.role) {
+      last.content = `${last.content}\n${turn.content}`;
+    } else {
+      merged.push({ ...turn });
+    }
+    return merged;
+  }, []);
+
+const withSpeakers = (
+  format: TranscriptFormat,
+  raw: { speaker: string; content: string }[],
+  warnings: string[] = []
+): ParsedTranscript => {
+  const speakers = assignRoles([...new Set(raw.map(turn => turn.speaker))]);
+  const turns = mergeConsecutive(
+    raw
+      .map(turn => ({ ...turn, content: turn.content.trim(), role: speakers[turn.speaker] }))
+      .filter(turn => turn.content)
+  );
+  return { format, turns, speakers, warnings };
+};
+
+const notes = (text: string, warnings: string[] = []): ParsedTranscript => ({
+  format: 'notes',
+  turns: text.trim() ? [{ speaker: '', role: 'user', content: text.trim() }] : [],
+  speakers: {},
+  warnings
+});
+
+// Lines with a speaker prefix start a new turn; anything else continues the
+// current one, so multi-line answers stay together.
+const parseSpeakerLines = (lines: string[]) => {
+  const turns: { speaker: string; content: string }[] = [];
+  lines.forEach(line => {
+    const match = line.match(SPEAKER_PREFIX);
+    if (match) {
+      turns.push({ speaker: match[1].trim(), content: match[2] });
+    } else if (turns.length > 0) {
+      turns[turns.length - 1].content += `\n${line}`;
+    } else if (line.trim()) {
+      turns.push({ speaker: '', content: line });
+    }
+  });
+  return turns;
+};
+
+const countSpeakerLines = (lines: string[]) => lines.filter(line => SPEAKER_PREFIX.test(line)).length;
+
+// Shared by WebVTT and SRT once cue numbers and timings are stripped.
+const parseCues = (format: TranscriptFormat, cues: string[][]): ParsedTranscript => {
+  const turns: { speaker: string; content: string }[] = [];
+  cues.forEach(cue => {
+    cue.forEach(line => {
+      const voice = line.match(VTT_VOICE);
+      if (voice) {
+        turns.push({ speaker: voice[1].trim(), content: voice[2] });
+        return;
+      }
+      const prefixed = line.match(SPEAKER_PREFIX);
+      if (prefixed) {
+        turns.push({ speaker: prefixed[1].trim(), content: prefixed[2] });
+      } else if (turns.length > 0) {
+        turns[turns.length - 1].content += ` ${line}`;
+      } else {
+        turns.push({ speaker: '', content: line });
+      }
+    });
+  });
+
+  const text = turns.map(turn => turn.content.replace(/<[^>]+>/g, ''));
+  if (!turns.some(turn => turn.speaker)) {
+    return { ...notes(text.join(' ')), warnings: ['No speakers found in the captions; imported as notes.'] };
+  }
+  return withSpeakers(format, turns.map((turn, i) => ({ ...turn, content: text[i] })));
+};
+
+const splitBlocks = (text: string) =>
+  text.replace(/\r\n?/g, '\n').split(/\n\s*\n/).map(block => block.split('\n').filter(line => line.trim()));
+
+const parseWebVTT = (text: string): ParsedTranscript => {
+  const cues = splitBlocks(text)
+    .filter(block => block.length > 0 && !/^(WEBVTT|NOTE|STYLE|REGION)\b/.test(block[0]))
+    .map(block => block.slice(block.findIndex(line => CUE_TIMING.test(line)) + 1));
+  return parseCues('webvtt', cues);
+};
+
+const parseSRT = (text: string): ParsedTranscript => {
+  const cues = splitBlocks(text).map(block =>
+    block.filter(line => !/^\d+$/.test(line.trim()) && !CUE_TIMING.test(line))
+  );
+  return parseCues('srt', cues);
+};
+
+type UnknownRecord = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is UnknownRecord =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const contentText = (content: unknown): string => {
+  if (typeof content === 'string') return content;
+  if (Array.isArray(content)) return content.map(contentText).join('\n');
+  if (isRecord(content)) {
+    if (Array.isArray(content.parts)) return content.parts.filter(part => typeof part === 'string').join('\n');
+    if (typeof content.text === 'string') return content.text;
+  }
+  return '';
+};
+
+interface ExportMessage {
+  author?: { role?: string };
+  role?: string;
+  content?: unknown;
+  create_time?: number | null;
+}
+
+interface ExportNode {
+  message?: ExportMessage | null;
+  parent?: string | null;
+}
+
+// ChatGPT exports store a conversation as a tree of edits; the visible thread
+// is the path from `current_node` back to the root.
+const threadFromMapping = (conversation: UnknownRecord): ExportMessage[] => {
+  const mapping = conversation.mapping as UnknownRecord;
+  // Nodes come straight from the file, so any of them may be null or malformed
+  const nodeAt = (id: string | null): ExportNode | undefined => {
+    const node = id === null ? undefined : mapping[id];
+    return isRecord(node) ? node : undefined;
+  };
+  let nodeId = typeof conversation.current_node === 'string' ? conversation.current_node : null;
+
+  if (!nodeAt(nodeId)) {
+    return Object.values(mapping)
+      .map(node => (isRecord(node) ? node.message : undefined))
+      .filter((message): message is ExportMessage => isRecord(message))
+      .sort((a, b) => (a.create_time ?? 0) - (b.create_time ?? 0));
+  }
+
+  // A malformed export can point parents in a loop; stop at the first repeat
+  const visited = new Set<string>();
+  const thread: ExportMessage[] = [];
+  let node = nodeAt(nodeId);
+  while (nodeId && node && !visited.has(nodeId)) {
+    visited.add(nodeId);
+    const { message, parent } = node;
+    if (isRecord(message)) thread.unshift(message);
+    nodeId = typeof parent === 'string' ? parent : null;
+    node = nodeAt(nodeId);
+  }
+  return thread;
+};
+
+const parseChatGPTExport = (data: unknown): ParsedTranscript | null => {
+  const warnings: string[] = [];
+  let conversation: unknown = data;
+
+  if (Array.isArray(data) && data.length > 0 && isRecord(data[0]) && 'mapping' in data[0]) {
+    if (data.length > 1) warnings.push(`The export has ${data.length} conversations; only the first was imported.`);
+    conversation = data[0];
+  }
+
+  let messages: ExportMessage[];
+  if (isRecord(conversation) && isRecord(conversation.mapping)) {
+    messages = threadFromMapping(conversation);
+  } else if (isRecord(conversation) && Array.isArray(conversation.messages)) {
+    messages = conversation.messages;
+  } else if (Array.isArray(conversation)) {
+    messages = conversation;
+  } else {
+    return null;
+  }
+
+  const turns = messages
+    .filter((message): message is ExportMessage => isRecord(message))
+    .map(message => ({ role: message.author?.role ?? message.role, content: contentText(message.content) }))
+    .filter(message => (message.role === 'user' || message.role === 'assistant') && message.content.trim())
+    .map(message => ({ speaker: message.role as SpeakerRole, content: message.content }));
+
+  if (turns.length === 0) return null;
+  return withSpeakers('chatgpt-json', turns, warnings);
+};
+
+export const detectTranscriptFormat = (text: string): TranscriptFormat => {
+  const trimmed = text.trim();
+  if (/^[[{]/.test(trimmed)) {
+    try {
+      JSON.parse(trimmed);
+      return 'chatgpt-json';
+    } catch {
+      // Not JSON after all; fall through to the text formats
+    }
+  }
+  if (/^WEBVTT\b/.test(trimmed)) return 'webvtt';
+  if (/^\d+\s*\n\s*\d{1,2}:\d{2}:\d{2},\d{3}\s*-->/.test(trimmed.replace(/\r\n?/g, '\n'))) return 'srt';
+
+  const lines = trimmed.split(/\r?\n/).filter(line => line.trim());
+  return countSpeakerLines(lines) >= 2 ? 'speaker-labels' : 'notes';
+};
+
+/**
+ * Turns a pasted or uploaded transcript into conversation turns. The format
+ * is detected from the content; anything unrecognised is kept as notes from
+ * the user so extraction can still work from it.
+ */
+export const parseTranscript = (text: string): ParsedTranscript => {
+  const format = detectTranscriptFormat(text);
+
+  switch (format) {
+    case 'chatgpt-json':
+      return parseChatGPTExport(JSON.parse(text.trim()))
+        ?? notes(text, ['This JSON is not a ChatGPT export; imported as notes.']);
+    case 'webvtt':
+      return parseWebVTT(text);
+    case 'srt':
+      return parseSRT(text);
+    case 'speaker-labels':
+      return withSpeakers('speaker-labels', parseSpeakerLines(text.replace(/\r\n?/g, '\n').split('\n')));
+    default:
+      return notes(text);
+  }
+};
+
+/** Re-labels every turn from `speaker`. */
+export const assignSpeakerRole = (
+  transcript: ParsedTranscript,
+  speaker: string,
+  role: SpeakerRole
+): ParsedTranscript => ({
+  ...transcript,
+  speakers: { ...transcript.speakers, [speaker]: role },
+  turns: transcript.turns.map(turn => (turn.speaker === speaker ? { ...turn, role } : turn))
+});
+
+export const toConversationMessages = (turns: TranscriptTurn[]): ConversationMessage[] =>
+  turns.map(({ role, content }) => ({ role, content }));
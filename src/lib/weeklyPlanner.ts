@@ -0,0 +1,120 @@
+import { addDays, fromDateKey, toDateKey } from './dates';
+import { getUserProfile, listGoals, listTasks, saveWeeklyPlan, type WeeklyPlanChanges } from './goalsRepository';
+import type { Goal, PlanningSettings, Task } from '../types';
+
+export const DEFAULT_PLANNING_SETTINGS: PlanningSettings = {
+  weekStartsOn: 1,
+  timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+  workDayStart: '09:00',
+  workDayEnd: '17:00'
+};
+
+export const planningSettingsFor = (settings?: Partial<PlanningSettings>): PlanningSettings => ({
+  ...DEFAULT_PLANNING_SETTINGS,
+  ...settings
+});
+
+// The calendar day it currently is in `timeZone`, which can differ from the
+// browser's when travelling or when the user picked another zone.
+const dateKeyInZone = (date: Date, timeZone: string): string => {
+  try {
+    // en-CA formats as YYYY-MM-DD
+    return new Intl.DateTimeFormat('en-CA', { timeZone, year: 'numeric', month: '2-digit', day: '2-digit' }).format(date);
+  } catch {
+    return toDateKey(date);
+  }
+};
+
+/** Start (`YYYY-MM-DD`) of the planning week containing `now`. */
+export const currentPlanningWeek = (settings: PlanningSettings, now: Date = new Date()): string => {
+  const today = fromDateKey(dateKeyInZone(now, settings.timeZone));
+  const offset = (today.getDay() - settings.weekStartsOn + 7) % 7;
+  return toDateKey(addDays(today, -offset));
+};
+
+/** First and last day of the planning week starting on `week`. */
+export const planningWeekRange = (week: string): { start: Date; end: Date } => {
+  const start = fromDateKey(week);
+  return { start, end: addDays(start, 6) };
+};
+
+/** The planning week a task belongs to; older tasks only have a due date. */
+export const taskWeek = (task: Task, settings: PlanningSettings): string | undefined =>
+  task.weekOf ?? (task.dueDate && currentPlanningWeek(settings, task.dueDate));
+
+// Small stable hash so a goal's action maps to the same task id every time.
+const hashAction = (action: string) => {
+  let hash = 5381;
+  for (let i = 0; i < action.length; i++) hash = ((hash << 5) + hash + action.charCodeAt(i)) | 0;
+  return (hash >>> 0).toString(36);
+};
+
+/**
+ * Works out the week's changes: unfinished weekly tasks from earlier weeks
+ * move into this one (for goals that are still active and still list the
+ * action), and every remaining weekly action of an active goal gets a task
+ * due on the last day of the week.
+ */
+export const planWeek = (
+  userId: string,
+  goals: Goal[],
+  tasks: Task[],
+  settings: PlanningSettings,
+  now: Date = new Date()
+): WeeklyPlanChanges => {
+  const week = currentPlanningWeek(settings, now);
+  const { end } = planningWeekRange(week);
+  const activeGoals = goals.filter(goal => goal.status === 'active');
+  const planned = new Set<string>();
+
+  const rolledOver = tasks
+    .filter(task => {
+      const goal = activeGoals.find(g => g.id === task.goalId);
+      const taskWeekStart = taskWeek(task, settings);
+      const action = task.weeklyAction?.trim();
+      return !task.completed && !!action && !!goal?.weeklyActions.some(a => a.trim() === action)
+        && taskWeekStart !== undefined && taskWeekStart < week;
+    })
+    .map(task => ({
+      taskId: task.id,
+      updates: { weekOf: week, dueDate: end, rolledOver: (task.rolledOver ?? 0) + 1 }
+    }));
+
+  tasks
+    .filter(task => task.weeklyAction && (taskWeek(task, settings) === week || rolledOver.some(r => r.taskId === task.id)))
+    .forEach(task => planned.add(`${task.goalId}:${task.weeklyAction!.trim()}`));
+
+  const created = activeGoals.flatMap(goal =>
+    [...new Set(goal.weeklyActions.map(action => action.trim()).filter(Boolean))]
+      .filter(action => !planned.has(`${goal.id}:${action}`))
+      .map(action => ({
+        id: `${userId}_${goal.id}_${week}_${hashAction(action)}`,
+        goalId: goal.id,
+        title: action,
+        dueDate: end,
+        completed: false,
+        priority: 'medium' as const,
+        tags: [],
+        weeklyAction: action,
+        weekOf: week
+      }))
+  );
+
+  return { week, created, rolledOver };
+};
+
+/**
+ * Plans the current week for the user unless that already happened. Returns
+ * the number of tasks created or carried over.
+ */
+export const runWeeklyPlanner = async (userId: string, { force = false } = {}): Promise<number> => {
+  const profile = await getUserProfile(userId);
+  const settings = planningSettingsFor(profile?.planning);
+  const week = currentPlanningWeek(settings);
+  if (!force && settings.lastPlannedWeek === week) return 0;
+
+  const [goals, tasks] = await Promise.all([listGoals(userId), listTasks(userId)]);
+  const changes = planWeek(userId, goals, tasks, settings);
+  await saveWeeklyPlan(userId, changes);
+  return changes.created.length + changes.rolledOver.length;
+};
@@ -4,10 +4,66 @@ export interface User {
   displayName: string | null;
   domains?: {
     [key: string]: {
-      lastReview: Date;
-      nextReview: Date;
+      lastReview: Date | null;
+      nextReview: Date | null;
+      /** How often the domain is reviewed; `nextReview` is computed from it after each review. */
+      cadence?: Reflection['type'];
     };
   };
+  aiSettings?: AISettings;
+  planning?: PlanningSettings;
+  /** The period (see `Reflection.period`) of the last completed review of each type. */
+  reviews?: Partial<Record<Reflection['type'], string>>;
+}
+
+/** When the weekly planner turns weekly actions into tasks. */
+export interface PlanningSettings {
+  /** 0 = Sunday … 6 = Saturday. */
+  weekStartsOn: number;
+  /** IANA time zone the week boundaries are computed in, e.g. "Europe/Berlin". */
+  timeZone: string;
+  /** Start (`YYYY-MM-DD`) of the last week the planner ran for. */
+  lastPlannedWeek?: string;
+  /** Working hours as `HH:MM`; auto-scheduling only fills this window. */
+  workDayStart: string;
+  workDayEnd: string;
+}
+
+/** Monthly spending caps in USD. Unset means no cap. */
+export interface AISettings {
+  softMonthlyCap?: number | null;
+  hardMonthlyCap?: number | null;
+}
+
+export interface AIUsageRecord {
+  id: string;
+  userId: string;
+  model: string;
+  /** Which part of the app made the call, e.g. "conversation" or "extraction". */
+  feature: string;
+  promptTokens: number;
+  completionTokens: number;
+  /** Estimated cost in USD. */
+  cost: number;
+  goalId?: string;
+  conversationId?: string;
+  createdAt: Date;
+}
+
+export interface AIUsageTotals {
+  promptTokens: number;
+  completionTokens: number;
+  requests: number;
+  cost: number;
+}
+
+export interface AIUsageMonth extends AIUsageTotals {
+  id: string;
+  userId: string;
+  /** `YYYY-MM` */
+  month: string;
+  byFeature: Record<string, AIUsageTotals>;
+  byModel: Record<string, AIUsageTotals>;
 }
 
 export interface Goal {
@@ -23,12 +79,21 @@ export interface Goal {
   milestones: Milestone[];
   metrics: Metric[];
   weeklyActions: string[];
-  dailyHabits: string[];
+  dailyHabits: Habit[];
   routines: Routine[];
   resources: string[];
   obstacles: string[];
   successCriteria: string[];
   reflections: Reflection[];
+  /** The AI conversation this goal was created from, if any. */
+  conversationId?: string;
+  /** Every status the goal was set to, oldest first. */
+  statusHistory?: GoalStatusChange[];
+}
+
+export interface GoalStatusChange {
+  status: Goal['status'];
+  date: Date;
 }
 
 export interface Milestone {
@@ -39,6 +104,8 @@ export interface Milestone {
   completed: boolean;
   completedDate?: Date;
   frequency?: 'once' | 'daily' | 'weekly' | 'monthly';
+  /** Board column the milestone was moved to; otherwise derived from its date. */
+  boardColumn?: BoardColumn;
 }
 
 export interface Metric {
@@ -55,6 +122,17 @@ export interface Metric {
   }[];
 }
 
+export interface Habit {
+  id: string;
+  title: string;
+  /** `weekly` habits only need doing `timesPerWeek` times, on any days. */
+  frequency: 'daily' | 'weekdays' | 'weekly';
+  timesPerWeek?: number;
+  /** Local calendar days the habit was done, as `YYYY-MM-DD`. */
+  completions: string[];
+  createdAt?: Date;
+}
+
 export interface Routine {
   id: string;
   name: string;
@@ -63,10 +141,29 @@ export interface Routine {
   steps: string[];
   lastCompleted?: Date;
   nextDue?: Date;
+  /** How long a run usually takes, in minutes. */
+  estimatedMinutes?: number;
+  /** Finished runs, oldest first. */
+  runs?: RoutineRun[];
 }
 
+export interface RoutineRun {
+  id: string;
+  startedAt: Date;
+  completedAt: Date;
+  /** Step texts as they were when skipped, since steps can be edited later. */
+  skippedSteps: string[];
+  notes?: string;
+}
+
+/** Open-work columns on the board; "done" always follows `completed`. */
+export type BoardColumn = 'backlog' | 'week' | 'doing';
+
 export interface Task {
   id: string;
+  userId: string;
+  /** Unset for standalone tasks. */
+  goalId?: string;
   title: string;
   description?: string;
   dueDate?: Date;
@@ -74,6 +171,97 @@ export interface Task {
   completedDate?: Date;
   priority: 'low' | 'medium' | 'high';
   tags: string[];
+  /** The weekly action this task was created from. */
+  weeklyAction?: string;
+  /** Start (`YYYY-MM-DD`) of the planning week the task is scheduled in. */
+  weekOf?: string;
+  /** How many times an unfinished weekly task was carried into a new week. */
+  rolledOver?: number;
+  /** Board column the task was moved to; otherwise derived from its due date. */
+  boardColumn?: BoardColumn;
+  /** Expected effort in minutes, used when time-blocking the day. */
+  estimatedMinutes?: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * A reminder stored for the user so its read, dismissed and snoozed state
+ * survives reloads. Keyed `<userId>_<sourceKey>`, so the same reminder is
+ * only ever stored once.
+ */
+export interface UserNotification {
+  id: string;
+  userId: string;
+  /** What raised it, e.g. `milestone-<id>-<YYYY-MM-DD>`. */
+  sourceKey: string;
+  type: 'milestone' | 'review' | 'goal' | 'routine';
+  title: string;
+  message: string;
+  /** The due date the reminder is about. */
+  date: Date;
+  createdAt: Date;
+  readAt?: Date;
+  dismissedAt?: Date;
+  snoozedUntil?: Date;
+  /** Set once the reminder no longer applies, e.g. the milestone was completed. */
+  resolvedAt?: Date;
+}
+
+/** Focused work logged by the focus timer. */
+export interface TimeEntry {
+  id: string;
+  userId: string;
+  /** Unset for standalone tasks. */
+  goalId?: string;
+  /** What the timer was started from. */
+  targetKind: 'goal' | 'task' | 'routine';
+  targetId: string;
+  title: string;
+  startedAt: Date;
+  endedAt: Date;
+  minutes: number;
+}
+
+/** One item placed on a day's time-blocking grid. */
+export interface TimeBlock {
+  id: string;
+  /** `habit:<goalId>:<habitId>`, `routine:<goalId>:<routineId>` or `task:<taskId>`. */
+  itemKey: string;
+  title: string;
+  /** Minutes after midnight. */
+  start: number;
+  /** Length in minutes. */
+  duration: number;
+}
+
+export interface DaySchedule {
+  id: string;
+  userId: string;
+  /** The day (`YYYY-MM-DD`) the blocks are planned for. */
+  date: string;
+  blocks: TimeBlock[];
+  updatedAt: Date;
+}
+
+export interface ConversationMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface GoalConversation {
+  id: string;
+  userId: string;
+  mode: 'freeform' | 'guided';
+  title: string;
+  messages: ConversationMessage[];
+  draft: Partial<Goal>;
+  /** Current question in the guided flow. */
+  step?: number;
+  status: 'draft' | 'completed';
+  goalId?: string;
+  createdAt: Date;
+  updatedAt: Date;
 }
 
 export interface Reflection {
@@ -81,9 +269,22 @@ export interface Reflection {
   userId: string;
   date: Date;
   type: 'weekly' | 'monthly' | 'quarterly' | 'annual';
+  /** The reviewed period; for weekly reviews the week's start as `YYYY-MM-DD`. */
+  period?: string;
+  /** Set on domain reviews: the life domain that was reviewed. */
+  domain?: string;
   progress: string;
   challenges: string;
   insights: string;
   nextSteps: string;
   satisfaction: number;
-}
\ No newline at end of file
+  /** Quarterly reviews: what was decided for each goal. */
+  goalDecisions?: { goalId: string; title: string; decision: GoalDecision }[];
+  /** Annual reviews: how each life domain went, rated 1–10. */
+  domainAssessments?: { domain: string; rating: number; note: string }[];
+  /** AI feedback on the review, if the user asked for it. */
+  aiSummary?: string;
+  recurringChallenges?: string[];
+}
+
+export type GoalDecision = 'keep' | 'pause' | 'resume' | 'retire';
\ No newline at end of file
@@ -1 +1,10 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  /** `proxy` (default, see server/index.ts), `compatible` for a self-hosted OpenAI-style server, or `scripted` for offline demos. */
+  readonly VITE_AI_PROVIDER?: 'proxy' | 'compatible' | 'scripted';
+  readonly VITE_AI_PROXY_URL?: string;
+  readonly VITE_AI_BASE_URL?: string;
+  readonly VITE_AI_API_KEY?: string;
+  readonly VITE_AI_MODEL?: string;
+}